@@ -64,6 +64,18 @@ export const MEANTIME_ABI = [
       { name: 'contractBalance',   type: 'uint256', indexed: false },
     ],
   },
+  // ── Errors (so viem can decode reverts) ────────────────────────────────────
+  { type: 'error', name: 'NotBridge',           inputs: [] },
+  { type: 'error', name: 'NotBeneficialOwner',  inputs: [] },
+  { type: 'error', name: 'AlreadyMinted',       inputs: [] },
+  { type: 'error', name: 'InvalidToken',        inputs: [] },
+  { type: 'error', name: 'InvalidAmount',       inputs: [] },
+  { type: 'error', name: 'InvalidRecipient',    inputs: [] },
+  { type: 'error', name: 'AlreadyListed',       inputs: [] },
+  { type: 'error', name: 'InvalidPrice',        inputs: [] },
+  { type: 'error', name: 'NotListed',           inputs: [] },
+  { type: 'error', name: 'UnknownTransfer',     inputs: [] },
+  { type: 'error', name: 'InsufficientBalance', inputs: [] },
   // ── Read functions ──────────────────────────────────────────────────────────
   {
     type: 'function',
@@ -0,0 +1,16 @@
+// Operator alerts for conditions that need a human, e.g. a receivable whose
+// burn was reorged out of the source chain. Always logged; also POSTed as
+// JSON to ALERT_WEBHOOK_URL when set (Slack/Discord-style incoming webhooks
+// accept the `text` field).
+
+export function alertOperator(message: string, details: Record<string, unknown> = {}): void {
+  console.error(`[ALERT] ${message}`, details)
+
+  const url = process.env.ALERT_WEBHOOK_URL
+  if (!url) return
+  fetch(url, {
+    method:  'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body:    JSON.stringify({ text: `[MeanTime] ${message}`, details }),
+  }).catch(err => console.warn('[alert] Webhook failed:', (err as Error)?.message ?? err))
+}
@@ -6,11 +6,18 @@ import { buildReceivablesRouter } from './routes/receivables.js'
 import { buildTokensRouter }      from './routes/tokens.js'
 import { buildSseRouter }         from './routes/sse.js'
 import { buildBridgeRouter }      from './routes/bridge.js'
+import { buildHistoryRouter }     from './routes/history.js'
+import { buildTransfersRouter }   from './routes/transfers.js'
+import { buildConfigRouter }      from './routes/config.js'
+import { buildTradesRouter }      from './routes/trades.js'
+import { buildStatsRouter }       from './routes/stats.js'
+import { buildJobsRouter }        from './routes/jobs.js'
 
 export function createApp(ctx: AppCtx, store: Store) {
   const app = express()
 
-  app.use(cors())
+  // Expose the pagination header to browsers
+  app.use(cors({ exposedHeaders: ['X-Next-Cursor'] }))
   app.use(express.json())
 
   // Health check
@@ -20,6 +27,12 @@ export function createApp(ctx: AppCtx, store: Store) {
   app.use('/api/tokens',      buildTokensRouter(ctx))
   app.use('/api/sse',         buildSseRouter(store))
   app.use('/api/bridge',      buildBridgeRouter(ctx, store))
+  app.use('/api/history',     buildHistoryRouter(store))
+  app.use('/api/transfers',   buildTransfersRouter(store))
+  app.use('/api/config',      buildConfigRouter(ctx))
+  app.use('/api/trades',      buildTradesRouter(store))
+  app.use('/api/stats',       buildStatsRouter(store))
+  app.use('/api/jobs',        buildJobsRouter(store))
 
   return app
 }
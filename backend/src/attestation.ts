@@ -0,0 +1,80 @@
+// Where CCTP attestations come from. The poller and recovery only talk to an
+// AttestationProvider (ctx.attestation), so the full lifecycle can run against
+// Circle's Iris API or, offline and in CI, a local mock Iris server.
+// buildAttestationProvider() picks one from config, mirroring buildStore().
+
+import { irisAttestationProvider, IRIS_API } from './iris.js'
+import { mockIrisAttestationProvider, startMockIris, type MockOutcome } from './mockIris.js'
+
+/** Where a burn happened: what the V2 API is keyed by. */
+export interface BurnOrigin {
+  sourceDomain: number
+  sourceTxHash: `0x${string}`
+}
+
+export interface AttestationResult {
+  /** 'pending' covers not-yet-indexed burns (404) and Circle's pending_* statuses. */
+  status:      'complete' | 'pending'
+  /** Circle's own status, e.g. 'pending_confirmations'; 'not_found' on 404. */
+  detail:      string
+  /** Set when complete. */
+  attestation: `0x${string}` | null
+  /** Raw CCTP message (V2 only). */
+  message:     `0x${string}` | null
+  /** Circle's decoded message fields (V2 only). */
+  decoded:     Record<string, unknown> | null
+  api:         'v1' | 'v2'
+}
+
+export interface AttestationProvider {
+  /** For logs, e.g. 'circle' or 'mock'. */
+  name: string
+  /**
+   * Whether Arc's MessageTransmitter accepts this provider's attestations.
+   * Only untrusted (mock) attestations may fall back to a mock USDC mint when
+   * receiveMessage fails.
+   */
+  trusted: boolean
+  /**
+   * Current attestation state of a message, using the V2 API when the burn's
+   * origin is known. Throws if the provider cannot be reached, or once
+   * `signal` is aborted.
+   */
+  fetchAttestation(messageHash: `0x${string}`, origin?: BurnOrigin, signal?: AbortSignal): Promise<AttestationResult>
+  /**
+   * Announce a burn. Circle indexes source chains itself and does not need
+   * this; the mock has no chain access and learns messages this way.
+   */
+  registerBurn?(messageHash: `0x${string}`, message: `0x${string}`, origin: BurnOrigin, signal?: AbortSignal): Promise<void>
+}
+
+const OUTCOMES: readonly MockOutcome[] = ['complete', 'pending', 'error']
+
+/**
+ * Create the AttestationProvider selected by config:
+ *   ATTESTATION_PROVIDER=circle (default) -- Circle Iris at IRIS_API_URL
+ *                                           (default: the sandbox)
+ *   ATTESTATION_PROVIDER=mock             -- starts a local mock Iris server on
+ *                                           MOCK_IRIS_PORT (default 3002); see
+ *                                           mockIris.ts for the MOCK_IRIS_* options
+ */
+export function buildAttestationProvider(): AttestationProvider {
+  const provider = process.env.ATTESTATION_PROVIDER ?? 'circle'
+
+  if (provider === 'circle') return irisAttestationProvider(IRIS_API)
+
+  if (provider === 'mock') {
+    const outcome = (process.env.MOCK_IRIS_OUTCOME ?? 'complete') as MockOutcome
+    if (!OUTCOMES.includes(outcome)) throw new Error(`Unknown MOCK_IRIS_OUTCOME "${outcome}" (expected ${OUTCOMES.join(', ')})`)
+    const port = Number(process.env.MOCK_IRIS_PORT ?? 3002)
+    const mock = startMockIris({
+      port,
+      delayMs:    Number(process.env.MOCK_IRIS_DELAY_MS ?? 60_000),
+      outcome,
+      privateKey: process.env.MOCK_IRIS_PRIVATE_KEY as `0x${string}` | undefined,
+    })
+    return mockIrisAttestationProvider(mock.url)
+  }
+
+  throw new Error(`Unknown ATTESTATION_PROVIDER "${provider}" (expected "circle" or "mock")`)
+}
@@ -1,21 +1,55 @@
-// Polls Circle attestation API for a given CCTP messageHash.
-// When attestation is ready, completes the CCTP flow on Arc.
-// If Circle never attests (e.g. Arc testnet not supported), the poller auto-settles
-// after AUTO_SETTLE_TIMEOUT_MS by mock-minting USDC and calling settle().
+// Attestation and settlement for each CCTP burn, run as durable jobs
+// (jobQueue.ts) so the work survives restarts and failures retry with backoff.
 //
-// recoverSettlements() runs at startup -- checks every active receivable
-// against Circle API and settles any that completed while the backend was down.
+// An attestation job polls the attestation provider (ctx.attestation: Circle's
+// Iris API, V2 messages with V1 fallback, or the local mock -- see
+// attestation.ts) every POLL_INTERVAL_MS -- every FAST_POLL_INTERVAL_MS for a
+// Fast Transfer's first FAST_POLL_WINDOW_MS, since Circle attests those within
+// seconds. Once attested it queues a settlement
+// job that completes the CCTP flow on Arc (receiveMessage) and calls settle().
+// If Circle never attests (e.g. Arc testnet not supported), the attestation job
+// auto-settles after AUTO_SETTLE_TIMEOUT_MS by queueing a settlement that
+// mock-mints USDC instead -- under the testnet settlement policy only. Under
+// strict and manual (settlementPolicy.ts) nothing is mock-minted: the timeout
+// and failed receiveMessage calls flag the receivable for an operator, and
+// settlements that need one are held until approveSettlement().
+//
+// recoverSettlements() runs at startup and queues an attestation job for every
+// active receivable that has no job in progress, so completions missed while
+// the backend was down are settled. The burn's source domain, tx hash and
+// message bytes are persisted with it (recordSource), so settlement can call
+// receiveMessage; V2 supplies the bytes for burns recorded without them. A
+// trusted attestation is never settled by mock-minting: if receiveMessage
+// fails, and the message was not already received, the settlement retries and
+// finally fails for an operator, and if Arc has no MessageTransmitter for the
+// message's CCTP version the settlement is held for one. Providers that cannot
+// see source chains (the mock) are told about each burn before it is first polled.
+//
+// Burns reorged out of their source chain (orphaned, see sourceWatcher.ts) are
+// never auto-settled, and auto-settle waits until the burn is confirmed.
 
 import { type AppCtx, ARC_CCTP } from './ctx.js'
-import { type Store } from './store.js'
+import { type Store, type Job, type JobKind } from './store.js'
 import { MEANTIME_ABI, ERC20_MINT_ABI } from './abi.js'
 import { enqueueTx } from './txQueue.js'
+import { advanceTransfer, errorMessage } from './transfers.js'
+import { updateStatus } from './status.js'
+import { recordAttestationLatency } from './attestationStats.js'
+import { burnTerms, cctpVersionOf, decodeCctpMessage, usedNonceKey } from './cctpMessage.js'
+import { alertOperator } from './alerts.js'
+import { type BurnOrigin } from './attestation.js'
+import {
+  enqueueJob, isJobActive, isUnavailableError, jobId, type JobHandler, type JobResult, type JobRunContext,
+} from './jobQueue.js'
+import { allowsMockMint, requiresApproval } from './settlementPolicy.js'
 
-const ATTESTATION_API = 'https://iris-api-sandbox.circle.com/attestations'
-const POLL_INTERVAL_MS = 30_000                 // 30 seconds between attempts
+const POLL_INTERVAL_MS = 30_000                 // 30 seconds between polls
+const FAST_POLL_INTERVAL_MS = 5_000             // Fast Transfers: 5 seconds between polls...
+const FAST_POLL_WINDOW_MS = 5 * 60 * 1000       // ...for 5 min, then as Standard (Circle may attest at hard finality)
 const AUTO_SETTLE_TIMEOUT_MS = 17 * 60 * 1000   // 17 min -- auto-settle if Circle never attests
 
-const activePollers = new Set<string>()
+// Burns announced to the provider by this process (the mock forgets on restart)
+const registeredBurns = new Set<string>()
 
 const MESSAGE_TRANSMITTER_ABI = [
   {
@@ -28,28 +62,73 @@ const MESSAGE_TRANSMITTER_ABI = [
     outputs: [{ name: 'success', type: 'bool' }],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    name: 'usedNonces',
+    inputs:  [{ name: 'nonce', type: 'bytes32' }],
+    outputs: [{ name: '',      type: 'uint256' }],
+    stateMutability: 'view',
+  },
 ] as const
 
-interface AttestationResponse {
-  status:      string
-  attestation: string | null
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+/** The burn's origin as recorded by the source watcher. */
+function burnOrigin(store: Store, messageHash: string): BurnOrigin | undefined {
+  const source = store.getSource(messageHash)
+  if (!source) return undefined
+  return { sourceDomain: source.sourceDomain, sourceTxHash: source.sourceTxHash }
 }
 
-async function isStillActive(ctx: AppCtx, messageHash: `0x${string}`): Promise<boolean> {
+/** Whether Arc's MessageTransmitter has already received this message. */
+async function isNonceUsed(ctx: AppCtx, messageTransmitter: `0x${string}`, message: `0x${string}`): Promise<boolean> {
   try {
-    const tokenId = await ctx.publicClient.readContract({
-      address: ctx.addresses.meantime, abi: MEANTIME_ABI,
-      functionName: 'tokenByMessageHash', args: [messageHash],
+    const used = await ctx.publicClient.readContract({
+      address: messageTransmitter, abi: MESSAGE_TRANSMITTER_ABI,
+      functionName: 'usedNonces', args: [usedNonceKey(decodeCctpMessage(message))],
     }) as bigint
-    return tokenId !== 0n
+    return used !== 0n
   } catch { return false }
 }
 
-async function mockMintUsdc(ctx: AppCtx, inboundToken: `0x${string}`, amount: bigint): Promise<void> {
+/** Throws if Arc cannot be read, so the job retries instead of giving up on an RPC error. */
+async function isStillActive(ctx: AppCtx, messageHash: `0x${string}`): Promise<boolean> {
+  const tokenId = await ctx.publicClient.readContract({
+    address: ctx.addresses.meantime, abi: MEANTIME_ABI,
+    functionName: 'tokenByMessageHash', args: [messageHash],
+  }) as bigint
+  return tokenId !== 0n
+}
+
+interface OnChainReceivable {
+  tokenId:       bigint
+  owner:         string
+  inboundToken:  `0x${string}`
+  inboundAmount: bigint
+}
+
+async function readReceivable(ctx: AppCtx, tokenId: bigint): Promise<OnChainReceivable> {
+  const [owner, data] = await ctx.publicClient.readContract({
+    address: ctx.addresses.meantime, abi: MEANTIME_ABI,
+    functionName: 'getReceivable', args: [tokenId],
+  }) as [string, { cctpMessageHash: `0x${string}`; inboundToken: `0x${string}`; inboundAmount: bigint; mintedAt: bigint }, unknown, bigint, bigint]
+  return { tokenId, owner, inboundToken: data.inboundToken, inboundAmount: data.inboundAmount }
+}
+
+/** Funding that only an operator can unblock, whatever the settlement policy. */
+class OperatorNeededError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OperatorNeededError'
+  }
+}
+
+/** Throws, explaining why a mock mint was wanted, unless the settlement policy allows one. */
+function assertMockMintAllowed(ctx: AppCtx, reason: string): void {
+  if (!allowsMockMint(ctx.settlementPolicy)) {
+    throw new Error(`${reason} -- mock minting is disabled (SETTLEMENT_POLICY=${ctx.settlementPolicy})`)
+  }
+}
+
+async function mockMintUsdc(ctx: AppCtx, inboundToken: `0x${string}`, amount: bigint): Promise<`0x${string}`> {
   const txHash = await enqueueTx(() =>
     ctx.walletClient.writeContract({
       address: inboundToken, abi: ERC20_MINT_ABI, functionName: 'mint',
@@ -58,180 +137,275 @@ async function mockMintUsdc(ctx: AppCtx, inboundToken: `0x${string}`, amount: bi
   )
   await ctx.publicClient.waitForTransactionReceipt({ hash: txHash })
   console.log(`[settle] Mock USDC minted to MeanTime (${txHash})`)
+  return txHash
+}
+
+async function callSettle(ctx: AppCtx, messageHash: `0x${string}`): Promise<`0x${string}`> {
+  const txHash = await enqueueTx(() =>
+    ctx.walletClient.writeContract({
+      address: ctx.addresses.meantime, abi: MEANTIME_ABI, functionName: 'settle',
+      args: [messageHash], account: ctx.account, chain: null,
+    }),
+  )
+  await ctx.publicClient.waitForTransactionReceipt({ hash: txHash })
+  return txHash
 }
 
 export async function autoSettle(
-  ctx: AppCtx, messageHash: `0x${string}`,
-): Promise<{ tokenId: bigint; settleTx: `0x${string}` } | null> {
+  ctx: AppCtx, store: Store, messageHash: `0x${string}`,
+): Promise<{ tokenId: bigint; mintTx: `0x${string}`; settleTx: `0x${string}` } | null> {
   const tokenId = await ctx.publicClient.readContract({
     address: ctx.addresses.meantime, abi: MEANTIME_ABI,
     functionName: 'tokenByMessageHash', args: [messageHash],
   }).catch(() => 0n) as bigint
 
   if (tokenId === 0n) { console.warn(`[auto-settle] No active NFT for ${messageHash}`); return null }
+  if (store.getSource(messageHash)?.verification === 'orphaned') {
+    console.warn(`[auto-settle] ${messageHash}: burn was orphaned by a source-chain reorg -- refusing to settle`)
+    return null
+  }
 
-  const [owner, data] = await ctx.publicClient.readContract({
-    address: ctx.addresses.meantime, abi: MEANTIME_ABI,
-    functionName: 'getReceivable', args: [tokenId],
-  }) as [string, { cctpMessageHash: `0x${string}`; inboundToken: `0x${string}`; inboundAmount: bigint; mintedAt: bigint }, unknown, bigint, bigint]
-
-  const { inboundToken, inboundAmount } = data
+  const { owner, inboundToken, inboundAmount } = await readReceivable(ctx, tokenId)
   console.log(`[auto-settle] tokenId=${tokenId} token=${inboundToken} amount=${inboundAmount} owner=${owner}`)
 
-  await mockMintUsdc(ctx, inboundToken, inboundAmount)
+  assertMockMintAllowed(ctx, 'force-settle')
+  updateStatus(store, tokenId, 'auto_settling')
+  const mintTx = await mockMintUsdc(ctx, inboundToken, inboundAmount)
 
-  const txHash = await enqueueTx(() =>
-    ctx.walletClient.writeContract({
-      address: ctx.addresses.meantime, abi: MEANTIME_ABI, functionName: 'settle',
-      args: [messageHash], account: ctx.account, chain: null,
-    }),
-  )
-  await ctx.publicClient.waitForTransactionReceipt({ hash: txHash })
+  updateStatus(store, tokenId, 'settling')
+  let txHash: `0x${string}`
+  try {
+    txHash = await callSettle(ctx, messageHash)
+  } catch (err) {
+    updateStatus(store, tokenId, 'settle_failed', errorMessage(err))
+    throw err
+  }
   console.log(`[auto-settle] Settlement complete (${txHash})`)
-  return { tokenId, settleTx: txHash }
+  return { tokenId, mintTx, settleTx: txHash }
 }
 
-export async function pollAttestation(
-  ctx: AppCtx, store: Store, messageHash: `0x${string}`, messageBytes?: `0x${string}`,
-  _sourceTxHash?: string, _sourceDomain?: number,
-): Promise<void> {
-  const key = messageHash.toLowerCase()
-  if (activePollers.has(key)) { console.log(`[attestation] Poller already active for ${messageHash}, skipping`); return }
-  activePollers.add(key)
-  console.log(`[attestation] Polling for ${messageHash}`)
+/**
+ * Queue attestation polling for a minted burn, unless its attestation or
+ * settlement is already in progress.
+ */
+export function queueAttestation(store: Store, messageHash: `0x${string}`): void {
+  if (isJobActive(store.getJob(jobId('settlement', messageHash)))) return
+  advanceTransfer(store, messageHash, { stage: 'attestation_pending' })
+  enqueueJob(store, 'attestation', messageHash)
+}
 
-  const startedAt = Date.now()
+/** Queue attestation jobs for every active receivable with no job in progress. */
+export function recoverSettlements(store: Store): void {
+  const receivables = store.snapshot()
+  if (receivables.length === 0) return
+  console.log(`[recovery] Queueing attestation checks for ${receivables.length} active receivable(s)`)
+  for (const r of receivables) queueAttestation(store, r.cctpMessageHash as `0x${string}`)
+}
 
-  try {
-    for (let attempt = 0; ; attempt++) {
-      await sleep(POLL_INTERVAL_MS)
+/**
+ * Operator action on a settlement held for one (or one that gave up): approve
+ * it under the manual policy, or retry it once the cause is fixed. Returns the
+ * re-queued job, or null if there is no such settlement.
+ */
+export function approveSettlement(store: Store, messageHash: `0x${string}`, now = Date.now()): Job | null {
+  const job = store.getJob(jobId('settlement', messageHash))
+  if (!job || (job.state !== 'held' && job.state !== 'failed')) return null
+  const approved: Job = { ...job, state: 'queued', attempts: 0, runAt: now, updatedAt: now, approvedAt: now }
+  store.putJob(approved)
+  console.log(`[settle] ${messageHash}: settlement approved by operator`)
+  return approved
+}
 
-      if (!(await isStillActive(ctx, messageHash))) {
-        console.log(`[attestation] ${messageHash}: already settled on-chain -- stopping poller`)
-        return
-      }
+/** Handlers for startJobQueue(). */
+export function attestationJobHandlers(ctx: AppCtx, store: Store): Record<Exclude<JobKind, 'mint'>, JobHandler> {
+  return {
+    attestation: {
+      run: (job, context) => runAttestation(ctx, store, job, context),
+      onGiveUp: job => giveUp(store, job, 'attestation polling failed'),
+    },
+    settlement: {
+      run: (job, context) => runSettlement(ctx, store, job, context),
+      onGiveUp: job => giveUp(store, job, 'settlement failed'),
+    },
+  }
+}
 
-      if (Date.now() - startedAt >= AUTO_SETTLE_TIMEOUT_MS) {
-        console.log(`[attestation] ${messageHash}: ${AUTO_SETTLE_TIMEOUT_MS / 1000}s timeout -- auto-settling`)
-        try { await autoSettle(ctx, messageHash) } catch (err) {
-          console.error(`[attestation] Auto-settle failed for ${messageHash}:`, err)
-        }
-        return
-      }
+function giveUp(store: Store, job: Job, what: string): void {
+  const tokenId = store.getByMessageHash(job.messageHash)?.tokenId
+  advanceTransfer(store, job.messageHash, { stage: 'failed', error: `${what}: ${job.lastError}` })
+  alertOperator(`${what} for ${job.messageHash}${tokenId !== undefined ? ` (receivable #${tokenId})` : ''} after ${job.attempts} attempts: ${job.lastError}`, {
+    messageHash: job.messageHash,
+    tokenId:     tokenId?.toString() ?? null,
+    job:         job.id,
+  })
+}
 
-      try {
-        const res = await fetch(`${ATTESTATION_API}/${messageHash}`)
-        if (res.status === 404) { console.log(`[attestation] ${messageHash}: pending (attempt ${attempt + 1})`); continue }
-        if (!res.ok) { console.warn(`[attestation] API returned ${res.status}`); continue }
-
-        const body = await res.json() as AttestationResponse
-        if (body.status !== 'complete' || !body.attestation) {
-          console.log(`[attestation] ${messageHash}: ${body.status} (attempt ${attempt + 1})`)
-          continue
-        }
+/** Mark the receivable as waiting for an operator, alerting when that is news. */
+function flagForOperator(store: Store, messageHash: `0x${string}`, reason: string): void {
+  const r = store.getByMessageHash(messageHash)
+  if (!r || !updateStatus(store, r.tokenId, 'needs_operator', reason)) return
+  alertOperator(`receivable #${r.tokenId} (${messageHash}) needs an operator: ${reason}`, {
+    messageHash,
+    tokenId: r.tokenId.toString(),
+  })
+}
 
-        console.log(`[attestation] ${messageHash}: COMPLETE -- settling`)
-        await settleWithAttestation(ctx, store, messageHash, messageBytes, body.attestation as `0x${string}`)
-        return
-      } catch (err) {
-        console.warn(`[attestation] Poll error (attempt ${attempt + 1}):`, err)
-      }
+function holdForOperator(store: Store, job: Job, reason: string): JobResult {
+  flagForOperator(store, job.messageHash, reason)
+  return { state: 'held', detail: reason }
+}
+
+function pollIntervalMs(job: Job, messageBytes: `0x${string}` | undefined, now: number): number {
+  const fast = burnTerms(messageBytes)?.transferSpeed === 'fast'
+  return fast && now - job.createdAt < FAST_POLL_WINDOW_MS ? FAST_POLL_INTERVAL_MS : POLL_INTERVAL_MS
+}
+
+async function runAttestation(ctx: AppCtx, store: Store, job: Job, { signal, now }: JobRunContext): Promise<JobResult> {
+  const { messageHash } = job
+  if (!(await isStillActive(ctx, messageHash))) return { state: 'done', detail: 'already settled on-chain' }
+
+  // Looked up each run: the source watcher may record or re-verify the burn meanwhile
+  const source = store.getSource(messageHash)
+  if (source?.verification === 'orphaned') return { state: 'cancelled', detail: 'burn orphaned by a source-chain reorg' }
+
+  const origin = burnOrigin(store, messageHash)
+  if (ctx.attestation.registerBurn && source?.messageBytes && origin && !registeredBurns.has(job.id)) {
+    await ctx.attestation.registerBurn(messageHash, source.messageBytes, origin, signal)
+    registeredBurns.add(job.id)
+  }
+  const interval = pollIntervalMs(job, source?.messageBytes, now())
+
+  if (now() - job.createdAt >= AUTO_SETTLE_TIMEOUT_MS) {
+    if (!allowsMockMint(ctx.settlementPolicy)) {
+      // No auto-settle: flag it and keep polling, so a late attestation still settles
+      flagForOperator(store, messageHash, `not attested after ${AUTO_SETTLE_TIMEOUT_MS / 60_000} min`)
+    } else if (source?.verification === 'pending') {
+      return { retryInMs: interval, detail: 'burn not yet confirmed on the source chain -- delaying auto-settle' }
+    } else {
+      console.log(`[attestation] ${messageHash}: ${AUTO_SETTLE_TIMEOUT_MS / 1000}s timeout -- auto-settling`)
+      enqueueJob(store, 'settlement', messageHash, { attestation: null }, now())
+      return { state: 'done', detail: 'not attested in time -- auto-settling' }
     }
-  } finally {
-    activePollers.delete(key)
   }
+
+  const result = await ctx.attestation.fetchAttestation(messageHash, origin, signal)
+  if (result.status !== 'complete') return { retryInMs: interval, detail: `${result.detail} via ${result.api}` }
+
+  console.log(`[attestation] ${messageHash}: COMPLETE via ${result.api} -- settling`)
+  // Only sample latency while polling ran uninterrupted; across a restart it would include the downtime
+  if (job.polls > 0 && now() - job.updatedAt <= 2 * interval) recordAttestationLatency(store, messageHash)
+  advanceTransfer(store, messageHash, { stage: 'attested' })
+  enqueueJob(store, 'settlement', messageHash, {
+    attestation: result.attestation!,
+    ...(result.message && { messageBytes: result.message }),
+  }, now())
+  return { state: 'done', detail: `attested via ${result.api}` }
 }
 
-async function settleWithAttestation(
-  ctx: AppCtx, _store: Store, messageHash: `0x${string}`,
-  messageBytes: `0x${string}` | undefined, attestation: `0x${string}`,
-): Promise<void> {
+async function runSettlement(ctx: AppCtx, store: Store, job: Job, { signal }: JobRunContext): Promise<JobResult> {
+  const { messageHash } = job
   const tokenId = await ctx.publicClient.readContract({
     address: ctx.addresses.meantime, abi: MEANTIME_ABI,
     functionName: 'tokenByMessageHash', args: [messageHash],
-  }).catch(() => 0n) as bigint
+  }) as bigint
+  if (tokenId === 0n) return { state: 'done', detail: 'already settled on-chain' }
+  if (store.getSource(messageHash)?.verification === 'orphaned') {
+    return { state: 'cancelled', detail: 'burn orphaned by a source-chain reorg' }
+  }
+  if (requiresApproval(ctx.settlementPolicy) && !job.approvedAt) {
+    return holdForOperator(store, job, 'awaiting settlement approval')
+  }
 
-  if (tokenId === 0n) { console.warn(`[settle] No NFT found for messageHash ${messageHash}`); return }
+  try {
+    const r = await readReceivable(ctx, tokenId)
+    console.log(`[settle] tokenId=${tokenId} token=${r.inboundToken} amount=${r.inboundAmount} beneficialOwner=${r.owner}`)
 
-  const [owner, data] = await ctx.publicClient.readContract({
-    address: ctx.addresses.meantime, abi: MEANTIME_ABI,
-    functionName: 'getReceivable', args: [tokenId],
-  }) as [string, { cctpMessageHash: `0x${string}`; inboundToken: `0x${string}`; inboundAmount: bigint; mintedAt: bigint }, unknown, bigint, bigint]
+    if (!job.funded) {
+      // viem calls cannot be cancelled, so a run that timed out stops before its next write instead
+      signal.throwIfAborted()
+      try {
+        await fundMeanTime(ctx, store, job, r)
+      } catch (err) {
+        // Only the testnet policy retries funding unattended; an outage is retried under any
+        if (isUnavailableError(err)) throw err
+        if (err instanceof OperatorNeededError || !allowsMockMint(ctx.settlementPolicy)) {
+          return holdForOperator(store, job, errorMessage(err))
+        }
+        throw err
+      }
+      store.putJob({ ...store.getJob(job.id) ?? job, funded: true })
+    }
+
+    signal.throwIfAborted()
+    console.log(`[settle] Calling MeanTime.settle(${messageHash})`)
+    updateStatus(store, tokenId, 'settling')
+    const txHash = await callSettle(ctx, messageHash)
+    console.log(`[settle] Settlement complete (${txHash})`)
+    return { state: 'done', detail: `settled (${txHash})` }
+  } catch (err) {
+    // Retried by the queue; the receivable shows why in the meantime
+    updateStatus(store, tokenId, 'settle_failed', errorMessage(err))
+    throw err
+  }
+}
+
+/**
+ * Get the receivable's USDC into MeanTime: receiveMessage with the
+ * attestation, or a mock mint when there is none (auto-settle), Arc has no
+ * MessageTransmitter configured, or an untrusted (mock) attestation is
+ * rejected. Where the settlement policy forbids mock mints, those cases throw.
+ * A trusted attestation with no MessageTransmitter for its CCTP version throws
+ * an OperatorNeededError instead: the USDC must come from CCTP.
+ */
+async function fundMeanTime(ctx: AppCtx, store: Store, job: Job, r: OnChainReceivable): Promise<void> {
+  const { messageHash, attestation } = job
+  const mockMint = async (reason: string | null) => {
+    assertMockMintAllowed(ctx, reason ?? 'not attested')
+    updateStatus(store, r.tokenId, 'auto_settling', reason)
+    const txHash = await mockMintUsdc(ctx, r.inboundToken, r.inboundAmount)
+    advanceTransfer(store, messageHash, { stage: 'received', txHash })
+  }
 
-  const { inboundToken, inboundAmount } = data
-  console.log(`[settle] tokenId=${tokenId} token=${inboundToken} amount=${inboundAmount} beneficialOwner=${owner}`)
-
-  const arcMT = ARC_CCTP.messageTransmitter
-  if (arcMT && messageBytes) {
-    try {
-      console.log('[settle] Calling Arc MessageTransmitter.receiveMessage')
-      const txHash = await enqueueTx(() =>
-        ctx.walletClient.writeContract({
-          address: arcMT, abi: MESSAGE_TRANSMITTER_ABI, functionName: 'receiveMessage',
-          args: [messageBytes, attestation], account: ctx.account, chain: null,
-        }),
-      )
-      await ctx.publicClient.waitForTransactionReceipt({ hash: txHash })
-      console.log(`[settle] receiveMessage OK (${txHash})`)
-    } catch (err) {
-      console.warn('[settle] receiveMessage failed, falling back to mock mint:', err)
-      await mockMintUsdc(ctx, inboundToken, inboundAmount)
+  if (!attestation) return mockMint(null)
+  updateStatus(store, r.tokenId, 'attested')
+
+  // Bytes as stored with the burn, else from the V2 response
+  const message = store.getSource(messageHash)?.messageBytes ?? job.messageBytes
+  // Each CCTP version's messages are received by that version's MessageTransmitter
+  const version = message ? cctpVersionOf(decodeCctpMessage(message)) : 2
+  const arcMT   = version === 1 ? ARC_CCTP.messageTransmitterV1 : ARC_CCTP.messageTransmitter
+  if (!arcMT) {
+    const reason = `no Arc MessageTransmitter configured for CCTP V${version}`
+    if (ctx.attestation.trusted) {
+      throw new OperatorNeededError(`attested by ${ctx.attestation.name}, but ${reason} (${version === 1 ? 'ARC_MESSAGE_TRANSMITTER_V1' : 'ARC_MESSAGE_TRANSMITTER'})`)
     }
-  } else {
-    console.log('[settle] No Arc MessageTransmitter configured -- using mock USDC mint')
-    await mockMintUsdc(ctx, inboundToken, inboundAmount)
+    console.log(`[settle] ${reason} -- using mock USDC mint`)
+    return mockMint(reason)
   }
+  if (!message) throw new Error('attested, but the CCTP message bytes are unknown')
 
   try {
-    console.log(`[settle] Calling MeanTime.settle(${messageHash})`)
+    console.log('[settle] Calling Arc MessageTransmitter.receiveMessage')
     const txHash = await enqueueTx(() =>
       ctx.walletClient.writeContract({
-        address: ctx.addresses.meantime, abi: MEANTIME_ABI, functionName: 'settle',
-        args: [messageHash], account: ctx.account, chain: null,
+        address: arcMT, abi: MESSAGE_TRANSMITTER_ABI, functionName: 'receiveMessage',
+        args: [message, attestation], account: ctx.account, chain: null,
       }),
     )
     await ctx.publicClient.waitForTransactionReceipt({ hash: txHash })
-    console.log(`[settle] Settlement complete (${txHash})`)
+    console.log(`[settle] receiveMessage OK (${txHash})`)
+    advanceTransfer(store, messageHash, { stage: 'received', txHash })
   } catch (err) {
-    console.error('[settle] settle() failed:', err)
-  }
-}
-
-export async function recoverSettlements(ctx: AppCtx, store: Store): Promise<void> {
-  const receivables = store.snapshot()
-  if (receivables.length === 0) return
-  console.log(`[recovery] Checking ${receivables.length} active receivable(s) for attestation status`)
-
-  for (const r of receivables) {
-    const messageHash = r.cctpMessageHash as `0x${string}`
-    if (!(await isStillActive(ctx, messageHash))) {
-      console.log(`[recovery] ${messageHash}: already settled -- skipping`)
-      continue
-    }
-    try {
-      const res = await fetch(`${ATTESTATION_API}/${messageHash}`)
-      if (res.status === 404) {
-        console.log(`[recovery] ${messageHash}: not found on Circle API -- starting poller`)
-        pollAttestation(ctx, store, messageHash).catch(e => console.error(`[recovery] Poller error for ${messageHash}:`, e))
-        continue
-      }
-      if (!res.ok) {
-        console.warn(`[recovery] ${messageHash}: Circle API returned ${res.status}`)
-        pollAttestation(ctx, store, messageHash).catch(e => console.error(`[recovery] Poller error for ${messageHash}:`, e))
-        continue
-      }
-      const body = await res.json() as AttestationResponse
-      if (body.status === 'complete' && body.attestation) {
-        console.log(`[recovery] ${messageHash}: ALREADY COMPLETE -- settling now`)
-        await settleWithAttestation(ctx, store, messageHash, undefined, body.attestation as `0x${string}`)
-      } else {
-        console.log(`[recovery] ${messageHash}: ${body.status} -- starting poller`)
-        pollAttestation(ctx, store, messageHash).catch(e => console.error(`[recovery] Poller error for ${messageHash}:`, e))
-      }
-    } catch (err) {
-      console.warn(`[recovery] Error checking ${messageHash}:`, err)
-      pollAttestation(ctx, store, messageHash).catch(e => console.error(`[recovery] Poller error for ${messageHash}:`, e))
+    if (await isNonceUsed(ctx, arcMT, message)) {
+      // Received before (e.g. by us before a restart, or by another relayer)
+      console.log(`[settle] ${messageHash}: message already received on Arc -- settling`)
+      advanceTransfer(store, messageHash, { stage: 'received' })
+    } else if (!ctx.attestation.trusted) {
+      console.warn(`[settle] receiveMessage rejected the ${ctx.attestation.name} attestation, falling back to mock mint:`, err)
+      await mockMint(`receiveMessage failed: ${errorMessage(err)}`)
+    } else {
+      // A real attestation exists, so USDC must come from CCTP, never a mock mint
+      throw new Error(`receiveMessage failed: ${errorMessage(err)}`, { cause: err })
     }
   }
-  console.log('[recovery] Done')
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+// Observed Circle attestation latency, per source domain and transfer speed.
+// The attestation poller records how long each burn took to be attested
+// (burn block time -> attestation seen complete); the store keeps a rolling
+// window of those samples. Percentiles are served at GET /api/stats/attestation
+// and the median drives receivable settlement ETAs once there are enough
+// samples. Until then the registry/contract estimate is used. Fast and
+// Standard Transfers are attested seconds vs. minutes apart, so each speed has
+// its own window and estimate.
+//
+// Samples are only as precise as the poll interval (attestations are seen up
+// to POLL_INTERVAL_MS late) and are not taken for attestations found complete
+// at startup, which would include the downtime.
+
+import { type Store } from './store.js'
+import { attestationSecondsFor } from './chains.js'
+import { burnTerms, type TransferSpeed } from './cctpMessage.js'
+
+/** Samples needed before observations replace the configured estimate. */
+export const MIN_SAMPLES = 5
+
+export interface LatencyStats {
+  sourceDomain:    number
+  transferSpeed:   TransferSpeed
+  samples:         number
+  /** Seconds; null without samples. */
+  min:             number | null
+  p50:             number | null
+  p90:             number | null
+  p99:             number | null
+  max:             number | null
+  /** Seconds used for settlement ETAs. */
+  estimateSeconds: number
+  /** Whether estimateSeconds comes from samples or from chains.json / the contract. */
+  estimateSource:  'observed' | 'configured'
+}
+
+/** Nearest-rank percentile of an ascending, non-empty list. */
+export function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1]
+}
+
+export function latencyStats(store: Store, sourceDomain: number, transferSpeed: TransferSpeed = 'standard'): LatencyStats {
+  const seconds = store.attestationSamples(sourceDomain, transferSpeed).map(s => s.seconds).sort((a, b) => a - b)
+  const observed = seconds.length >= MIN_SAMPLES
+  const at = (p: number) => (seconds.length > 0 ? percentile(seconds, p) : null)
+  return {
+    sourceDomain,
+    transferSpeed,
+    samples:         seconds.length,
+    min:             seconds[0] ?? null,
+    p50:             at(50),
+    p90:             at(90),
+    p99:             at(99),
+    max:             seconds[seconds.length - 1] ?? null,
+    estimateSeconds: observed ? percentile(seconds, 50) : attestationSecondsFor(sourceDomain, transferSpeed),
+    estimateSource:  observed ? 'observed' : 'configured',
+  }
+}
+
+/** Expected seconds from burn to attestation for a source domain (unknown: the contract's estimate). */
+export function estimateAttestationSeconds(
+  store: Store, sourceDomain: number | undefined, transferSpeed: TransferSpeed = 'standard',
+): number {
+  if (sourceDomain === undefined) return attestationSecondsFor(undefined, transferSpeed)
+  return latencyStats(store, sourceDomain, transferSpeed).estimateSeconds
+}
+
+/**
+ * Record how long a burn took to be attested, measured from its burn_detected
+ * stage (the burn's block time where known). Skipped if the burn's origin or
+ * detection time is unknown.
+ */
+export function recordAttestationLatency(
+  store: Store, messageHash: `0x${string}`, observedAt = BigInt(Math.floor(Date.now() / 1000)),
+): void {
+  const transfer     = store.getTransfer(messageHash)
+  const burnAt       = transfer?.stages.find(e => e.stage === 'burn_detected')?.at
+  const source       = store.getSource(messageHash)
+  const sourceDomain = transfer?.sourceDomain ?? source?.sourceDomain
+  if (burnAt === undefined || sourceDomain == null || observedAt < burnAt) return
+
+  const seconds       = Number(observedAt - burnAt)
+  const transferSpeed = burnTerms(source?.messageBytes)?.transferSpeed ?? 'standard'
+  store.recordAttestationSample({ messageHash, sourceDomain, transferSpeed, seconds, observedAt })
+  console.log(`[attestation] ${messageHash}: ${transferSpeed} transfer attested ${seconds}s after burn (domain ${sourceDomain})`)
+}
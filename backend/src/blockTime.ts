@@ -0,0 +1,69 @@
+// Resolves block numbers to block timestamps (unix seconds).
+// Contract events mostly carry block numbers only, and many logs in one poll
+// share a block, so results are cached (bounded, oldest evicted first).
+
+import { type PublicClient } from 'viem'
+
+const MAX_CACHED_BLOCKS = 1000
+// getBlock calls in flight at once, so a long backfill does not trip RPC rate limits
+const MAX_CONCURRENT_FETCHES = 8
+
+export type BlockClock = (blockNumber: bigint) => Promise<bigint>
+
+export function createBlockClock(client: PublicClient): BlockClock {
+  const cache = new Map<bigint, bigint>()
+
+  return async (blockNumber) => {
+    const cached = cache.get(blockNumber)
+    if (cached !== undefined) return cached
+
+    const block = await client.getBlock({ blockNumber })
+    cache.set(blockNumber, block.timestamp)
+    if (cache.size > MAX_CACHED_BLOCKS) {
+      cache.delete(cache.keys().next().value as bigint)
+    }
+    return block.timestamp
+  }
+}
+
+/** Resolve every distinct block number up front, so a failure aborts before any state changes. */
+export async function resolveBlockTimes(
+  clock: BlockClock, blockNumbers: Iterable<bigint>,
+): Promise<Map<bigint, bigint>> {
+  const { times, errors } = await fetchBlockTimes(clock, blockNumbers, true)
+  if (errors.length > 0) throw errors[0]
+  return times
+}
+
+/**
+ * Resolve what can be resolved: a block whose time cannot be fetched is left
+ * out of `times` (so it reads as 0) and counted in `missing`, without
+ * costing the other blocks theirs.
+ */
+export async function resolveAvailableBlockTimes(
+  clock: BlockClock, blockNumbers: Iterable<bigint>,
+): Promise<{ times: Map<bigint, bigint>; missing: number }> {
+  const { times, errors } = await fetchBlockTimes(clock, blockNumbers, false)
+  return { times, missing: errors.length }
+}
+
+// Fetch with at most MAX_CONCURRENT_FETCHES calls in flight. With `stopOnError`,
+// no new fetch starts once one has failed.
+async function fetchBlockTimes(clock: BlockClock, blockNumbers: Iterable<bigint>, stopOnError: boolean) {
+  const queue  = Array.from(new Set(blockNumbers))
+  const times  = new Map<bigint, bigint>()
+  const errors: unknown[] = []
+
+  const worker = async () => {
+    for (let n = queue.shift(); n !== undefined; n = queue.shift()) {
+      if (stopOnError && errors.length > 0) return
+      try {
+        times.set(n, await clock(n))
+      } catch (err) {
+        errors.push(err)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_FETCHES, queue.length) }, worker))
+  return { times, errors }
+}
@@ -21,7 +21,8 @@
  *     --source ethereum-sepolia \
  *     --sender-key 0x… \
  *     --amount 10 \
- *     --recipient 0x…
+ *     --recipient 0x… \
+ *     [--speed FAST --max-fee 0.01]
  *
  * Usage (module):
  *   import { bridgeAndMint } from './bridgeService.js'
@@ -29,9 +30,6 @@
  */
 
 import 'dotenv/config'
-import { readFileSync } from 'fs'
-import { join, dirname } from 'path'
-import { fileURLToPath } from 'url'
 import { BridgeKit } from '@circle-fin/bridge-kit'
 import { createViemAdapterFromPrivateKey } from '@circle-fin/adapter-viem-v2'
 import {
@@ -44,98 +42,21 @@ import {
   type Chain,
 } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
+import { CHAINS, toViemChain, rpcUrlFor, type SourceChainConfig } from './chains.js'
+import { CCTP_SOURCES, loadAddresses } from './ctx.js'
+import { IRIS_API } from './iris.js'
+import { decodeBurnMessage, netMintAmount, CctpMessageError } from './cctpMessage.js'
 
 // ── Arc Testnet Configuration ──────────────────────────────────────────────
-const ARC_RPC_URL  = process.env.ARC_RPC_URL ?? 'https://rpc.testnet.arc.network'
-const ARC_CHAIN_ID = 5042002
-const ARC_USDC     = '0x3600000000000000000000000000000000000000' as `0x${string}`
+const ARC_RPC_URL = process.env.ARC_RPC_URL ?? CHAINS.arc.rpcUrl
+const ARC_USDC    = CHAINS.arc.cctp.usdc
 // USDC on Arc is 6 decimals via ERC-20, 18 decimals as native gas — never mix.
 
-const arcChain: Chain = {
-  id:   ARC_CHAIN_ID,
-  name: 'Arc Testnet',
-  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-  rpcUrls: { default: { http: [ARC_RPC_URL] } },
-}
+const arcChain: Chain = toViemChain(CHAINS.arc, ARC_RPC_URL)
 
 // ── Supported Source Chains ────────────────────────────────────────────────
-// Maps friendly names → Bridge Kit BridgeChain identifiers + chain defs for
-// receipt fetching.  All use CCTPv2 via Bridge Kit.
-
-interface SourceChainConfig {
-  /** Bridge Kit BridgeChain enum value */
-  bridgeKitName: string
-  /** CCTP V2 domain number (for Circle attestation API fallback) */
-  cctpDomain: number
-  /** Viem chain definition for on-chain receipt queries */
-  chain: Chain
-}
-
-const SOURCE_CHAINS: Record<string, SourceChainConfig> = {
-  'ethereum-sepolia': {
-    bridgeKitName: 'Ethereum_Sepolia',
-    cctpDomain: 0,
-    chain: {
-      id: 11155111, name: 'Ethereum Sepolia',
-      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-      rpcUrls: { default: { http: ['https://rpc.sepolia.org'] } },
-    },
-  },
-  'arbitrum-sepolia': {
-    bridgeKitName: 'Arbitrum_Sepolia',
-    cctpDomain: 3,
-    chain: {
-      id: 421614, name: 'Arbitrum Sepolia',
-      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-      rpcUrls: { default: { http: ['https://sepolia-rollup.arbitrum.io/rpc'] } },
-    },
-  },
-  'base-sepolia': {
-    bridgeKitName: 'Base_Sepolia',
-    cctpDomain: 6,
-    chain: {
-      id: 84532, name: 'Base Sepolia',
-      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-      rpcUrls: { default: { http: ['https://sepolia.base.org'] } },
-    },
-  },
-  'optimism-sepolia': {
-    bridgeKitName: 'Optimism_Sepolia',
-    cctpDomain: 2,
-    chain: {
-      id: 11155420, name: 'OP Sepolia',
-      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-      rpcUrls: { default: { http: ['https://sepolia.optimism.io'] } },
-    },
-  },
-  'avalanche-fuji': {
-    bridgeKitName: 'Avalanche_Fuji',
-    cctpDomain: 1,
-    chain: {
-      id: 43113, name: 'Avalanche Fuji',
-      nativeCurrency: { name: 'AVAX', symbol: 'AVAX', decimals: 18 },
-      rpcUrls: { default: { http: ['https://api.avax-test.network/ext/bc/C/rpc'] } },
-    },
-  },
-  'polygon-amoy': {
-    bridgeKitName: 'Polygon_Amoy_Testnet',
-    cctpDomain: 7,
-    chain: {
-      id: 80002, name: 'Polygon Amoy',
-      nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
-      rpcUrls: { default: { http: ['https://rpc-amoy.polygon.technology'] } },
-    },
-  },
-  'unichain-sepolia': {
-    bridgeKitName: 'Unichain_Sepolia',
-    cctpDomain: 10,
-    chain: {
-      id: 1301, name: 'Unichain Sepolia',
-      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-      rpcUrls: { default: { http: ['https://sepolia.unichain.org'] } },
-    },
-  },
-}
+// Every source chain in the registry (chains.json). All use CCTPv2 via Bridge Kit.
+const SOURCE_CHAINS = CCTP_SOURCES
 
 // ── MeanTime Contract ABI (minimal) ───────────────────────────────────────
 const MEANTIME_MINT_ABI = [
@@ -193,6 +114,10 @@ export interface BridgeRequest {
   amount: string
   /** Arc address that becomes the NFT's beneficial owner */
   recipientAddress: `0x${string}`
+  /** CCTP Standard (SLOW, the default) or Fast Transfer */
+  transferSpeed?: 'FAST' | 'SLOW'
+  /** Human-readable USDC, FAST only: the most Circle may charge (Bridge Kit picks one if omitted) */
+  maxFee?: string
 }
 
 export interface BridgeServiceResult {
@@ -206,36 +131,30 @@ export interface BridgeServiceResult {
 // ── Helpers ────────────────────────────────────────────────────────────────
 
 function getMeantimeAddress(): `0x${string}` {
-  if (process.env.MEANTIME_ADDRESS) {
-    return process.env.MEANTIME_ADDRESS as `0x${string}`
-  }
-  const here = dirname(fileURLToPath(import.meta.url))
-  const path = join(here, '..', '..', 'deployments.json')
-  try {
-    const json = JSON.parse(readFileSync(path, 'utf8'))
-    return json.meantime as `0x${string}`
-  } catch {
-    throw new Error(
-      'MEANTIME_ADDRESS not set and deployments.json not found. ' +
-      'Run deploy.sh or set the env var.',
-    )
-  }
+  return (process.env.MEANTIME_ADDRESS as `0x${string}` | undefined) ?? loadAddresses().meantime
+}
+
+interface BurnMessageRef {
+  messageHash: `0x${string}`
+  /** Message bytes, when known; they carry the fee the burn pays. */
+  message:     `0x${string}` | null
 }
 
 /**
- * Extract the CCTP message hash from a burn transaction receipt on the source chain.
- * Finds the MessageSent(bytes message) event and returns keccak256(message).
+ * Extract the CCTP message from a burn transaction receipt on the source chain.
+ * Finds the MessageSent(bytes message) event; the hash is keccak256(message).
  */
 async function getMessageHashFromReceipt(
   sourceConfig: SourceChainConfig,
   burnTxHash: `0x${string}`,
-): Promise<`0x${string}`> {
+): Promise<BurnMessageRef> {
+  const rpcUrl = rpcUrlFor(sourceConfig)
   const client = createPublicClient({
-    chain:     sourceConfig.chain,
-    transport: http(sourceConfig.chain.rpcUrls.default.http[0]),
+    chain:     toViemChain(sourceConfig, rpcUrl),
+    transport: http(rpcUrl),
   })
 
-  console.log(`[bridge] Fetching receipt for burn tx ${burnTxHash} on ${sourceConfig.chain.name}…`)
+  console.log(`[bridge] Fetching receipt for burn tx ${burnTxHash} on ${sourceConfig.name}…`)
   const receipt = await client.getTransactionReceipt({ hash: burnTxHash })
 
   for (const log of receipt.logs) {
@@ -247,7 +166,7 @@ async function getMessageHashFromReceipt(
         topics:    log.topics as [`0x${string}`, ...`0x${string}`[]],
       })
       const messageBytes = (decoded.args as { message: `0x${string}` }).message
-      return keccak256(messageBytes)
+      return { messageHash: keccak256(messageBytes), message: messageBytes }
     } catch { /* not this log */ }
   }
 
@@ -260,8 +179,8 @@ async function getMessageHashFromReceipt(
 async function getMessageHashFromCircleAPI(
   sourceDomain: number,
   burnTxHash: string,
-): Promise<`0x${string}`> {
-  const url = `https://iris-api-sandbox.circle.com/v2/messages/${sourceDomain}?transactionHash=${burnTxHash}`
+): Promise<BurnMessageRef> {
+  const url = `${IRIS_API}/v2/messages/${sourceDomain}?transactionHash=${burnTxHash}`
   console.log(`[bridge] Querying Circle attestation API: ${url}`)
 
   const res = await fetch(url)
@@ -273,8 +192,10 @@ async function getMessageHashFromCircleAPI(
   const msg = body.messages?.[0]
   if (!msg) throw new Error('No messages found in Circle API response')
 
-  if (msg.messageHash) return msg.messageHash as `0x${string}`
-  if (msg.message)     return keccak256(msg.message as `0x${string}`)
+  // The API reports "0x" for the message until it has one
+  const message = msg.message && msg.message !== '0x' ? msg.message as `0x${string}` : null
+  if (msg.messageHash) return { messageHash: msg.messageHash as `0x${string}`, message }
+  if (message)         return { messageHash: keccak256(message), message }
 
   throw new Error('Neither messageHash nor message found in Circle API response')
 }
@@ -292,8 +213,9 @@ async function getMessageHashFromCircleAPI(
  *   3. Call MeanTime.mint() on Arc → creates Transfer-NFT for recipient
  *   4. Call MeanTime.settle() on Arc → transfers USDC to beneficial owner
  *
- * Uses SLOW (Standard) transfer speed: 0 bps protocol fee, ~14 min attestation.
- * The full amount burned arrives in MeanTime — no fee deduction.
+ * Uses SLOW (Standard) transfer speed by default: no fee, ~14 min attestation.
+ * FAST is attested in seconds for a fee of at most maxFee, which is deducted
+ * from what arrives in MeanTime, so the Transfer-NFT is minted for the net amount.
  *
  * @param request - source chain, sender key, amount, recipient address
  * @returns burn tx hash, message hash, token ID, mint tx, settle tx
@@ -317,6 +239,19 @@ export async function bridgeAndMint(request: BridgeRequest): Promise<BridgeServi
     throw new Error(`Invalid amount: ${request.amount}`)
   }
 
+  const transferSpeed = request.transferSpeed ?? 'SLOW'
+  if (transferSpeed !== 'FAST' && transferSpeed !== 'SLOW') {
+    throw new Error(`Invalid transfer speed: ${transferSpeed} (expected FAST or SLOW)`)
+  }
+  let maxFeeNum = 0
+  if (request.maxFee !== undefined) {
+    if (transferSpeed !== 'FAST') throw new Error('maxFee only applies to FAST transfers')
+    maxFeeNum = parseFloat(request.maxFee)
+    if (isNaN(maxFeeNum) || maxFeeNum < 0 || maxFeeNum >= amountNum) {
+      throw new Error(`Invalid maxFee: ${request.maxFee} (must be at least 0 and less than the amount)`)
+    }
+  }
+
   const meantimeAddr = getMeantimeAddress()
   const deployerKey  = process.env.PRIVATE_KEY as `0x${string}` | undefined
   if (!deployerKey) {
@@ -330,13 +265,15 @@ export async function bridgeAndMint(request: BridgeRequest): Promise<BridgeServi
   console.log(`  Amount:       ${request.amount} USDC`)
   console.log(`  Recipient:    ${request.recipientAddress}`)
   console.log(`  MeanTime:     ${meantimeAddr}`)
-  console.log(`  Transfer:     SLOW (Standard, 0 bps, ~14 min attestation)`)
+  console.log(transferSpeed === 'FAST'
+    ? `  Transfer:     FAST (max fee ${request.maxFee ?? 'chosen by Bridge Kit'} USDC, seconds to attestation)`
+    : `  Transfer:     SLOW (Standard, 0 bps, ~14 min attestation)`)
   console.log(`${'═'.repeat(60)}\n`)
 
   // ── Step 1: Bridge via Bridge Kit ────────────────────────────
   console.log(`[bridge] Step 1/4: Initiating CCTP V2 bridge via Bridge Kit…`)
   console.log(`[bridge] This will: approve → burn on ${request.sourceChain}, then`)
-  console.log(`[bridge] wait ~14 min for attestation, then receiveMessage on Arc.`)
+  console.log(`[bridge] wait ${transferSpeed === 'FAST' ? 'seconds' : '~14 min'} for attestation, then receiveMessage on Arc.`)
 
   const kit = new BridgeKit()
 
@@ -365,11 +302,11 @@ export async function bridgeAndMint(request: BridgeRequest): Promise<BridgeServi
     },
     to: {
       adapter:          arcAdapter,
-      chain:            'Arc_Testnet' as any,
+      chain:            CHAINS.arc.bridgeKitName as any,
       recipientAddress: meantimeAddr,
     },
     amount: request.amount,
-    config: { transferSpeed: 'SLOW' },
+    config: { transferSpeed, ...(request.maxFee !== undefined && { maxFee: request.maxFee }) },
   })
 
   // Log full result for debugging
@@ -410,17 +347,18 @@ export async function bridgeAndMint(request: BridgeRequest): Promise<BridgeServi
   console.log(`[bridge] Burn tx: ${burnTxHash}`)
 
   // Extract message hash: try on-chain receipt first, then Circle API fallback
-  let cctpMessageHash: `0x${string}`
+  let burnMessage: BurnMessageRef
   try {
-    cctpMessageHash = await getMessageHashFromReceipt(sourceConfig, burnTxHash as `0x${string}`)
+    burnMessage = await getMessageHashFromReceipt(sourceConfig, burnTxHash as `0x${string}`)
   } catch (err) {
     console.warn(`[bridge] Receipt parsing failed: ${(err as Error).message}`)
     console.log(`[bridge] Trying Circle attestation API fallback…`)
-    cctpMessageHash = await getMessageHashFromCircleAPI(
-      sourceConfig.cctpDomain,
+    burnMessage = await getMessageHashFromCircleAPI(
+      sourceConfig.domain,
       burnTxHash,
     )
   }
+  const { messageHash: cctpMessageHash } = burnMessage
 
   console.log(`[bridge] CCTP message hash: ${cctpMessageHash}`)
 
@@ -435,9 +373,18 @@ export async function bridgeAndMint(request: BridgeRequest): Promise<BridgeServi
     account:   deployerAccount,
   })
 
-  // Amount in base units (6 decimals). SLOW transfer has 0 protocol fee
-  // so the full amount arrives in MeanTime.
-  const inboundAmount = BigInt(Math.round(amountNum * 1e6))
+  // Amount in base units (6 decimals), net of Circle's fee: from the burn
+  // message where we have it, else assuming the whole maxFee (SLOW: none).
+  let inboundAmount = BigInt(Math.round((amountNum - maxFeeNum) * 1e6))
+  if (burnMessage.message) {
+    try {
+      inboundAmount = netMintAmount(decodeBurnMessage(burnMessage.message))
+    } catch (err) {
+      if (!(err instanceof CctpMessageError)) throw err
+      console.warn(`[bridge] Could not decode the burn message (${err.message}); assuming the whole maxFee`)
+    }
+  }
+  console.log(`[bridge] Inbound amount (net of fee): ${inboundAmount}`)
 
   const mintTxHash = await arcWallet.writeContract({
     address:      meantimeAddr,
@@ -511,7 +458,8 @@ async function main() {
       console.error('    --source ethereum-sepolia \\')
       console.error('    --sender-key 0x… \\')
       console.error('    --amount 10 \\')
-      console.error('    --recipient 0x…')
+      console.error('    --recipient 0x… \\')
+      console.error('    [--speed FAST|SLOW] [--max-fee 0.01]')
       console.error('')
       console.error(`Supported source chains: ${Object.keys(SOURCE_CHAINS).join(', ')}`)
       process.exit(1)
@@ -519,6 +467,11 @@ async function main() {
     return args[idx + 1]
   }
 
+  function getOptionalArg(name: string): string | undefined {
+    const idx = args.indexOf(`--${name}`)
+    return idx === -1 ? undefined : args[idx + 1]
+  }
+
   const TIMEOUT_MS = 30 * 60 * 1000 // 30 minutes
 
   try {
@@ -528,6 +481,8 @@ async function main() {
         senderPrivateKey: getArg('sender-key') as `0x${string}`,
         amount:          getArg('amount'),
         recipientAddress: getArg('recipient') as `0x${string}`,
+        transferSpeed:   getOptionalArg('speed')?.toUpperCase() as BridgeRequest['transferSpeed'],
+        maxFee:          getOptionalArg('max-fee'),
       }),
       new Promise<never>((_, reject) =>
         setTimeout(() => reject(new Error('Bridge timed out after 30 minutes')), TIMEOUT_MS),
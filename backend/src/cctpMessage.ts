@@ -0,0 +1,373 @@
+// CCTP message codec: the MessageTransmitter header and the TokenMessenger
+// BurnMessage it carries, as emitted in MessageSent and received on Arc, for
+// both protocol versions. The header's leading version field says which layout
+// follows (0 = V1, 1 = V2); both decode to the same types, so callers need not
+// care. Field names follow Circle's contracts (and the V2 API's decodedMessage).
+// All integers are big-endian; addresses are bytes32, so non-EVM senders (e.g.
+// Solana) keep all 32 bytes.
+//
+// V2 header (148 bytes):
+//     0  version                    uint32   1
+//     4  sourceDomain               uint32
+//     8  destinationDomain          uint32
+//    12  nonce                      bytes32  assigned by Circle (zero until attested)
+//    44  sender                     bytes32  TokenMessenger on the source chain
+//    76  recipient                  bytes32  TokenMessenger on the destination chain
+//   108  destinationCaller          bytes32  zero: anyone may call receiveMessage
+//   140  minFinalityThreshold       uint32   1000 = Fast Transfer, 2000 = Standard
+//   144  finalityThresholdExecuted  uint32   zero until attested
+//   148  messageBody                bytes
+//
+// V2 BurnMessage body (228 bytes + hookData):
+//     0  version          uint32   1
+//     4  burnToken        bytes32
+//    36  mintRecipient    bytes32
+//    68  amount           uint256  gross amount burned
+//   100  messageSender    bytes32
+//   132  maxFee           uint256  most the depositor agreed to pay
+//   164  feeExecuted      uint256  fee actually charged (zero until attested)
+//   196  expirationBlock  uint256  zero until attested
+//   228  hookData         bytes
+//
+// V1 header (116 bytes): version (0), sourceDomain, destinationDomain as in
+// V2, then nonce uint64 (assigned at burn time) at 12, sender at 20,
+// recipient at 52, destinationCaller at 84 and messageBody at 116.
+// V1 BurnMessage body (exactly 132 bytes): the first five V2 fields, version 0.
+// V1 has no fees, hooks or finality levels: those fields decode as zero (hookData
+// "0x") and FINALITY_STANDARD, since V1 is always attested at hard finality.
+
+import {
+  concat, getAddress, hexToBigInt, hexToNumber, isHex, keccak256, numberToHex, pad, size, slice,
+  type Address, type Hex,
+} from 'viem'
+import { meantimeHookOf, type MeanTimeHook } from './hookData.js'
+
+export const MESSAGE_VERSION_V1      = 0
+export const MESSAGE_VERSION_V2      = 1
+export const BURN_MESSAGE_VERSION_V1 = 0
+export const BURN_MESSAGE_VERSION_V2 = 1
+
+/** minFinalityThreshold of a Fast Transfer: attested at soft ("confirmed") finality. */
+export const FINALITY_FAST     = 1000
+/** minFinalityThreshold of a Standard Transfer: attested once the source chain finalizes. */
+export const FINALITY_STANDARD = 2000
+
+/**
+ * Fast Transfers are attested within seconds for a fee (capped by maxFee);
+ * Standard Transfers wait for the source chain's hard finality, typically minutes.
+ */
+export type TransferSpeed = 'fast' | 'standard'
+
+/** CCTP protocol version, as chains.json and Circle's API number them. */
+export type CctpVersion = 1 | 2
+
+const V1_HEADER_SIZE    = 116
+const V2_HEADER_SIZE    = 148
+const V1_BURN_BODY_SIZE = 132
+const V2_BURN_BODY_SIZE = 228
+const MAX_UINT32        = 2 ** 32 - 1
+const MAX_UINT256       = 2n ** 256n - 1n
+
+/** Malformed or inconsistent CCTP message bytes (or fields passed to an encoder). */
+export class CctpMessageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CctpMessageError'
+  }
+}
+
+export interface CctpMessageHeader {
+  /** MESSAGE_VERSION_V1 or MESSAGE_VERSION_V2. */
+  version:                   number
+  sourceDomain:              number
+  destinationDomain:         number
+  /** 32 bytes in V2, 8 in V1. */
+  nonce:                     Hex
+  sender:                    Hex
+  recipient:                 Hex
+  destinationCaller:         Hex
+  minFinalityThreshold:      number
+  finalityThresholdExecuted: number
+}
+
+/** A message as MessageTransmitter sees it: the header and an opaque body. */
+export interface CctpMessage extends CctpMessageHeader {
+  messageBody: Hex
+}
+
+export interface BurnMessageBody {
+  version:         number
+  burnToken:       Hex
+  mintRecipient:   Hex
+  amount:          bigint
+  messageSender:   Hex
+  maxFee:          bigint
+  feeExecuted:     bigint
+  expirationBlock: bigint
+  hookData:        Hex
+}
+
+/** A TokenMessenger burn: the header with its body decoded. */
+export interface CctpBurnMessage extends CctpMessageHeader {
+  body: BurnMessageBody
+}
+
+export const cctpVersionOf = (m: Pick<CctpMessageHeader, 'version'>): CctpVersion =>
+  m.version === MESSAGE_VERSION_V1 ? 1 : 2
+
+function checkHex(value: unknown, what: string): asserts value is Hex {
+  if (typeof value !== 'string' || !isHex(value) || value.length % 2 !== 0) {
+    throw new CctpMessageError(`${what} must be 0x-prefixed hex of whole bytes`)
+  }
+}
+
+function readVersion(bytes: Hex, what: string, supported: readonly number[]): number {
+  if (size(bytes) < 4) throw new CctpMessageError(`${what} is ${size(bytes)} bytes, too short to hold a version`)
+  const version = hexToNumber(slice(bytes, 0, 4))
+  if (!supported.includes(version)) {
+    throw new CctpMessageError(`Unsupported ${what} version ${version} (expected ${supported.join(' for V1 or ')} for V2)`)
+  }
+  return version
+}
+
+function checkSize(bytes: Hex, what: string, min: number, layout: string): void {
+  if (size(bytes) < min) throw new CctpMessageError(`${what} is ${size(bytes)} bytes, shorter than the ${min}-byte ${layout}`)
+}
+
+// slice() cannot return an empty range
+const rest = (bytes: Hex, from: number): Hex => (size(bytes) > from ? slice(bytes, from) : '0x')
+
+/** Decode the header of a V1 or V2 message, leaving the body as bytes. */
+export function decodeCctpMessage(message: Hex): CctpMessage {
+  checkHex(message, 'CCTP message')
+  const version = readVersion(message, 'CCTP message', [MESSAGE_VERSION_V1, MESSAGE_VERSION_V2])
+  const common = {
+    version,
+    sourceDomain:      hexToNumber(slice(message, 4, 8)),
+    destinationDomain: hexToNumber(slice(message, 8, 12)),
+  }
+  if (version === MESSAGE_VERSION_V1) {
+    checkSize(message, 'CCTP message', V1_HEADER_SIZE, 'V1 header')
+    return {
+      ...common,
+      nonce:                     slice(message, 12, 20),
+      sender:                    slice(message, 20, 52),
+      recipient:                 slice(message, 52, 84),
+      destinationCaller:         slice(message, 84, 116),
+      minFinalityThreshold:      FINALITY_STANDARD,
+      finalityThresholdExecuted: FINALITY_STANDARD,
+      messageBody:               rest(message, V1_HEADER_SIZE),
+    }
+  }
+  checkSize(message, 'CCTP message', V2_HEADER_SIZE, 'V2 header')
+  return {
+    ...common,
+    nonce:                     slice(message, 12, 44),
+    sender:                    slice(message, 44, 76),
+    recipient:                 slice(message, 76, 108),
+    destinationCaller:         slice(message, 108, 140),
+    minFinalityThreshold:      hexToNumber(slice(message, 140, 144)),
+    finalityThresholdExecuted: hexToNumber(slice(message, 144, 148)),
+    messageBody:               rest(message, V2_HEADER_SIZE),
+  }
+}
+
+/** Decode a V1 or V2 BurnMessage body, checking the fee fields are consistent with the amount. */
+export function decodeBurnMessageBody(body: Hex): BurnMessageBody {
+  checkHex(body, 'BurnMessage body')
+  const version = readVersion(body, 'BurnMessage', [BURN_MESSAGE_VERSION_V1, BURN_MESSAGE_VERSION_V2])
+  const v1 = version === BURN_MESSAGE_VERSION_V1
+  if (v1 && size(body) !== V1_BURN_BODY_SIZE) {
+    throw new CctpMessageError(`V1 BurnMessage body is ${size(body)} bytes, expected ${V1_BURN_BODY_SIZE}`)
+  }
+  if (!v1) checkSize(body, 'BurnMessage body', V2_BURN_BODY_SIZE, 'V2 layout')
+  const decoded: BurnMessageBody = {
+    version,
+    burnToken:       slice(body, 4, 36),
+    mintRecipient:   slice(body, 36, 68),
+    amount:          hexToBigInt(slice(body, 68, 100)),
+    messageSender:   slice(body, 100, 132),
+    maxFee:          v1 ? 0n : hexToBigInt(slice(body, 132, 164)),
+    feeExecuted:     v1 ? 0n : hexToBigInt(slice(body, 164, 196)),
+    expirationBlock: v1 ? 0n : hexToBigInt(slice(body, 196, 228)),
+    hookData:        v1 ? '0x' : rest(body, V2_BURN_BODY_SIZE),
+  }
+  checkFees(decoded)
+  return decoded
+}
+
+/** Decode a burn message: header and BurnMessage body, of the same version. */
+export function decodeBurnMessage(message: Hex): CctpBurnMessage {
+  const { messageBody, ...header } = decodeCctpMessage(message)
+  const body = decodeBurnMessageBody(messageBody)
+  checkVersionsMatch(header.version, body.version)
+  return { ...header, body }
+}
+
+// Each protocol version's MessageTransmitter only carries its own TokenMessenger's burns
+function checkVersionsMatch(messageVersion: number, bodyVersion: number): void {
+  if ((messageVersion === MESSAGE_VERSION_V1) !== (bodyVersion === BURN_MESSAGE_VERSION_V1)) {
+    throw new CctpMessageError(`BurnMessage version ${bodyVersion} does not match CCTP message version ${messageVersion}`)
+  }
+}
+
+// TokenMessengerV2 rejects burns with maxFee >= amount, and receiving rejects
+// a fee above maxFee, so anything else cannot have come from CCTP
+function checkFees({ amount, maxFee, feeExecuted }: Pick<BurnMessageBody, 'amount' | 'maxFee' | 'feeExecuted'>): void {
+  if (amount === 0n) throw new CctpMessageError('BurnMessage amount is zero')
+  if (maxFee >= amount) throw new CctpMessageError(`BurnMessage maxFee ${maxFee} is not less than amount ${amount}`)
+  if (feeExecuted > maxFee) throw new CctpMessageError(`BurnMessage feeExecuted ${feeExecuted} exceeds maxFee ${maxFee}`)
+}
+
+const uint32 = (value: number, what: string): Hex => {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) throw new CctpMessageError(`${what} must be a uint32`)
+  return numberToHex(value, { size: 4 })
+}
+
+const uint256 = (value: bigint, what: string): Hex => {
+  if (typeof value !== 'bigint' || value < 0n || value > MAX_UINT256) throw new CctpMessageError(`${what} must be a uint256`)
+  return numberToHex(value, { size: 32 })
+}
+
+const fixedBytes = (value: Hex, bytes: number, what: string): Hex => {
+  checkHex(value, what)
+  if (size(value) !== bytes) throw new CctpMessageError(`${what} must be ${bytes} bytes`)
+  return value
+}
+
+const bytes32 = (value: Hex, what: string): Hex => fixedBytes(value, 32, what)
+
+// V1 layouts have nowhere to put these, so encoding them would lose them
+function checkV1Absent(fields: Record<string, unknown>, absent: Record<string, unknown>): void {
+  for (const [name, value] of Object.entries(absent)) {
+    if (fields[name] !== value) throw new CctpMessageError(`CCTP V1 messages have no ${name}`)
+  }
+}
+
+/** Encode a V1 or V2 message from its header fields and body bytes. */
+export function encodeCctpMessage(m: CctpMessage): Hex {
+  checkHex(m.messageBody, 'messageBody')
+  const common = [
+    uint32(m.version, 'version'),
+    uint32(m.sourceDomain, 'sourceDomain'),
+    uint32(m.destinationDomain, 'destinationDomain'),
+  ]
+  if (m.version === MESSAGE_VERSION_V1) {
+    checkV1Absent(m as unknown as Record<string, unknown>, {
+      minFinalityThreshold: FINALITY_STANDARD, finalityThresholdExecuted: FINALITY_STANDARD,
+    })
+    return concat([
+      ...common,
+      fixedBytes(m.nonce, 8, 'nonce'),
+      bytes32(m.sender, 'sender'),
+      bytes32(m.recipient, 'recipient'),
+      bytes32(m.destinationCaller, 'destinationCaller'),
+      m.messageBody,
+    ])
+  }
+  if (m.version !== MESSAGE_VERSION_V2) throw new CctpMessageError(`Unsupported CCTP message version ${m.version}`)
+  return concat([
+    ...common,
+    bytes32(m.nonce, 'nonce'),
+    bytes32(m.sender, 'sender'),
+    bytes32(m.recipient, 'recipient'),
+    bytes32(m.destinationCaller, 'destinationCaller'),
+    uint32(m.minFinalityThreshold, 'minFinalityThreshold'),
+    uint32(m.finalityThresholdExecuted, 'finalityThresholdExecuted'),
+    m.messageBody,
+  ])
+}
+
+export function encodeBurnMessageBody(b: BurnMessageBody): Hex {
+  checkHex(b.hookData, 'hookData')
+  const common = [
+    uint32(b.version, 'version'),
+    bytes32(b.burnToken, 'burnToken'),
+    bytes32(b.mintRecipient, 'mintRecipient'),
+    uint256(b.amount, 'amount'),
+    bytes32(b.messageSender, 'messageSender'),
+  ]
+  let encoded: Hex
+  if (b.version === BURN_MESSAGE_VERSION_V1) {
+    checkV1Absent(b as unknown as Record<string, unknown>, { maxFee: 0n, feeExecuted: 0n, expirationBlock: 0n, hookData: '0x' })
+    encoded = concat(common)
+  } else if (b.version === BURN_MESSAGE_VERSION_V2) {
+    encoded = concat([
+      ...common,
+      uint256(b.maxFee, 'maxFee'),
+      uint256(b.feeExecuted, 'feeExecuted'),
+      uint256(b.expirationBlock, 'expirationBlock'),
+      b.hookData,
+    ])
+  } else {
+    throw new CctpMessageError(`Unsupported BurnMessage version ${b.version}`)
+  }
+  checkFees(b)
+  return encoded
+}
+
+/** Encode a burn message; the inverse of decodeBurnMessage(). */
+export function encodeBurnMessage({ body, ...header }: CctpBurnMessage): Hex {
+  checkVersionsMatch(header.version, body.version)
+  return encodeCctpMessage({ ...header, messageBody: encodeBurnMessageBody(body) })
+}
+
+/**
+ * The key a MessageTransmitter's usedNonces() is indexed by once the message
+ * is received: the nonce itself in V2, keccak256(sourceDomain, nonce) in V1.
+ */
+export function usedNonceKey(m: CctpMessageHeader): Hex {
+  if (m.version !== MESSAGE_VERSION_V1) return m.nonce
+  return keccak256(concat([uint32(m.sourceDomain, 'sourceDomain'), fixedBytes(m.nonce, 8, 'nonce')]))
+}
+
+/** The EVM address in a bytes32 field, or null if it holds a non-EVM (e.g. Solana) address. */
+export function bytes32ToAddress(value: Hex): Address | null {
+  bytes32(value, 'address')
+  if (hexToBigInt(slice(value, 0, 12)) !== 0n) return null
+  return getAddress(slice(value, 12, 32))
+}
+
+export const addressToBytes32 = (address: Address): Hex => pad(address.toLowerCase() as Hex, { size: 32 })
+
+/**
+ * USDC the mint recipient will actually receive: the amount less the fee
+ * charged. Before Circle has attested (finality not yet executed, as in
+ * MessageSent) the fee is not known, so this assumes the most it can be, maxFee.
+ */
+export function netMintAmount(m: CctpBurnMessage): bigint {
+  const fee = m.finalityThresholdExecuted === 0 ? m.body.maxFee : m.body.feeExecuted
+  return m.body.amount - fee
+}
+
+/** Speed the depositor asked for: thresholds up to FINALITY_FAST are Fast Transfers. */
+export const transferSpeedOf = (minFinalityThreshold: number): TransferSpeed =>
+  minFinalityThreshold <= FINALITY_FAST ? 'fast' : 'standard'
+
+/** What a burn is worth on Arc, from its message bytes. */
+export interface BurnTerms {
+  transferSpeed: TransferSpeed
+  /** Gross USDC burned. */
+  amount:        bigint
+  /** USDC minted on Arc (netMintAmount). */
+  netAmount:     bigint
+  /** MeanTime instructions from the burn's hookData, if any (see hookData.ts). */
+  hook:          MeanTimeHook | null
+}
+
+/** Speed and amounts of a recorded burn, or null if its bytes are unknown or not a valid V1/V2 burn. */
+export function burnTerms(message: Hex | undefined): BurnTerms | null {
+  if (!message) return null
+  try {
+    const burn = decodeBurnMessage(message)
+    return {
+      transferSpeed: transferSpeedOf(burn.minFinalityThreshold),
+      amount:        burn.body.amount,
+      netAmount:     netMintAmount(burn),
+      hook:          meantimeHookOf(burn.body.hookData),
+    }
+  } catch (err) {
+    if (err instanceof CctpMessageError) return null
+    throw err
+  }
+}
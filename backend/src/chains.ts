@@ -0,0 +1,137 @@
+// Chain registry: chain ids, CCTP domains, Circle contract addresses and public
+// RPC endpoints for Arc and every CCTP source chain. The data lives in
+// chains.json at the repo root so there is one copy (CHAINS_PATH points
+// elsewhere); the backend loads it here and serves it (with the deployed
+// MeanTime addresses) at GET /api/config, which is where the frontend gets it.
+
+import { existsSync, readFileSync } from 'fs'
+import { fileURLToPath } from 'url'
+import { join, dirname, resolve } from 'path'
+import { type Chain } from 'viem'
+import { type CctpVersion, type TransferSpeed } from './cctpMessage.js'
+import { type ChainConfig } from './configTypes.js'
+
+export type { CctpContracts, ChainConfig } from './configTypes.js'
+
+/** A CCTP source chain the backend can watch for Arc-bound burns. */
+export interface SourceChainConfig extends ChainConfig {
+  pollIntervalMs:   number
+  /** Average block time, used to size the catch-up window. */
+  blockTimeSeconds: number
+  /** Blocks after which a burn is re-verified and considered safe from reorgs. */
+  confirmations:    number
+  /** CCTP version of the cctp contracts (V1 chains burn without fees or Fast Transfers). Defaults to 2. */
+  cctpVersion?:     CctpVersion
+  /**
+   * Typical seconds from burn to Circle attestation, for settlement ETAs.
+   * Defaults to the contract's ESTIMATED_ATTESTATION_TIME.
+   */
+  attestationSeconds?: number
+  /** As attestationSeconds, for Fast Transfers. Defaults to FAST_ATTESTATION_TIME (or attestationSeconds, if lower). */
+  fastAttestationSeconds?: number
+}
+
+export interface ChainRegistry {
+  arc:     ChainConfig
+  sources: SourceChainConfig[]
+}
+
+/** MeanTime.ESTIMATED_ATTESTATION_TIME, in seconds. */
+export const ESTIMATED_ATTESTATION_TIME = 1020
+
+/** Typical Fast Transfer attestation time, in seconds (Circle quotes ~8-20s). */
+export const FAST_ATTESTATION_TIME = 20
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/
+
+// Fail at startup on a malformed registry rather than on first use
+function validateChain(chain: ChainConfig, where: string): void {
+  for (const field of ['key', 'name', 'rpcUrl', 'bridgeKitName'] as const) {
+    if (typeof chain[field] !== 'string' || chain[field] === '') throw new Error(`${where}: ${field} is required`)
+  }
+  for (const field of ['chainId', 'domain'] as const) {
+    if (!Number.isInteger(chain[field]) || chain[field] < 0) throw new Error(`${where}: ${field} must be a non-negative integer`)
+  }
+  for (const field of ['tokenMessenger', 'messageTransmitter', 'usdc'] as const) {
+    if (!ADDRESS_RE.test(chain.cctp?.[field] ?? '')) throw new Error(`${where}: cctp.${field} must be an address`)
+  }
+  if (chain.cctp.messageTransmitterV1 !== undefined && !ADDRESS_RE.test(chain.cctp.messageTransmitterV1)) {
+    throw new Error(`${where}: cctp.messageTransmitterV1 must be an address`)
+  }
+}
+
+export function parseChainRegistry(raw: unknown): ChainRegistry {
+  const registry = raw as ChainRegistry
+  if (!registry?.arc || !Array.isArray(registry.sources)) throw new Error('arc and sources are required')
+
+  validateChain(registry.arc, 'arc')
+  const seen = new Set<string>()
+  for (const source of registry.sources) {
+    validateChain(source, `sources.${source.key}`)
+    if (seen.has(source.key)) throw new Error(`sources.${source.key}: duplicate key`)
+    seen.add(source.key)
+    for (const field of ['pollIntervalMs', 'blockTimeSeconds', 'confirmations'] as const) {
+      if (!(source[field] > 0)) throw new Error(`sources.${source.key}: ${field} must be positive`)
+    }
+    if (source.cctpVersion !== undefined && source.cctpVersion !== 1 && source.cctpVersion !== 2) {
+      throw new Error(`sources.${source.key}: cctpVersion must be 1 or 2`)
+    }
+    for (const field of ['attestationSeconds', 'fastAttestationSeconds'] as const) {
+      if (source[field] !== undefined && !(source[field] > 0)) {
+        throw new Error(`sources.${source.key}: ${field} must be positive`)
+      }
+    }
+  }
+  return registry
+}
+
+/** CHAINS_PATH if set, otherwise chains.json at the repo root. */
+export function chainRegistryPath(): string {
+  if (process.env.CHAINS_PATH) return resolve(process.env.CHAINS_PATH)
+  const here = dirname(fileURLToPath(import.meta.url))
+  return join(here, '..', '..', 'chains.json')
+}
+
+export function loadChainRegistry(path = chainRegistryPath()): ChainRegistry {
+  if (!existsSync(path)) {
+    throw new Error(`Chain registry not found at ${path}. Set CHAINS_PATH to the repo-root chains.json.`)
+  }
+  try {
+    return parseChainRegistry(JSON.parse(readFileSync(path, 'utf8')))
+  } catch (err) {
+    throw new Error(`Could not load chain registry ${path}: ${(err as Error).message}`)
+  }
+}
+
+export const CHAINS: ChainRegistry = loadChainRegistry()
+
+/** viem chain definition for a registry entry, optionally on a private RPC. */
+export function toViemChain(chain: ChainConfig, rpcUrl = chain.rpcUrl): Chain {
+  return {
+    id:             chain.chainId,
+    name:           chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls:        { default: { http: [rpcUrl] } },
+  }
+}
+
+/**
+ * RPC endpoint for a chain: <KEY>_RPC_URL (e.g. BASE_SEPOLIA_RPC_URL) if set,
+ * otherwise the registry's public endpoint.
+ */
+export function rpcUrlFor(chain: ChainConfig): string {
+  return process.env[`${chain.key.toUpperCase().replace(/-/g, '_')}_RPC_URL`] ?? chain.rpcUrl
+}
+
+/**
+ * Expected seconds from burn to attestation for a source domain: the
+ * registry's attestationSeconds (fastAttestationSeconds for Fast Transfers),
+ * else the contract's estimate (FAST_ATTESTATION_TIME).
+ */
+export function attestationSecondsFor(domain: number | undefined, speed: TransferSpeed = 'standard'): number {
+  const source   = CHAINS.sources.find(s => s.domain === domain)
+  const standard = source?.attestationSeconds ?? ESTIMATED_ATTESTATION_TIME
+  if (speed === 'standard') return standard
+  // Chains that finalize fast attest Standard Transfers as quickly
+  return source?.fastAttestationSeconds ?? Math.min(FAST_ATTESTATION_TIME, standard)
+}
@@ -0,0 +1,46 @@
+// Shape of the chain registry and of GET /api/config. The frontend imports
+// these types as they are (frontend/src/types.ts), so this module declares
+// types only and imports nothing.
+
+/** How settlement may get USDC into MeanTime; see settlementPolicy.ts. */
+export type SettlementPolicy = 'testnet' | 'strict' | 'manual'
+
+/** Circle's CCTP contracts and USDC on one chain. */
+export interface CctpContracts {
+  tokenMessenger:     `0x${string}`
+  messageTransmitter: `0x${string}`
+  usdc:               `0x${string}`
+  /** A V1 MessageTransmitter kept alongside V2 ones, to receive V1 messages. */
+  messageTransmitterV1?: `0x${string}`
+}
+
+export interface ChainConfig {
+  /** Registry key, e.g. 'base-sepolia'. Also used for <KEY>_RPC_URL env vars. */
+  key:            string
+  name:           string
+  chainId:        number
+  /** CCTP domain id */
+  domain:         number
+  nativeCurrency: { name: string; symbol: string; decimals: number }
+  /** Public RPC endpoint, overridable per deployment via env */
+  rpcUrl:         string
+  /** Circle Bridge Kit chain identifier */
+  bridgeKitName:  string
+  cctp:           CctpContracts
+}
+
+/** A source chain as GET /api/config serves it. */
+export interface PublicSourceChainConfig extends ChainConfig {
+  /** V1 chains have no Fast Transfers or fees */
+  cctpVersion: 1 | 2
+  /** Whether this backend tracks burns from the chain */
+  watched:     boolean
+}
+
+/** Response of GET /api/config. */
+export interface AppConfig {
+  arc:       ChainConfig
+  sources:   PublicSourceChainConfig[]
+  contracts: { meantime: `0x${string}`; usdc: `0x${string}`; eurc: `0x${string}` }
+  settlementPolicy: SettlementPolicy
+}
@@ -7,10 +7,12 @@ import {
   http,
   type PublicClient,
   type WalletClient,
-  type Chain,
   type Account,
 } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
+import { CHAINS, toViemChain, rpcUrlFor, type SourceChainConfig } from './chains.js'
+import { buildAttestationProvider, type AttestationProvider } from './attestation.js'
+import { buildSettlementPolicy, type SettlementPolicy } from './settlementPolicy.js'
 
 export interface Addresses {
   meantime: `0x${string}`
@@ -19,65 +21,85 @@ export interface Addresses {
   bridge:   `0x${string}`
 }
 
+export const CCTP_SOURCES: Record<string, SourceChainConfig> =
+  Object.fromEntries(CHAINS.sources.map(source => [source.key, source]))
+
 // Sepolia CCTP V2 contracts (Circle official)
 export const SEPOLIA_CCTP = {
-  tokenMessenger:     '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA' as `0x${string}`,
-  messageTransmitter: '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275' as `0x${string}`,
-  usdc:               '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238' as `0x${string}`,
-  domain:             0,
+  ...CCTP_SOURCES['ethereum-sepolia'].cctp,
+  domain: CCTP_SOURCES['ethereum-sepolia'].domain,
+}
+
+/** A watched source chain with its RPC client. */
+export interface SourceCtx {
+  source: SourceChainConfig
+  client: PublicClient
 }
 
-// Arc testnet CCTP V2 (domain 26 — Circle's own chain)
+// Arc testnet CCTP V2 (domain 26 — Circle's own chain). V1 messages can only be
+// received through a V1 MessageTransmitter, which Arc does not run by default.
 export const ARC_CCTP = {
-  // Fill these after querying Arc for Circle's deployed contracts.
-  // Until confirmed, leave empty and use the mock-settle fallback.
-  messageTransmitter: (process.env.ARC_MESSAGE_TRANSMITTER ?? '0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275') as `0x${string}`,
-  usdc:               (process.env.ARC_USDC ?? '0x3600000000000000000000000000000000000000') as `0x${string}`,
-  domain:             26,
+  messageTransmitter:   (process.env.ARC_MESSAGE_TRANSMITTER ?? CHAINS.arc.cctp.messageTransmitter) as `0x${string}`,
+  messageTransmitterV1: (process.env.ARC_MESSAGE_TRANSMITTER_V1 ?? CHAINS.arc.cctp.messageTransmitterV1) as `0x${string}` | undefined,
+  usdc:                 (process.env.ARC_USDC ?? CHAINS.arc.cctp.usdc) as `0x${string}`,
+  domain:               CHAINS.arc.domain,
 }
 
 export interface AppCtx {
   publicClient:        PublicClient   // Arc
-  sepoliaClient:       PublicClient   // Sepolia (watches for CCTP burns)
+  sources:             SourceCtx[]    // CCTP source chains watched for burns (SOURCE_CHAINS)
   walletClient:        WalletClient   // Arc (signs mint/settle txs)
   account:             Account
   addresses:           Addresses
+  attestation:         AttestationProvider   // Circle Iris or the local mock (ATTESTATION_PROVIDER)
+  settlementPolicy:    SettlementPolicy      // whether settlement may mock-mint or needs an operator (SETTLEMENT_POLICY)
+  operatorToken:       string | null         // bearer token for operator endpoints (OPERATOR_TOKEN); null disables them
 }
 
 export function buildCtx(): AppCtx {
   const rpcUrl     = process.env.ARC_RPC_URL
   const privateKey = process.env.PRIVATE_KEY
-  const sepoliaRpc = process.env.SEPOLIA_RPC_URL ?? 'https://ethereum-sepolia-rpc.publicnode.com'
 
   if (!rpcUrl)     throw new Error('ARC_RPC_URL not set')
   if (!privateKey) throw new Error('PRIVATE_KEY not set')
 
-  const arc: Chain = {
-    id:   5042002,   // Arc testnet chain ID (0x4cef52)
-    name: 'Arc Testnet',
-    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-    rpcUrls: { default: { http: [rpcUrl] } },
-  }
-
-  const sepolia: Chain = {
-    id:   11155111,
-    name: 'Sepolia',
-    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-    rpcUrls: { default: { http: [sepoliaRpc] } },
-  }
+  const arc = toViemChain(CHAINS.arc, rpcUrl)
 
   const account = privateKeyToAccount(privateKey as `0x${string}`)
 
   return {
-    publicClient:  createPublicClient({ chain: arc,     transport: http(rpcUrl) }),
-    sepoliaClient: createPublicClient({ chain: sepolia, transport: http(sepoliaRpc) }),
-    walletClient:  createWalletClient({ chain: arc,     transport: http(rpcUrl), account }),
+    publicClient:  createPublicClient({ chain: arc, transport: http(rpcUrl) }),
+    sources:       buildSources(),
+    walletClient:  createWalletClient({ chain: arc, transport: http(rpcUrl), account }),
     account,
     addresses:     loadAddresses(),
+    attestation:   buildAttestationProvider(),
+    settlementPolicy: buildSettlementPolicy(),
+    operatorToken:    process.env.OPERATOR_TOKEN || null,
   }
 }
 
-function loadAddresses(): Addresses {
+/**
+ * Source chains to watch, from SOURCE_CHAINS (comma-separated registry keys;
+ * default: ethereum-sepolia). Each chain's RPC comes from <KEY>_RPC_URL,
+ * e.g. BASE_SEPOLIA_RPC_URL, or its public default in chains.json.
+ */
+function buildSources(): SourceCtx[] {
+  const keys = (process.env.SOURCE_CHAINS ?? 'ethereum-sepolia')
+    .split(',').map(k => k.trim()).filter(Boolean)
+
+  return keys.map(key => {
+    const source = CCTP_SOURCES[key]
+    if (!source) {
+      throw new Error(`Unknown source chain "${key}" in SOURCE_CHAINS (supported: ${Object.keys(CCTP_SOURCES).join(', ')})`)
+    }
+    const rpc = (key === 'ethereum-sepolia' ? process.env.SEPOLIA_RPC_URL : undefined)  // pre-multi-chain name
+      ?? rpcUrlFor(source)
+    return { source, client: createPublicClient({ chain: toViemChain(source, rpc), transport: http(rpc) }) }
+  })
+}
+
+export function loadAddresses(): Addresses {
   if (process.env.DEPLOYMENTS_JSON) {
     return JSON.parse(process.env.DEPLOYMENTS_JSON) as Addresses
   }
@@ -0,0 +1,117 @@
+// MeanTime hookData: instructions a depositor attaches to a CCTP V2 burn
+// (depositForBurnWithHook), carried in the BurnMessage's hookData field. The
+// Arc recipient of the receivable travels with the burn itself, so it needs no
+// separate signature and survives backend restarts; a depositor may also ask
+// for the receivable to be listed. Hook data that does not start with the
+// magic belongs to some other integrator and is ignored. The frontend encodes
+// the same layout (frontend/src/components/SendPanel.tsx).
+//
+// Layout (packed, big-endian; 26 bytes, or 78 with a listing):
+//     0  magic         bytes4   "MTIM"
+//     4  version       uint8    1
+//     5  recipient     address  Arc owner of the receivable
+//    25  flags         uint8    bit 0: a listing follows
+//    26  reservePrice  uint256  listing: asking price in paymentToken units
+//    58  paymentToken  address  listing: token the buyer pays in
+
+import {
+  concat, getAddress, hexToBigInt, hexToNumber, isAddress, isHex, numberToHex, size, slice, zeroAddress,
+  type Address, type Hex,
+} from 'viem'
+
+export const MEANTIME_HOOK_MAGIC: Hex = '0x4d54494d'
+export const MEANTIME_HOOK_VERSION = 1
+
+const FLAG_LISTING = 0x01
+const BASE_SIZE    = 26
+const LISTING_SIZE = 52
+const MAX_UINT256  = 2n ** 256n - 1n
+
+/** The listing a depositor asked for; the recipient still lists it themselves. */
+export interface HookListing {
+  reservePrice: bigint
+  paymentToken: Address
+}
+
+export interface MeanTimeHook {
+  version:   number
+  recipient: Address
+  listing:   HookListing | null
+}
+
+/** MeanTime hook data that is malformed or uses an unknown version. */
+export class HookDataError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'HookDataError'
+  }
+}
+
+export const isMeanTimeHook = (hookData: Hex): boolean =>
+  size(hookData) >= 4 && slice(hookData, 0, 4).toLowerCase() === MEANTIME_HOOK_MAGIC
+
+function checkAddress(value: string, what: string) {
+  if (!isAddress(value, { strict: false }) || value.toLowerCase() === zeroAddress) {
+    throw new HookDataError(`${what} must be a non-zero address`)
+  }
+}
+
+function checkListing({ reservePrice, paymentToken }: HookListing) {
+  if (reservePrice <= 0n || reservePrice > MAX_UINT256) throw new HookDataError('listing reservePrice must be a positive uint256')
+  checkAddress(paymentToken, 'listing paymentToken')
+}
+
+/** Encode a MeanTime hook. Throws a HookDataError for invalid fields. */
+export function encodeMeanTimeHook(hook: MeanTimeHook): Hex {
+  if (hook.version !== MEANTIME_HOOK_VERSION) throw new HookDataError(`Unsupported MeanTime hook version ${hook.version}`)
+  checkAddress(hook.recipient, 'recipient')
+  if (hook.listing) checkListing(hook.listing)
+  return concat([
+    MEANTIME_HOOK_MAGIC,
+    numberToHex(hook.version, { size: 1 }),
+    hook.recipient.toLowerCase() as Hex,
+    numberToHex(hook.listing ? FLAG_LISTING : 0, { size: 1 }),
+    ...(hook.listing ? [numberToHex(hook.listing.reservePrice, { size: 32 }), hook.listing.paymentToken.toLowerCase() as Hex] : []),
+  ])
+}
+
+/**
+ * Decode a BurnMessage's hookData. Returns null when it is not a MeanTime
+ * hook (including empty hook data); throws a HookDataError when it is one but
+ * is malformed.
+ */
+export function decodeMeanTimeHook(hookData: Hex): MeanTimeHook | null {
+  if (!isHex(hookData) || hookData.length % 2 !== 0) throw new HookDataError('hookData must be 0x-prefixed hex of whole bytes')
+  if (!isMeanTimeHook(hookData)) return null
+  if (size(hookData) < BASE_SIZE) throw new HookDataError(`MeanTime hook is ${size(hookData)} bytes, shorter than ${BASE_SIZE}`)
+
+  const version = hexToNumber(slice(hookData, 4, 5))
+  if (version !== MEANTIME_HOOK_VERSION) throw new HookDataError(`Unsupported MeanTime hook version ${version}`)
+  const recipient = getAddress(slice(hookData, 5, 25))
+  checkAddress(recipient, 'recipient')
+
+  const flags = hexToNumber(slice(hookData, 25, 26))
+  if (flags & ~FLAG_LISTING) throw new HookDataError(`Unknown MeanTime hook flags 0x${flags.toString(16)}`)
+  const expected = BASE_SIZE + (flags & FLAG_LISTING ? LISTING_SIZE : 0)
+  if (size(hookData) !== expected) throw new HookDataError(`MeanTime hook is ${size(hookData)} bytes, expected ${expected}`)
+
+  let listing: HookListing | null = null
+  if (flags & FLAG_LISTING) {
+    listing = {
+      reservePrice: hexToBigInt(slice(hookData, 26, 58)),
+      paymentToken: getAddress(slice(hookData, 58, 78)),
+    }
+    checkListing(listing)
+  }
+  return { version, recipient, listing }
+}
+
+/** The MeanTime hook in a burn's hookData, or null if there is none or it is malformed. */
+export function meantimeHookOf(hookData: Hex): MeanTimeHook | null {
+  try {
+    return decodeMeanTimeHook(hookData)
+  } catch (err) {
+    if (err instanceof HookDataError) return null
+    throw err
+  }
+}
@@ -1,15 +1,16 @@
 import 'dotenv/config'
 import { buildCtx }     from './ctx.js'
-import { createStore }  from './store.js'
+import { buildStore }   from './persistence.js'
 import { backfillStore, startWatcher } from './watcher.js'
-import { startSepoliaWatcher } from './sepoliaWatcher.js'
-import { recoverSettlements } from './attestationPoller.js'
+import { startSourceWatchers, mintJobHandler } from './sourceWatcher.js'
+import { recoverSettlements, attestationJobHandlers } from './attestationPoller.js'
+import { startJobQueue } from './jobQueue.js'
 import { createApp }    from './app.js'
 
 const PORT = Number(process.env.PORT ?? 3001)
 
 const ctx   = buildCtx()
-const store = createStore()
+const store = buildStore()
 
 // Replay historical events, then start live watchers + HTTP server
 backfillStore(ctx, store)
@@ -18,13 +19,12 @@ backfillStore(ctx, store)
   })
   .then(async () => {
     const stopArcWatcher     = startWatcher(ctx, store)
-    const stopSepoliaWatcher = startSepoliaWatcher(ctx, store)
+    const stopSourceWatchers = startSourceWatchers(ctx, store)
 
-    // After backfill and watchers are running, recover any attestations
-    // that completed while the backend was down.
-    recoverSettlements(ctx, store).catch(err =>
-      console.error('[recovery] Failed:', err),
-    )
+    // Resume persisted mint/attestation/settlement jobs, and queue checks for
+    // active receivables without one (e.g. attested while we were down)
+    const stopJobs = startJobQueue(store, { ...attestationJobHandlers(ctx, store), mint: mintJobHandler(ctx, store) })
+    recoverSettlements(store)
 
     const app = createApp(ctx, store)
 
@@ -35,17 +35,15 @@ backfillStore(ctx, store)
       console.log(`  EURC:     ${ctx.addresses.eurc}`)
     })
 
-    process.on('SIGTERM', () => {
+    // Let the running job finish; queued jobs resume on the next boot
+    const shutdown = async () => {
       stopArcWatcher()
-      stopSepoliaWatcher()
+      stopSourceWatchers()
+      await stopJobs()
       server.close(() => process.exit(0))
-    })
-
-    process.on('SIGINT', () => {
-      stopArcWatcher()
-      stopSepoliaWatcher()
-      server.close(() => process.exit(0))
-    })
+    }
+    process.on('SIGTERM', shutdown)
+    process.on('SIGINT', shutdown)
   }).catch((err) => {
     console.error('Failed to start:', err)
     process.exit(1)
@@ -0,0 +1,108 @@
+// Circle Iris attestation API client.
+// V2 (/v2/messages/{sourceDomain}?transactionHash=) is keyed by the burn's
+// source domain and tx hash, and returns the message bytes, attestation,
+// status and decoded fields in one response. V1 (/attestations/{messageHash})
+// only needs the message hash but returns the attestation alone; it is the
+// fallback when the burn's origin is unknown or the V2 request fails.
+//
+// The same client talks to the local mock Iris server (mockIris.ts).
+
+import { keccak256 } from 'viem'
+import { type AttestationProvider, type AttestationResult, type BurnOrigin } from './attestation.js'
+import { ServiceUnavailableError } from './jobQueue.js'
+
+/** Iris base URL: IRIS_API_URL, e.g. a standalone mock server, or Circle's sandbox. */
+export const IRIS_API = process.env.IRIS_API_URL ?? 'https://iris-api-sandbox.circle.com'
+
+interface V2Message {
+  message?:        string
+  attestation?:    string
+  status?:         string
+  decodedMessage?: Record<string, unknown> | null
+}
+
+const HEX_RE = /^0x[0-9a-fA-F]+$/
+const isHex = (v: string | undefined): v is `0x${string}` => v !== undefined && HEX_RE.test(v)
+
+const notFound = (api: AttestationResult['api']): AttestationResult =>
+  ({ status: 'pending', detail: 'not_found', attestation: null, message: null, decoded: null, api })
+
+// Server errors and rate limits say Iris is unavailable, not that the request is wrong
+const httpError = (api: string, status: number): Error =>
+  status >= 500 || status === 429
+    ? new ServiceUnavailableError(`Iris ${api} returned ${status}`)
+    : new Error(`Iris ${api} returned ${status}`)
+
+/** Attestation via the V2 messages API. Throws on transport or HTTP errors. */
+export async function fetchAttestationV2(
+  baseUrl: string, messageHash: string, origin: BurnOrigin, signal?: AbortSignal,
+): Promise<AttestationResult> {
+  const res = await fetch(`${baseUrl}/v2/messages/${origin.sourceDomain}?transactionHash=${origin.sourceTxHash}`, { signal })
+  if (res.status === 404) return notFound('v2')
+  if (!res.ok) throw httpError('V2', res.status)
+
+  // A tx can hold several burns; pick ours by hash. Circle may omit the
+  // message bytes while it is still pending, so a lone message is ours too.
+  const { messages = [] } = await res.json() as { messages?: V2Message[] }
+  const hash = messageHash.toLowerCase()
+  const msg = messages.find(m => isHex(m.message) && keccak256(m.message) === hash)
+    ?? (messages.length === 1 && !isHex(messages[0].message) ? messages[0] : undefined)
+  if (!msg) return notFound('v2')
+
+  // Pending attestations come back as the string 'PENDING'
+  const complete = msg.status === 'complete' && isHex(msg.attestation)
+  return {
+    status:      complete ? 'complete' : 'pending',
+    detail:      msg.status ?? 'unknown',
+    attestation: complete ? msg.attestation as `0x${string}` : null,
+    message:     isHex(msg.message) ? msg.message : null,
+    decoded:     msg.decodedMessage ?? null,
+    api:         'v2',
+  }
+}
+
+/** Attestation via the legacy V1 API. Throws on transport or HTTP errors. */
+export async function fetchAttestationV1(baseUrl: string, messageHash: string, signal?: AbortSignal): Promise<AttestationResult> {
+  const res = await fetch(`${baseUrl}/attestations/${messageHash}`, { signal })
+  if (res.status === 404) return notFound('v1')
+  if (!res.ok) throw httpError('V1', res.status)
+
+  const body = await res.json() as { status?: string; attestation?: string | null }
+  const complete = body.status === 'complete' && isHex(body.attestation ?? undefined)
+  return {
+    status:      complete ? 'complete' : 'pending',
+    detail:      body.status ?? 'unknown',
+    attestation: complete ? body.attestation as `0x${string}` : null,
+    message:     null,
+    decoded:     null,
+    api:         'v1',
+  }
+}
+
+/**
+ * Attestation for a message: V2 when the burn's origin is known, V1 when it
+ * is not or V2 fails. Throws only if the last API tried fails, or once
+ * `signal` is aborted.
+ */
+export async function fetchAttestation(
+  baseUrl: string, messageHash: string, origin?: BurnOrigin, signal?: AbortSignal,
+): Promise<AttestationResult> {
+  if (origin) {
+    try {
+      return await fetchAttestationV2(baseUrl, messageHash, origin, signal)
+    } catch (err) {
+      signal?.throwIfAborted()
+      console.warn(`[iris] V2 lookup failed for ${messageHash}, falling back to V1: ${(err as Error)?.message ?? err}`)
+    }
+  }
+  return fetchAttestationV1(baseUrl, messageHash, signal)
+}
+
+/** AttestationProvider backed by Circle's Iris API (or anything speaking it). */
+export function irisAttestationProvider(baseUrl: string = IRIS_API): AttestationProvider {
+  return {
+    name:             'circle',
+    trusted:          true,
+    fetchAttestation: (messageHash, origin, signal) => fetchAttestation(baseUrl, messageHash, origin, signal),
+  }
+}
@@ -0,0 +1,222 @@
+// Durable job queue for attestation and settlement work (see Job in store.ts).
+//
+// Jobs live in the store, so with a persistent store they survive restarts:
+// startJobQueue() puts jobs a crash left 'running' back in the queue and
+// resumes everything due. One job runs at a time (on-chain writes are
+// serialised by txQueue.ts anyway). A handler either finishes the job, holds
+// it for an operator (it stays put until something queues it again), asks
+// to run again later (a poll, which is not a failure), or throws: failures
+// retry with exponential backoff until MAX_JOB_ATTEMPTS, then the job fails
+// for good and the handler's onGiveUp() runs. A failure to reach an RPC node
+// or API (isUnavailableError) backs off the same way but is not counted, so
+// an outage cannot use up a job's attempts. A run that takes longer than
+// JOB_TIMEOUT_MS is aborted (the handler's signal) and counts as a failure.
+// Done and cancelled jobs are pruned once JOB_RETENTION_MS old; failed ones
+// stay for an operator.
+//
+// The returned stop function stops scheduling and waits for the running job,
+// so shutdown never abandons a job halfway through a run.
+
+import { type Store, type Job, type JobKind } from './store.js'
+import { errorMessage } from './transfers.js'
+
+export const MAX_JOB_ATTEMPTS = 8
+const BASE_BACKOFF_MS = 30_000        // first retry after 30s, doubling
+const MAX_BACKOFF_MS  = 15 * 60_000   // capped at 15 min
+const TICK_MS         = 1_000         // how often the queue looks for due jobs
+const JOB_TIMEOUT_MS  = 5 * 60_000    // longest a single run may take
+export const JOB_RETENTION_MS = 7 * 24 * 60 * 60_000  // finished jobs kept for a week
+const PRUNE_INTERVAL_MS = 60 * 60_000 // how often finished jobs are pruned
+
+// Node network error codes that mean a host could not be reached
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_SOCKET',
+])
+// viem's transport errors: the RPC node failed to answer, not the call itself
+const TRANSPORT_ERROR_NAMES = new Set(['HttpRequestError', 'TimeoutError', 'WebSocketRequestError', 'SocketClosedError'])
+
+export type JobResult =
+  | { state: 'done' | 'cancelled' | 'held'; detail?: string }
+  | { retryInMs: number; detail?: string }
+
+/** What a run gets besides its job. */
+export interface JobRunContext {
+  /** Aborted once the run times out; pass it on to anything that can be cancelled. */
+  signal: AbortSignal
+  /** The queue's clock in ms: for jobs queued and times compared while running. */
+  now:    () => number
+}
+
+export interface JobHandler {
+  run(job: Job, context: JobRunContext): Promise<JobResult>
+  /** Called once when the job fails for good. */
+  onGiveUp?(job: Job): void
+}
+
+export interface JobQueueOptions {
+  tickMs?: number
+  /** Longest a single run may take before it is aborted, in ms. */
+  jobTimeoutMs?: number
+  /** Clock in ms, for tests. */
+  now?:    () => number
+}
+
+/** A service a job depends on answered with a server error or rate limit. */
+export class ServiceUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ServiceUnavailableError'
+  }
+}
+
+/** A run took longer than its timeout. */
+export class JobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Run timed out after ${timeoutMs / 1000}s`)
+    this.name = 'JobTimeoutError'
+  }
+}
+
+/**
+ * Whether an error (or one it was caused by) means an RPC node or API could
+ * not be reached, as opposed to the job's own work failing.
+ */
+export function isUnavailableError(err: unknown): boolean {
+  for (let e = err, depth = 0; e instanceof Error && depth < 8; e = e.cause, depth++) {
+    if (e instanceof ServiceUnavailableError || TRANSPORT_ERROR_NAMES.has(e.name)) return true
+    const code = (e as { code?: unknown }).code
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true
+  }
+  return false
+}
+
+export const jobId = (kind: JobKind, messageHash: string) => `${kind}:${messageHash.toLowerCase()}`
+
+/** Delay before the next run after `attempts` failed runs. */
+export function backoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS)
+}
+
+/** Whether a job still has work ahead of it (including waiting for an operator). */
+export const isJobActive = (job: Job | undefined): boolean =>
+  job?.state === 'queued' || job?.state === 'running' || job?.state === 'held'
+
+/**
+ * Queue a job to run now, or at `fields.runAt`. A queued, running or held job
+ * of the same kind for the message is returned unchanged; a finished one is
+ * replaced by a fresh job.
+ */
+export function enqueueJob(
+  store: Store, kind: JobKind, messageHash: `0x${string}`,
+  fields: Partial<Pick<Job, 'attestation' | 'messageBytes' | 'runAt'>> = {}, now = Date.now(),
+): Job {
+  const id = jobId(kind, messageHash)
+  const existing = store.getJob(id)
+  if (existing && isJobActive(existing)) return existing
+
+  const job: Job = {
+    id, kind, messageHash, state: 'queued', attempts: 0, polls: 0,
+    createdAt: now, updatedAt: now, runAt: now, detail: null, lastError: null, ...fields,
+  }
+  store.putJob(job)
+  console.log(`[jobs] Queued ${id}`)
+  return job
+}
+
+/** Start running due jobs. Returns a stop function that resolves once the running job (if any) finishes. */
+export function startJobQueue(
+  store: Store, handlers: Record<JobKind, JobHandler>, options: JobQueueOptions = {},
+): () => Promise<void> {
+  const now       = options.now ?? Date.now
+  const tickMs    = options.tickMs ?? TICK_MS
+  const timeoutMs = options.jobTimeoutMs ?? JOB_TIMEOUT_MS
+
+  // Resume: a job still marked running was interrupted by a crash
+  for (const job of store.queryJobs({ state: 'running' })) {
+    console.log(`[jobs] Resuming interrupted ${job.id}`)
+    store.putJob({ ...job, state: 'queued', runAt: now() })
+  }
+  const queued = store.queryJobs({ state: 'queued' }).length
+  if (queued > 0) console.log(`[jobs] ${queued} queued job(s)`)
+
+  let stopped = false
+  let running: Promise<void> | null = null
+  let timer: ReturnType<typeof setTimeout>
+  let prunedAt = -Infinity
+
+  const nextDue = (): Job | undefined => store.queryJobs({ state: 'queued' })
+    .filter(j => j.runAt <= now())
+    .sort((a, b) => a.runAt - b.runAt)[0]
+
+  const tick = async () => {
+    if (now() - prunedAt >= PRUNE_INTERVAL_MS) {
+      const pruned = store.pruneJobs(now() - JOB_RETENTION_MS)
+      if (pruned > 0) console.log(`[jobs] Pruned ${pruned} finished job(s)`)
+      prunedAt = now()
+    }
+    let job: Job | undefined
+    while (!stopped && (job = nextDue())) {
+      running = runJob(store, handlers[job.kind], job, now, timeoutMs)
+      await running
+      running = null
+    }
+    if (!stopped) timer = setTimeout(tick, tickMs)
+  }
+
+  tick()
+  return async () => {
+    stopped = true
+    clearTimeout(timer)
+    await running
+  }
+}
+
+async function runJob(store: Store, handler: JobHandler, job: Job, now: () => number, timeoutMs: number): Promise<void> {
+  store.putJob({ ...job, state: 'running', updatedAt: now() })
+
+  // Abort the run on timeout, and stop waiting for it even if the handler ignores the signal
+  const controller = new AbortController()
+  const timer      = setTimeout(() => controller.abort(new JobTimeoutError(timeoutMs)), timeoutMs)
+  const timedOut   = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true })
+  })
+
+  let result: JobResult | undefined
+  let error: unknown
+  try {
+    result = await Promise.race([handler.run(job, { signal: controller.signal, now }), timedOut])
+  } catch (err) {
+    error = err
+  } finally {
+    clearTimeout(timer)
+  }
+
+  // The handler may have updated the job while running (e.g. settlement progress)
+  const latest = { ...store.getJob(job.id) ?? job, updatedAt: now() }
+
+  if (result && 'retryInMs' in result) {
+    store.putJob({ ...latest, state: 'queued', polls: latest.polls + 1, runAt: now() + result.retryInMs, detail: result.detail ?? null })
+  } else if (result) {
+    console.log(`[jobs] ${job.id}: ${result.state}${result.detail ? ` (${result.detail})` : ''}`)
+    store.putJob({ ...latest, state: result.state, detail: result.detail ?? latest.detail })
+  } else if (isUnavailableError(error)) {
+    const delay     = backoffMs(latest.attempts + 1)
+    const lastError = errorMessage(error)
+    console.warn(`[jobs] ${job.id}: service unavailable, retrying in ${delay / 1000}s (not counted as an attempt): ${lastError}`)
+    store.putJob({ ...latest, state: 'queued', lastError, runAt: now() + delay })
+  } else {
+    const attempts  = latest.attempts + 1
+    const lastError = errorMessage(error)
+    if (attempts >= MAX_JOB_ATTEMPTS) {
+      console.error(`[jobs] ${job.id}: failed after ${attempts} attempts: ${lastError}`)
+      const failed: Job = { ...latest, state: 'failed', attempts, lastError }
+      store.putJob(failed)
+      try { handler.onGiveUp?.(failed) } catch (err) { console.error(`[jobs] ${job.id}: onGiveUp failed:`, err) }
+    } else {
+      const delay = backoffMs(attempts)
+      console.warn(`[jobs] ${job.id}: attempt ${attempts} failed, retrying in ${delay / 1000}s: ${lastError}`)
+      store.putJob({ ...latest, state: 'queued', attempts, lastError, runAt: now() + delay })
+    }
+  }
+}
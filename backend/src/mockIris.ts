@@ -0,0 +1,174 @@
+// Local mock of Circle's Iris attestation API, for running the full CCTP
+// lifecycle offline and in CI (ATTESTATION_PROVIDER=mock).
+//
+// Serves the same endpoints the backend uses:
+//   GET /v2/messages/:sourceDomain?transactionHash=  -- registered burns in a tx
+//   GET /attestations/:messageHash                   -- V1; any hash, first request starts its clock
+// plus control endpoints:
+//   POST /mock/messages   { message, sourceDomain, transactionHash, outcome?, delayMs? }
+//   GET  /mock/attester   -- address that signs attestations
+//
+// Every message is pending for `delayMs` after it is first seen, then resolves
+// to its outcome: 'complete' (attestation = signature over the message hash by
+// the local attester key), 'pending' forever, or 'error' (HTTP 500).
+//
+// Standalone: npx tsx src/mockIris.ts  (MOCK_IRIS_PORT, MOCK_IRIS_DELAY_MS,
+// MOCK_IRIS_OUTCOME, MOCK_IRIS_PRIVATE_KEY), then point the backend at it with
+// IRIS_API_URL=http://localhost:3002.
+
+import express, { type Express } from 'express'
+import { type Server } from 'http'
+import { keccak256 } from 'viem'
+import { generatePrivateKey, privateKeyToAddress, sign } from 'viem/accounts'
+import { irisAttestationProvider } from './iris.js'
+import { type AttestationProvider } from './attestation.js'
+
+export type MockOutcome = 'complete' | 'pending' | 'error'
+
+export interface MockIrisOptions {
+  /** How long a message stays pending after it is first seen. Default 0. */
+  delayMs?:    number
+  /** What a message resolves to after the delay, unless registered otherwise. Default 'complete'. */
+  outcome?:    MockOutcome
+  /** Attester key; a random one is generated if omitted. */
+  privateKey?: `0x${string}`
+  /** Clock in ms, for tests. */
+  now?:        () => number
+}
+
+interface MockMessage {
+  messageHash:      `0x${string}`
+  message:          `0x${string}` | null
+  sourceDomain:     number | null
+  transactionHash:  string | null
+  firstSeen:        number
+  outcome:          MockOutcome
+  delayMs:          number
+}
+
+const HEX_RE = /^0x[0-9a-fA-F]+$/
+const HASH_RE = /^0x[0-9a-fA-F]{64}$/
+
+/** Express app implementing the mock; listen() it or use createMockIris().app with supertest. */
+export function createMockIris(options: MockIrisOptions = {}): { app: Express; attester: `0x${string}` } {
+  const privateKey = options.privateKey ?? generatePrivateKey()
+  const attester   = privateKeyToAddress(privateKey)
+  const now        = options.now ?? Date.now
+  const messages   = new Map<string, MockMessage>()   // by lowercased message hash
+
+  const track = (messageHash: `0x${string}`): MockMessage => {
+    const key = messageHash.toLowerCase()
+    let m = messages.get(key)
+    if (!m) {
+      messages.set(key, m = {
+        messageHash, message: null, sourceDomain: null, transactionHash: null, firstSeen: now(),
+        outcome: options.outcome ?? 'complete', delayMs: options.delayMs ?? 0,
+      })
+    }
+    return m
+  }
+
+  // Current state of a message; null means respond with an error
+  const resolve = async (m: MockMessage) => {
+    if (now() - m.firstSeen < m.delayMs || m.outcome === 'pending') {
+      return { status: 'pending_confirmations', attestation: null }
+    }
+    if (m.outcome === 'error') return null
+    return { status: 'complete', attestation: await sign({ hash: m.messageHash, privateKey, to: 'hex' }) }
+  }
+
+  const app = express()
+  app.use(express.json())
+
+  app.get('/v2/messages/:sourceDomain', async (req, res) => {
+    const txHash = String(req.query.transactionHash ?? '').toLowerCase()
+    const domain = Number(req.params.sourceDomain)
+    const found  = Array.from(messages.values())
+      .filter(m => m.sourceDomain === domain && m.transactionHash === txHash)
+    if (found.length === 0) { res.status(404).json({ error: 'Message not found' }); return }
+
+    const states = await Promise.all(found.map(resolve))
+    if (states.includes(null)) { res.status(500).json({ error: 'Mock attestation error' }); return }
+    res.json({
+      messages: found.map((m, i) => ({
+        message:        m.message,
+        attestation:    states[i]!.attestation ?? 'PENDING',
+        status:         states[i]!.status,
+        cctpVersion:    2,
+        decodedMessage: null,
+      })),
+    })
+  })
+
+  app.get('/attestations/:messageHash', async (req, res) => {
+    const { messageHash } = req.params
+    if (!HASH_RE.test(messageHash)) { res.status(400).json({ error: 'Invalid message hash' }); return }
+    const state = await resolve(track(messageHash as `0x${string}`))
+    if (!state) { res.status(500).json({ error: 'Mock attestation error' }); return }
+    res.json(state)
+  })
+
+  app.post('/mock/messages', (req, res) => {
+    const { message, sourceDomain, transactionHash, outcome, delayMs } = req.body ?? {}
+    if (typeof message !== 'string' || !HEX_RE.test(message)) { res.status(400).json({ error: 'message must be hex' }); return }
+    if (!Number.isInteger(sourceDomain)) { res.status(400).json({ error: 'sourceDomain must be an integer' }); return }
+    if (typeof transactionHash !== 'string') { res.status(400).json({ error: 'transactionHash is required' }); return }
+    if (outcome !== undefined && !['complete', 'pending', 'error'].includes(outcome)) {
+      res.status(400).json({ error: 'outcome must be complete, pending or error' })
+      return
+    }
+    if (delayMs !== undefined && !(Number(delayMs) >= 0)) { res.status(400).json({ error: 'delayMs must be non-negative' }); return }
+
+    // Re-registering keeps the clock running but can change the outcome
+    const m = track(keccak256(message as `0x${string}`))
+    m.message         = message as `0x${string}`
+    m.sourceDomain    = sourceDomain
+    m.transactionHash = transactionHash.toLowerCase()
+    if (outcome !== undefined) m.outcome = outcome
+    if (delayMs !== undefined) m.delayMs = Number(delayMs)
+    res.json({ messageHash: m.messageHash })
+  })
+
+  app.get('/mock/attester', (_req, res) => res.json({ address: attester }))
+
+  return { app, attester }
+}
+
+/** Start the mock on a port. */
+export function startMockIris(options: MockIrisOptions & { port: number }): { url: string; attester: `0x${string}`; server: Server } {
+  const { app, attester } = createMockIris(options)
+  const server = app.listen(options.port, () => {
+    console.log(`[mock-iris] Listening on http://localhost:${options.port} (attester ${attester}, ` +
+      `delay ${options.delayMs ?? 0}ms, outcome ${options.outcome ?? 'complete'})`)
+  })
+  return { url: `http://localhost:${options.port}`, attester, server }
+}
+
+/** Iris client for the mock, which also registers burns with it. */
+export function mockIrisAttestationProvider(baseUrl: string): AttestationProvider {
+  const iris = irisAttestationProvider(baseUrl)
+  return {
+    name:             'mock',
+    trusted:          false,
+    fetchAttestation: iris.fetchAttestation,
+    async registerBurn(_messageHash, message, origin, signal) {
+      const res = await fetch(`${baseUrl}/mock/messages`, {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ message, sourceDomain: origin.sourceDomain, transactionHash: origin.sourceTxHash }),
+        signal,
+      })
+      if (!res.ok) throw new Error(`Mock Iris returned ${res.status}`)
+    },
+  }
+}
+
+// Run if executed directly
+if (process.argv[1]?.includes('mockIris')) {
+  startMockIris({
+    port:       Number(process.env.MOCK_IRIS_PORT ?? 3002),
+    delayMs:    Number(process.env.MOCK_IRIS_DELAY_MS ?? 60_000),
+    outcome:    (process.env.MOCK_IRIS_OUTCOME ?? 'complete') as MockOutcome,
+    privateKey: process.env.MOCK_IRIS_PRIVATE_KEY as `0x${string}` | undefined,
+  })
+}
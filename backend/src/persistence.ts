@@ -0,0 +1,236 @@
+// Durable storage for the Store.
+// jsonFilePersistence() keeps a JSON snapshot of the state plus an append-only
+// log of what each batch of mutations changed (one JSON line per batch,
+// fsynced), so a write costs the size of the change, not of the whole state.
+// Once the log outgrows COMPACT_LOG_BYTES it is folded into a new snapshot
+// (temp file + fsync + rename) and truncated; every start does the same.
+// buildStore() picks the backend from config, mirroring buildCtx().
+
+import {
+  closeSync, existsSync, fsyncSync, ftruncateSync, mkdirSync, openSync, readFileSync, renameSync, writeSync,
+} from 'fs'
+import { fileURLToPath } from 'url'
+import { join, dirname, resolve } from 'path'
+import { createStore, type Store, type StorePersistence, type PersistedState, type StoreChanges } from './store.js'
+
+// Fold the log into the snapshot once it reaches this size
+const COMPACT_LOG_BYTES = 8 * 1024 * 1024
+
+// JSON has no bigint, so tag them: 123n <-> { "$bigint": "123" }
+function replacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? { $bigint: value.toString() } : value
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && typeof (value as { $bigint?: unknown }).$bigint === 'string') {
+    return BigInt((value as { $bigint: string }).$bigint)
+  }
+  return value
+}
+
+export interface JsonFilePersistenceOptions {
+  /** Log size that triggers compaction; for tests. */
+  compactLogBytes?: number
+}
+
+/**
+ * Snapshot at `path`, change log at `<path>.log`. A crash can at worst tear
+ * the last log line, which load() drops; the batch it held is lost, nothing
+ * before it.
+ */
+export function jsonFilePersistence(path: string, options: JsonFilePersistenceOptions = {}): StorePersistence {
+  const compactLogBytes = options.compactLogBytes ?? COMPACT_LOG_BYTES
+  const logPath = `${path}.log`
+  let log: number | undefined
+  let logBytes = 0
+
+  const writeSnapshot = (state: PersistedState) => {
+    mkdirSync(dirname(path), { recursive: true })
+    const tmp = `${path}.tmp`
+    const fd  = openSync(tmp, 'w')
+    try {
+      writeSync(fd, JSON.stringify(state, replacer))
+      fsyncSync(fd)
+    } finally {
+      closeSync(fd)
+    }
+    renameSync(tmp, path)
+    syncDir(dirname(path))
+  }
+
+  // Start a new, empty log; only once the snapshot holds everything in the old one
+  const resetLog = () => {
+    if (log === undefined) {
+      mkdirSync(dirname(path), { recursive: true })
+      log = openSync(logPath, 'a')
+    }
+    ftruncateSync(log, 0)
+    fsyncSync(log)
+    logBytes = 0
+  }
+
+  return {
+    load() {
+      let state: PersistedState | undefined
+      if (existsSync(path)) {
+        try {
+          state = JSON.parse(readFileSync(path, 'utf8'), reviver) as PersistedState
+        } catch (err) {
+          // Refuse to start on a corrupt file rather than silently overwrite it
+          throw new Error(`Could not read store file ${path}: ${(err as Error).message}`)
+        }
+      }
+
+      if (existsSync(logPath)) {
+        const lines = readFileSync(logPath, 'utf8').split('\n')
+        const batches: StoreChanges[] = []
+        lines.forEach((line, i) => {
+          if (!line) return
+          try {
+            batches.push(JSON.parse(line, reviver) as StoreChanges)
+          } catch (err) {
+            // Every complete line ends in a newline, so only the last can be torn by a crash
+            if (i === lines.length - 1) {
+              console.warn(`[store] Dropping a torn last line of ${logPath}`)
+              return
+            }
+            throw new Error(`Could not read store log ${logPath} line ${i + 1}: ${(err as Error).message}`)
+          }
+        })
+        if (batches.length > 0) {
+          state = replayChanges(state, batches)
+          writeSnapshot(state)
+        }
+      }
+
+      resetLog()
+      return state
+    },
+    append(changes, state) {
+      if (log === undefined) resetLog()
+      const line = JSON.stringify(changes, replacer) + '\n'
+      writeSync(log!, line)
+      fsyncSync(log!)
+      logBytes += Buffer.byteLength(line)
+      if (logBytes >= compactLogBytes) {
+        writeSnapshot(state())
+        resetLog()
+      }
+    },
+  }
+}
+
+// Make a rename durable. Directories cannot be opened for fsync everywhere
+// (Windows), and there the rename is as durable as it gets anyway.
+function syncDir(dir: string) {
+  let fd: number | undefined
+  try {
+    fd = openSync(dir, 'r')
+    fsyncSync(fd)
+  } catch {
+    /* unsupported on this platform */
+  } finally {
+    if (fd !== undefined) closeSync(fd)
+  }
+}
+
+/**
+ * Apply logged batches to a snapshot. Records replace the one with the same
+ * key, as in the store, so replaying a batch the snapshot already holds (a
+ * crash between compaction's rename and the log truncation) changes nothing.
+ */
+function replayChanges(snapshot: PersistedState | undefined, batches: StoreChanges[]): PersistedState {
+  const keyed = <T>(items: T[] | undefined, key: (item: T) => string) =>
+    new Map((items ?? []).map(item => [key(item), item] as const))
+
+  const receivables = keyed(snapshot?.receivables, r => r.tokenId.toString())
+  const history     = keyed(snapshot?.history, h => h.tokenId.toString())
+  const sources     = keyed(snapshot?.sources, s => s.messageHash.toLowerCase())
+  const assignments = keyed(snapshot?.recipientAssignments, a => a.sourceTxHash.toLowerCase())
+  const transfers   = keyed(snapshot?.transfers, t => t.messageHash.toLowerCase())
+  const jobs        = keyed(snapshot?.jobs, j => j.id)
+  const knownHashes = new Set(snapshot?.knownHashes ?? [])
+  const cursors     = { ...snapshot?.cursors }
+  const trades      = [...snapshot?.trades ?? []]
+  const samples     = [...snapshot?.attestationSamples ?? []]
+  let lastSeq       = snapshot?.lastSeq ?? 0
+
+  // Trades and samples have no key of their own; the store tells them apart the same way.
+  // A logged trade that is already recorded is a re-stamped one, so it replaces the old.
+  const tradeKey   = (t: { txHash: string | null; logIndex: number | null }) =>
+    t.txHash !== null && t.logIndex !== null ? `${t.txHash}:${t.logIndex}` : undefined
+  const tradeIndex = new Map<string, number>()
+  trades.forEach((t, i) => {
+    const key = tradeKey(t)
+    if (key !== undefined) tradeIndex.set(key, i)
+  })
+  const sampleKey = (s: { sourceDomain: number; messageHash: string }) => `${s.sourceDomain}:${s.messageHash.toLowerCase()}`
+  const sampleKeys = new Set(samples.map(sampleKey))
+
+  for (const batch of batches) {
+    for (const id of batch.removedReceivables ?? []) receivables.delete(id.toString())
+    for (const r of batch.receivables ?? []) receivables.set(r.tokenId.toString(), r)
+    for (const h of batch.history ?? []) history.set(h.tokenId.toString(), h)
+    for (const s of batch.sources ?? []) sources.set(s.messageHash.toLowerCase(), s)
+    for (const a of batch.recipientAssignments ?? []) assignments.set(a.sourceTxHash.toLowerCase(), a)
+    for (const t of batch.transfers ?? []) transfers.set(t.messageHash.toLowerCase(), t)
+    for (const id of batch.removedJobs ?? []) jobs.delete(id)
+    for (const j of batch.jobs ?? []) jobs.set(j.id, j)
+    for (const h of batch.knownHashes ?? []) knownHashes.add(h)
+    Object.assign(cursors, batch.cursors)
+    for (const t of batch.trades ?? []) {
+      const key = tradeKey(t)
+      const at  = key !== undefined ? tradeIndex.get(key) : undefined
+      if (at !== undefined) {
+        trades[at] = t
+        continue
+      }
+      if (key !== undefined) tradeIndex.set(key, trades.length)
+      trades.push(t)
+    }
+    for (const s of batch.attestationSamples ?? []) {
+      if (sampleKeys.has(sampleKey(s))) continue
+      sampleKeys.add(sampleKey(s))
+      samples.push(s)
+    }
+    lastSeq = Math.max(lastSeq, batch.lastSeq)
+  }
+
+  return {
+    receivables: Array.from(receivables.values()),
+    knownHashes: Array.from(knownHashes),
+    cursors,
+    history:     Array.from(history.values()),
+    lastSeq,
+    sources:     Array.from(sources.values()),
+    recipientAssignments: Array.from(assignments.values()),
+    transfers:   Array.from(transfers.values()),
+    trades,
+    attestationSamples: samples,
+    jobs:        Array.from(jobs.values()),
+  }
+}
+
+/**
+ * Create the Store selected by config:
+ *   STORE_BACKEND=memory (default) -- state is rebuilt from chain on every start
+ *   STORE_BACKEND=file             -- state persisted to STORE_PATH
+ *                                     (default: backend/data/store.json, log
+ *                                     alongside as store.json.log)
+ */
+export function buildStore(): Store {
+  const backend = process.env.STORE_BACKEND ?? 'memory'
+
+  if (backend === 'memory') return createStore()
+
+  if (backend === 'file') {
+    const here = dirname(fileURLToPath(import.meta.url))
+    const path = process.env.STORE_PATH
+      ? resolve(process.env.STORE_PATH)
+      : join(here, '..', 'data', 'store.json')
+    console.log(`[store] Persisting state to ${path}`)
+    return createStore(jsonFilePersistence(path))
+  }
+
+  throw new Error(`Unknown STORE_BACKEND "${backend}" (expected "memory" or "file")`)
+}
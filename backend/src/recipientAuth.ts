@@ -0,0 +1,76 @@
+// Authenticated recipient assignment for burns (POST /api/bridge/initiate-cctp).
+//
+// A burn's receivable goes to its messageSender unless the sender chooses a
+// different Arc address. They do so by signing EIP-712 typed data that binds
+// the source tx hash to the recipient, so someone who only saw the burn tx
+// cannot redirect its receivable. The frontend signs the same typed data for
+// CCTP V1 burns (frontend/src/components/SendPanel.tsx); V2 burns carry the
+// recipient in their hookData instead (hookData.ts).
+
+import { recoverTypedDataAddress, type Address, type Hex } from 'viem'
+
+export const RECIPIENT_ASSIGNMENT_TYPES = {
+  RecipientAssignment: [
+    { name: 'sourceTxHash', type: 'bytes32' },
+    { name: 'sourceDomain', type: 'uint32'  },
+    { name: 'recipient',    type: 'address' },
+  ],
+} as const
+
+/** Signed on the source chain, for one MeanTime deployment. */
+export function recipientAssignmentDomain(sourceChainId: number, meantime: Address) {
+  return { name: 'MeanTime', version: '1', chainId: sourceChainId, verifyingContract: meantime } as const
+}
+
+/** Thrown when a recipient assignment was not signed by the burn's messageSender. */
+export class RecipientAssignmentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecipientAssignmentError'
+  }
+}
+
+/** Thrown when a burn's receivable is already bound to a different recipient than the one assigned. */
+export class RecipientConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RecipientConflictError'
+  }
+}
+
+export interface SignedRecipient {
+  recipient: Address
+  signature: Hex
+}
+
+/**
+ * Check that `messageSender` signed the assignment of `recipient` to the burn
+ * in `sourceTxHash`. Throws a RecipientAssignmentError otherwise, including
+ * for burns whose messageSender is not an EVM address.
+ */
+export async function verifyRecipientAssignment(params: SignedRecipient & {
+  sourceChainId: number
+  meantime:      Address
+  sourceTxHash:  Hex
+  sourceDomain:  number
+  messageSender: Address | null
+}): Promise<void> {
+  const { recipient, signature, sourceChainId, meantime, sourceTxHash, sourceDomain, messageSender } = params
+  if (!messageSender) throw new RecipientAssignmentError('The burn\'s messageSender is not an EVM address and cannot sign a recipient')
+
+  let signer: Address
+  try {
+    signer = await recoverTypedDataAddress({
+      domain:      recipientAssignmentDomain(sourceChainId, meantime),
+      types:       RECIPIENT_ASSIGNMENT_TYPES,
+      primaryType: 'RecipientAssignment',
+      message:     { sourceTxHash, sourceDomain, recipient },
+      signature,
+    })
+  } catch {
+    throw new RecipientAssignmentError('Malformed recipient signature')
+  }
+  if (signer.toLowerCase() !== messageSender.toLowerCase()) {
+    throw new RecipientAssignmentError(`Recipient must be signed by the burn's sender ${messageSender}, not ${signer}`)
+  }
+}
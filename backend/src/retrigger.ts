@@ -7,7 +7,8 @@
 import { parseAbiItem, keccak256, decodeEventLog } from 'viem'
 import { buildCtx, SEPOLIA_CCTP, ARC_CCTP } from './ctx.js'
 import { MEANTIME_ABI, ERC20_MINT_ABI } from './abi.js'
-import { parseCctpMessage } from './sepoliaWatcher.js'
+import { parseCctpMessage } from './sourceWatcher.js'
+import { decodeCctpMessage } from './cctpMessage.js'
 
 const MESSAGE_SENT_EVENT = parseAbiItem('event MessageSent(bytes message)')
 // Scan last N Sepolia blocks (2000 ≈ 6.5 hours at 12s/block)
@@ -26,12 +27,17 @@ async function main() {
 
   // ── Step 1: Scan Sepolia for burns ─────────────────────────────────────────
   console.log(`Scanning last ${LOOKBACK} Sepolia blocks for Arc-bound CCTP burns…`)
-  const sepoliaLatest = await ctx.sepoliaClient.getBlockNumber()
+  const sepolia = ctx.sources.find(s => s.source.domain === SEPOLIA_CCTP.domain)?.client
+  if (!sepolia) {
+    console.error('Ethereum Sepolia is not in SOURCE_CHAINS.')
+    return
+  }
+  const sepoliaLatest = await sepolia.getBlockNumber()
   const from = sepoliaLatest > LOOKBACK ? sepoliaLatest - LOOKBACK : 0n
 
   let logs: any[]
   try {
-    logs = await ctx.sepoliaClient.getLogs({
+    logs = await sepolia.getLogs({
       address:   SEPOLIA_CCTP.messageTransmitter,
       event:     MESSAGE_SENT_EVENT,
       fromBlock: from,
@@ -55,14 +61,14 @@ async function main() {
         topics:    log.topics as [`0x${string}`, ...`0x${string}`[]],
       })
       const messageBytes = decoded.args.message as `0x${string}`
+      if (decodeCctpMessage(messageBytes).destinationDomain !== ARC_CCTP.domain) continue
       const parsed = parseCctpMessage(messageBytes)
-
-      if (parsed.destDomain !== ARC_CCTP.domain) continue
-      if (parsed.mintRecipient.toLowerCase() !== meantimeLower) continue
+      if (parsed.mintRecipient?.toLowerCase() !== meantimeLower) continue
 
       const messageHash = keccak256(messageBytes)
-      console.log(`  ✓ Arc-bound burn: hash=${messageHash} amount=${parsed.amount} from=${parsed.messageSender}`)
-      burns.push({ messageHash, messageBytes, amount: parsed.amount, messageSender: parsed.messageSender })
+      console.log(`  ✓ Arc-bound burn: hash=${messageHash} amount=${parsed.amount} net=${parsed.netAmount} from=${parsed.messageSender}`)
+      // Minted for what MeanTime will receive after Circle's fee
+      burns.push({ messageHash, messageBytes, amount: parsed.netAmount, messageSender: parsed.messageSender ?? ctx.account.address })
     } catch (err) {
       console.warn('  Could not decode log:', (err as Error).message)
     }
@@ -1,37 +1,61 @@
-// Bridge endpoints: settle, force-settle, initiate-cctp, and bridge-kit.
+// Bridge endpoints: settle, force-settle, approve-settlement, initiate-cctp, and bridge-kit.
 
-import { Router } from 'express'
-import { isHex, keccak256, toBytes } from 'viem'
+import { Router, type Request } from 'express'
+import { createHash, timingSafeEqual } from 'crypto'
+import { isAddress, isHex, keccak256, toBytes } from 'viem'
 import { type AppCtx } from '../ctx.js'
-import { type Store } from '../store.js'
+import { type Store, serializeJob } from '../store.js'
 import { MEANTIME_ABI } from '../abi.js'
-import { trackSepoliaTx } from '../sepoliaWatcher.js'
+import { trackSourceTx } from '../sourceWatcher.js'
 import { enqueueTx } from '../txQueue.js'
-import { autoSettle } from '../attestationPoller.js'
+import { autoSettle, approveSettlement } from '../attestationPoller.js'
 import { bridgeAndMint, type BridgeRequest } from '../bridgeService.js'
+import { updateStatus } from '../status.js'
+import { errorMessage } from '../transfers.js'
+import { allowsMockMint } from '../settlementPolicy.js'
+import { RecipientAssignmentError, RecipientConflictError } from '../recipientAuth.js'
+
+// Why a request may not use an operator endpoint, as [status, error], or null if it may
+function operatorAuthError(ctx: AppCtx, req: Request): [number, string] | null {
+  if (!ctx.operatorToken) return [403, 'Operator endpoints are disabled: set OPERATOR_TOKEN']
+  const match = /^Bearer (.+)$/.exec(req.get('authorization') ?? '')
+  if (!match) return [401, 'Operator bearer token required']
+  // Compare digests so the comparison takes the same time whatever the length
+  const digest = (s: string) => createHash('sha256').update(s).digest()
+  if (!timingSafeEqual(digest(match[1]), digest(ctx.operatorToken))) return [403, 'Invalid operator token']
+  return null
+}
 
 export function buildBridgeRouter(ctx: AppCtx, store: Store): Router {
   const router = Router()
 
   router.post('/settle', async (req, res) => {
+    let tokenId: bigint | undefined
     try {
       const { cctpMessageHash: rawHash } = req.body
       if (!rawHash) { res.status(400).json({ error: 'cctpMessageHash is required' }); return }
       const hash: `0x${string}` = isHex(rawHash) ? rawHash : keccak256(toBytes(rawHash))
+      tokenId = store.getByMessageHash(hash)?.tokenId
       const txHash = await enqueueTx(() =>
         ctx.walletClient.writeContract({
           address: ctx.addresses.meantime, abi: MEANTIME_ABI, functionName: 'settle',
           args: [hash], account: ctx.account, chain: null,
         }),
       )
+      if (tokenId !== undefined) updateStatus(store, tokenId, 'settling')
       res.json({ txHash })
     } catch (err) {
+      if (tokenId !== undefined) updateStatus(store, tokenId, 'settle_failed', errorMessage(err))
       console.error('[bridge/settle]', err)
       res.status(500).json({ error: String(err) })
     }
   })
 
   router.post('/force-settle', async (req, res) => {
+    if (!allowsMockMint(ctx.settlementPolicy)) {
+      res.status(403).json({ error: `Mock settlement is disabled by SETTLEMENT_POLICY=${ctx.settlementPolicy}` })
+      return
+    }
     try {
       let { tokenId, cctpMessageHash } = req.body
       let messageHash: `0x${string}` | undefined
@@ -46,7 +70,11 @@ export function buildBridgeRouter(ctx: AppCtx, store: Store): Router {
         messageHash = data.cctpMessageHash
       }
       if (!messageHash) { res.status(400).json({ error: 'Provide tokenId or cctpMessageHash' }); return }
-      const result = await autoSettle(ctx, messageHash)
+      if (store.getSource(messageHash)?.verification === 'orphaned') {
+        res.status(409).json({ error: 'The burn backing this receivable was orphaned by a source-chain reorg' })
+        return
+      }
+      const result = await autoSettle(ctx, store, messageHash)
       if (!result) { res.status(404).json({ error: 'No active NFT for that hash (already settled?)' }); return }
       res.json({ tokenId: result.tokenId.toString(), settleTx: result.settleTx })
     } catch (err) {
@@ -55,17 +83,51 @@ export function buildBridgeRouter(ctx: AppCtx, store: Store): Router {
     }
   })
 
+  // Approve a settlement held for an operator (manual policy, or a strict-mode
+  // receiveMessage failure once fixed), or retry one that gave up
+  router.post('/approve-settlement', (req, res) => {
+    const authError = operatorAuthError(ctx, req)
+    if (authError) { res.status(authError[0]).json({ error: authError[1] }); return }
+    const { tokenId, cctpMessageHash } = req.body ?? {}
+    let messageHash: `0x${string}` | undefined
+    if (cctpMessageHash !== undefined) {
+      if (!isHex(cctpMessageHash)) { res.status(400).json({ error: 'cctpMessageHash must be a 0x hex string' }); return }
+      messageHash = cctpMessageHash
+    } else if (tokenId !== undefined) {
+      if (!/^\d+$/.test(String(tokenId))) { res.status(400).json({ error: 'tokenId must be a non-negative integer' }); return }
+      messageHash = store.get(BigInt(tokenId))?.cctpMessageHash
+    } else {
+      res.status(400).json({ error: 'Provide tokenId or cctpMessageHash' })
+      return
+    }
+    const job = messageHash && approveSettlement(store, messageHash)
+    if (!job) { res.status(404).json({ error: 'No settlement awaiting approval for that receivable' }); return }
+    res.json({ job: serializeJob(job) })
+  })
+
   router.post('/initiate-cctp', async (req, res) => {
     try {
-      const { txHash, recipient } = req.body
+      const { txHash, recipient, signature, sourceDomain = 0 } = req.body
       if (!txHash || !isHex(txHash)) { res.status(400).json({ error: 'txHash must be a 0x hex string' }); return }
-      const result = await trackSepoliaTx(ctx, store, txHash as `0x${string}`, recipient)
+      const source = ctx.sources.find(s => s.source.domain === Number(sourceDomain))
+      if (!source) { res.status(400).json({ error: `Source domain ${sourceDomain} is not watched by this backend` }); return }
+      if (recipient !== undefined) {
+        if (typeof recipient !== 'string' || !isAddress(recipient)) { res.status(400).json({ error: 'recipient must be an address' }); return }
+        if (typeof signature !== 'string' || !isHex(signature)) {
+          res.status(400).json({ error: 'A recipient requires signature: an EIP-712 RecipientAssignment signed by the burn\'s sender' })
+          return
+        }
+      }
+      const assignment = recipient !== undefined ? { recipient, signature } : undefined
+      const result = await trackSourceTx(ctx, store, source, txHash as `0x${string}`, assignment)
       if (!result) {
         res.status(422).json({ error: 'No CCTP MessageSent log found in that tx.' })
         return
       }
       res.json({ ok: true, tokenId: result.tokenId, messageHash: result.messageHash })
     } catch (err) {
+      if (err instanceof RecipientAssignmentError) { res.status(403).json({ error: err.message }); return }
+      if (err instanceof RecipientConflictError)   { res.status(409).json({ error: err.message }); return }
       console.error('[bridge/initiate-cctp]', err)
       res.status(500).json({ error: String(err) })
     }
@@ -73,19 +135,32 @@ export function buildBridgeRouter(ctx: AppCtx, store: Store): Router {
 
   router.post('/bridge-kit', async (req, res) => {
     try {
-      const { sourceChain, senderPrivateKey, amount, recipientAddress } = req.body as Partial<BridgeRequest>
+      const { sourceChain, senderPrivateKey, amount, recipientAddress, transferSpeed, maxFee } = req.body as Partial<BridgeRequest>
       if (!sourceChain || !senderPrivateKey || !amount || !recipientAddress) {
         res.status(400).json({ error: 'Required: sourceChain, senderPrivateKey, amount, recipientAddress' })
         return
       }
-      console.log(`[bridge-kit] Starting bridge: ${amount} USDC from ${sourceChain} to ${recipientAddress}`)
+      if (transferSpeed !== undefined && transferSpeed !== 'FAST' && transferSpeed !== 'SLOW') {
+        res.status(400).json({ error: 'transferSpeed must be FAST or SLOW' })
+        return
+      }
+      if (maxFee !== undefined && (transferSpeed !== 'FAST' || typeof maxFee !== 'string' || !/^\d+(\.\d{1,6})?$/.test(maxFee))) {
+        res.status(400).json({ error: 'maxFee must be a USDC amount, and only applies to FAST transfers' })
+        return
+      }
+      console.log(`[bridge-kit] Starting ${transferSpeed ?? 'SLOW'} bridge: ${amount} USDC from ${sourceChain} to ${recipientAddress}`)
       bridgeAndMint({
         sourceChain,
         senderPrivateKey: senderPrivateKey as `0x${string}`,
         amount,
         recipientAddress: recipientAddress as `0x${string}`,
+        transferSpeed,
+        maxFee,
       }).then(r => console.log('[bridge-kit] Complete:', r)).catch(e => console.error('[bridge-kit] Failed:', e))
-      res.json({ ok: true, message: 'Bridge initiated. Settlement in ~14 minutes.' })
+      res.json({
+        ok:      true,
+        message: transferSpeed === 'FAST' ? 'Bridge initiated. Settlement in under a minute.' : 'Bridge initiated. Settlement in ~14 minutes.',
+      })
     } catch (err) {
       console.error('[bridge/bridge-kit]', err)
       res.status(500).json({ error: String(err) })
@@ -0,0 +1,39 @@
+import { Router } from 'express'
+import { type AppCtx, ARC_CCTP } from '../ctx.js'
+import { CHAINS, type ChainConfig } from '../chains.js'
+import { type AppConfig } from '../configTypes.js'
+
+// Public view of a registry entry. RPC endpoints are the registry's public
+// ones, never the (possibly keyed) URLs this backend was configured with.
+function publicChain(chain: ChainConfig): ChainConfig {
+  const { key, name, chainId, domain, nativeCurrency, rpcUrl, bridgeKitName, cctp } = chain
+  return { key, name, chainId, domain, nativeCurrency, rpcUrl, bridgeKitName, cctp }
+}
+
+export function buildConfigRouter(ctx: AppCtx): Router {
+  const router = Router()
+
+  // GET /api/config — chain registry + deployed contract addresses for the frontend
+  router.get('/', (_req, res) => {
+    const config: AppConfig = {
+      arc: {
+        ...publicChain(CHAINS.arc),
+        cctp: { ...CHAINS.arc.cctp, messageTransmitter: ARC_CCTP.messageTransmitter, usdc: ARC_CCTP.usdc },
+      },
+      sources: CHAINS.sources.map(source => ({
+        ...publicChain(source),
+        cctpVersion: source.cctpVersion ?? 2,
+        watched:     ctx.sources.some(s => s.source.key === source.key),
+      })),
+      contracts: {
+        meantime: ctx.addresses.meantime,
+        usdc:     ctx.addresses.usdc,
+        eurc:     ctx.addresses.eurc,
+      },
+      settlementPolicy: ctx.settlementPolicy,
+    }
+    res.json(config)
+  })
+
+  return router
+}
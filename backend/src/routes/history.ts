@@ -0,0 +1,48 @@
+import { Router } from 'express'
+import { type Store, type HistoryFilter, serializeHistoryRecord } from '../store.js'
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/
+const UINT_RE    = /^\d+$/
+
+export function buildHistoryRouter(store: Store): Router {
+  const router = Router()
+
+  // GET /api/history — every receivable ever minted, including settled ones.
+  // Query: owner=0x…  token=0x…  from=<unix s>  to=<unix s>
+  router.get('/', (req, res) => {
+    const { owner, token, from, to } = req.query
+    const filter: HistoryFilter = {}
+
+    if (owner !== undefined) {
+      if (typeof owner !== 'string' || !ADDRESS_RE.test(owner)) { res.status(400).json({ error: 'owner must be an address' }); return }
+      filter.owner = owner
+    }
+    if (token !== undefined) {
+      if (typeof token !== 'string' || !ADDRESS_RE.test(token)) { res.status(400).json({ error: 'token must be an address' }); return }
+      filter.token = token
+    }
+    if (from !== undefined) {
+      if (typeof from !== 'string' || !UINT_RE.test(from)) { res.status(400).json({ error: 'from must be a unix timestamp' }); return }
+      filter.from = BigInt(from)
+    }
+    if (to !== undefined) {
+      if (typeof to !== 'string' || !UINT_RE.test(to)) { res.status(400).json({ error: 'to must be a unix timestamp' }); return }
+      filter.to = BigInt(to)
+    }
+
+    res.json(store.queryHistory(filter).map(serializeHistoryRecord))
+  })
+
+  // GET /api/history/:tokenId
+  router.get('/:tokenId', (req, res) => {
+    if (!UINT_RE.test(req.params.tokenId)) { res.status(400).json({ error: 'tokenId must be an integer' }); return }
+    const h = store.getHistory(BigInt(req.params.tokenId))
+    if (!h) {
+      res.status(404).json({ error: 'Not found' })
+      return
+    }
+    res.json(serializeHistoryRecord(h))
+  })
+
+  return router
+}
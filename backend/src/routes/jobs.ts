@@ -0,0 +1,44 @@
+import { Router } from 'express'
+import { type Store, type JobFilter, type JobKind, type JobState, serializeJob } from '../store.js'
+
+const HASH_RE   = /^0x[0-9a-fA-F]{64}$/
+const UINT_RE   = /^\d+$/
+const MAX_LIMIT = 500
+const KINDS:  readonly JobKind[]  = ['mint', 'attestation', 'settlement']
+const STATES: readonly JobState[] = ['queued', 'running', 'held', 'done', 'failed', 'cancelled']
+
+export function buildJobsRouter(store: Store): Router {
+  const router = Router()
+
+  // GET /api/jobs — attestation and settlement jobs, most recently updated first.
+  // Query: state=queued|running|held|done|failed|cancelled  kind=mint|attestation|settlement
+  //        messageHash=0x…  limit=<1-500>
+  router.get('/', (req, res) => {
+    const { state, kind, messageHash, limit } = req.query
+    const filter: JobFilter = {}
+
+    if (state !== undefined) {
+      if (!STATES.includes(state as JobState)) { res.status(400).json({ error: `state must be one of ${STATES.join(', ')}` }); return }
+      filter.state = state as JobState
+    }
+    if (kind !== undefined) {
+      if (!KINDS.includes(kind as JobKind)) { res.status(400).json({ error: `kind must be one of ${KINDS.join(', ')}` }); return }
+      filter.kind = kind as JobKind
+    }
+    if (messageHash !== undefined) {
+      if (typeof messageHash !== 'string' || !HASH_RE.test(messageHash)) { res.status(400).json({ error: 'messageHash must be a 32-byte hex hash' }); return }
+      filter.messageHash = messageHash
+    }
+    if (limit !== undefined) {
+      if (typeof limit !== 'string' || !UINT_RE.test(limit) || Number(limit) < 1 || Number(limit) > MAX_LIMIT) {
+        res.status(400).json({ error: `limit must be between 1 and ${MAX_LIMIT}` })
+        return
+      }
+      filter.limit = Number(limit)
+    }
+
+    res.json(store.queryJobs(filter).map(serializeJob))
+  })
+
+  return router
+}
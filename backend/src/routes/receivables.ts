@@ -1,12 +1,120 @@
 import { Router } from 'express'
-import { type Store, serializeReceivable } from '../store.js'
+import { type Store, type Receivable, type ReceivableQuery, serializeReceivable, decodeCursor } from '../store.js'
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/
+const HASH_RE    = /^0x[0-9a-fA-F]{64}$/
+const UINT_RE    = /^\d+$/
+const SORTS      = ['amount', 'age', 'reservePrice'] as const
+const MAX_LIMIT  = 500
+
+/**
+ * Parse GET /api/receivables query parameters into a ReceivableQuery.
+ * Returns an error message for the first invalid parameter.
+ */
+function parseQuery(params: Record<string, unknown>): ReceivableQuery | string {
+  const q: ReceivableQuery = {}
+  const str = (name: string) => {
+    const v = params[name]
+    return typeof v === 'string' ? v : undefined
+  }
+
+  for (const name of ['owner', 'inboundToken', 'paymentToken'] as const) {
+    const v = str(name)
+    if (v === undefined) continue
+    if (!ADDRESS_RE.test(v)) return `${name} must be an address`
+    q[name] = v
+  }
+
+  const listed = str('listed')
+  if (listed !== undefined) {
+    if (listed !== 'true' && listed !== 'false') return 'listed must be true or false'
+    q.listed = listed === 'true'
+  }
+
+  for (const name of ['minAmount', 'maxAmount', 'mintedAfter', 'mintedBefore'] as const) {
+    const v = str(name)
+    if (v === undefined) continue
+    if (!UINT_RE.test(v)) return `${name} must be a non-negative integer`
+    q[name] = BigInt(v)
+  }
+
+  const sort = str('sort')
+  if (sort !== undefined) {
+    if (!(SORTS as readonly string[]).includes(sort)) return `sort must be one of ${SORTS.join(', ')}`
+    q.sort = sort as ReceivableQuery['sort']
+  }
+
+  const order = str('order')
+  if (order !== undefined) {
+    if (order !== 'asc' && order !== 'desc') return 'order must be asc or desc'
+    q.order = order
+  }
+
+  const limit = str('limit')
+  if (limit !== undefined) {
+    if (!UINT_RE.test(limit) || Number(limit) < 1 || Number(limit) > MAX_LIMIT) return `limit must be between 1 and ${MAX_LIMIT}`
+    q.limit = Number(limit)
+  }
+
+  const cursor = str('cursor')
+  if (cursor !== undefined) {
+    try { decodeCursor(cursor) } catch { return 'cursor is invalid' }
+    q.cursor = cursor
+  }
+
+  return q
+}
+
+/** The active receivable for a CCTP message hash, or once settled its archived final state. */
+function lookupMessageHash(store: Store, hash: string): Receivable | undefined {
+  return store.getByMessageHash(hash) ?? store.getHistoryByMessageHash(hash)?.final ?? undefined
+}
 
 export function buildReceivablesRouter(store: Store): Router {
   const router = Router()
 
-  // GET /api/receivables — all active receivables
-  router.get('/', (_req, res) => {
-    res.json(store.snapshot().map(serializeReceivable))
+  // GET /api/receivables — active receivables, optionally filtered/sorted/paginated.
+  // Query: owner, listed, inboundToken, paymentToken, minAmount, maxAmount,
+  //        mintedAfter, mintedBefore, sort (amount|age|reservePrice), order (asc|desc),
+  //        limit, cursor. The body stays a plain array; when more results exist
+  //        the cursor for the next page is returned in the X-Next-Cursor header.
+  router.get('/', (req, res) => {
+    const q = parseQuery(req.query)
+    if (typeof q === 'string') {
+      res.status(400).json({ error: q })
+      return
+    }
+    const page = store.query(q)
+    if (page.nextCursor) res.setHeader('X-Next-Cursor', page.nextCursor)
+    res.json(page.items.map(r => serializeReceivable(r)))
+  })
+
+  // GET /api/receivables/by-hash/:messageHash — active receivable or archived final state.
+  // Same shape as GET /api/receivables/:tokenId; the lifecycle is at GET /api/history/:tokenId.
+  router.get('/by-hash/:messageHash', (req, res) => {
+    const { messageHash } = req.params
+    if (!HASH_RE.test(messageHash)) { res.status(400).json({ error: 'messageHash must be a 32-byte hex string' }); return }
+    const found = lookupMessageHash(store, messageHash)
+    if (!found) {
+      res.status(404).json({ error: 'Not found' })
+      return
+    }
+    res.json(serializeReceivable(found))
+  })
+
+  // GET /api/receivables/by-source-tx/:txHash — same, for the burn in a source-chain tx
+  // (the first minted one, should a tx hold several)
+  router.get('/by-source-tx/:txHash', (req, res) => {
+    const { txHash } = req.params
+    if (!HASH_RE.test(txHash)) { res.status(400).json({ error: 'txHash must be a 32-byte hex string' }); return }
+    const found = store.messageHashesForSourceTx(txHash)
+      .map(hash => lookupMessageHash(store, hash))
+      .find(r => r !== undefined)
+    if (!found) {
+      res.status(404).json({ error: 'Not found' })
+      return
+    }
+    res.json(serializeReceivable(found))
   })
 
   // GET /api/receivables/:tokenId
@@ -1,51 +1,78 @@
 import { Router, type Request, type Response } from 'express'
-import { type Store, serializeReceivable, type StoreEvent } from '../store.js'
+import { type Store, serializeReceivable, serializeTransfer, serializeTrade, type StoreEvent } from '../store.js'
+
+// Map a StoreEvent to its SSE event name and JSON payload
+function toSse(event: StoreEvent): [string, unknown] {
+  switch (event.type) {
+    case 'minted':
+      return ['minted', serializeReceivable(event.receivable)]
+    case 'listed':
+      return ['listed', {
+        tokenId:      event.tokenId.toString(),
+        reservePrice: event.listing.reservePrice.toString(),
+        paymentToken: event.listing.paymentToken,
+        listedAt:     event.listing.listedAt?.toString() ?? null,
+      }]
+    case 'delisted':
+      return ['delisted', { tokenId: event.tokenId.toString() }]
+    case 'filled':
+      return ['filled', {
+        tokenId:  event.tokenId.toString(),
+        newOwner: event.newOwner,
+      }]
+    case 'settled':
+      return ['settled', { tokenId: event.tokenId.toString() }]
+    case 'status':
+      return ['status', {
+        tokenId:      event.tokenId.toString(),
+        status:       event.status,
+        statusReason: event.statusReason,
+      }]
+    case 'transfer':
+      return ['transfer', serializeTransfer(event.transfer)]
+    case 'trade':
+      return ['trade', serializeTrade(event.trade)]
+  }
+}
+
+// The browser's EventSource sends Last-Event-ID on reconnect; the query
+// parameter lets a fresh connection resume too.
+function lastEventId(req: Request): number | null {
+  const raw = req.header('Last-Event-ID') ?? req.query.lastEventId
+  if (typeof raw !== 'string' || !/^\d+$/.test(raw)) return null
+  return Number(raw)
+}
 
 export function buildSseRouter(store: Store): Router {
   const router = Router()
 
   // GET /api/sse — Server-Sent Events stream
-  // On connect: sends a full snapshot so the client doesn't miss state.
-  // Then streams incremental events as they arrive.
+  // Every event carries its store sequence number as the SSE id.
+  // On connect: if the client sends a Last-Event-ID still covered by the
+  // store's journal, only the missed events are replayed; otherwise a full
+  // snapshot is sent. Then incremental events stream as they arrive.
   router.get('/', (req: Request, res: Response) => {
     res.setHeader('Content-Type',  'text/event-stream')
     res.setHeader('Cache-Control', 'no-cache')
     res.setHeader('Connection',    'keep-alive')
     res.flushHeaders()
 
-    const send = (eventName: string, data: unknown) => {
-      res.write(`event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`)
+    const send = (eventName: string, data: unknown, id: number) => {
+      res.write(`id: ${id}\nevent: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`)
     }
 
-    // 1. Send snapshot immediately so the UI can render without a separate fetch
-    send('snapshot', store.snapshot().map(serializeReceivable))
+    // 1. Catch the client up: replay from the journal, or snapshot when the gap is too old
+    const resumeFrom = lastEventId(req)
+    const missed = resumeFrom !== null ? store.eventsSince(resumeFrom) : null
+    if (missed) {
+      for (const { seq, event } of missed) send(...toSse(event), seq)
+    } else {
+      send('snapshot', store.snapshot().map(r => serializeReceivable(r)), store.lastSeq())
+    }
 
     // 2. Subscribe to incremental updates
-    const unsubscribe = store.subscribe((event: StoreEvent) => {
-      switch (event.type) {
-        case 'minted':
-          send('minted', serializeReceivable(event.receivable))
-          break
-        case 'listed':
-          send('listed', {
-            tokenId:      event.tokenId.toString(),
-            reservePrice: event.listing.reservePrice.toString(),
-            paymentToken: event.listing.paymentToken,
-          })
-          break
-        case 'delisted':
-          send('delisted', { tokenId: event.tokenId.toString() })
-          break
-        case 'filled':
-          send('filled', {
-            tokenId:  event.tokenId.toString(),
-            newOwner: event.newOwner,
-          })
-          break
-        case 'settled':
-          send('settled', { tokenId: event.tokenId.toString() })
-          break
-      }
+    const unsubscribe = store.subscribe((event: StoreEvent, seq: number) => {
+      send(...toSse(event), seq)
     })
 
     // Keep-alive ping every 25 s to prevent proxy timeouts
@@ -0,0 +1,29 @@
+import { Router } from 'express'
+import { type Store } from '../store.js'
+import { CHAINS } from '../chains.js'
+import { latencyStats } from '../attestationStats.js'
+import { type TransferSpeed } from '../cctpMessage.js'
+
+const SPEEDS: readonly TransferSpeed[] = ['standard', 'fast']
+
+export function buildStatsRouter(store: Store): Router {
+  const router = Router()
+
+  // GET /api/stats/attestation — observed burn -> attestation latency per
+  // source chain (rolling window): sample count, min/p50/p90/p99/max seconds
+  // and the estimate used for settlement ETAs.
+  // Query: speed=standard|fast (default standard)
+  router.get('/attestation', (req, res) => {
+    const speed = req.query.speed ?? 'standard'
+    if (!SPEEDS.includes(speed as TransferSpeed)) { res.status(400).json({ error: `speed must be one of ${SPEEDS.join(', ')}` }); return }
+
+    const sampled = new Set(store.attestationSamples(undefined, speed as TransferSpeed).map(s => s.sourceDomain))
+    const domains = new Set([...CHAINS.sources.map(s => s.domain), ...sampled])
+    res.json(Array.from(domains, domain => {
+      const chain = CHAINS.sources.find(s => s.domain === domain)
+      return { chain: chain?.key ?? null, ...latencyStats(store, domain, speed as TransferSpeed) }
+    }))
+  })
+
+  return router
+}
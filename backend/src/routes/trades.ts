@@ -0,0 +1,50 @@
+import { Router } from 'express'
+import { type Store, type TradeFilter, serializeTrade } from '../store.js'
+
+const ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/
+const UINT_RE    = /^\d+$/
+const MAX_LIMIT  = 500
+
+export function buildTradesRouter(store: Store): Router {
+  const router = Router()
+
+  // GET /api/trades — every fill seen on the marketplace, most recent first.
+  // Query: tokenId=<id>  address=0x… (buyer or seller)  paymentToken=0x…
+  //        from=<unix s>  to=<unix s>  limit=<1-500>
+  router.get('/', (req, res) => {
+    const { tokenId, address, paymentToken, from, to, limit } = req.query
+    const filter: TradeFilter = {}
+
+    if (tokenId !== undefined) {
+      if (typeof tokenId !== 'string' || !UINT_RE.test(tokenId)) { res.status(400).json({ error: 'tokenId must be an integer' }); return }
+      filter.tokenId = BigInt(tokenId)
+    }
+    if (address !== undefined) {
+      if (typeof address !== 'string' || !ADDRESS_RE.test(address)) { res.status(400).json({ error: 'address must be an address' }); return }
+      filter.address = address
+    }
+    if (paymentToken !== undefined) {
+      if (typeof paymentToken !== 'string' || !ADDRESS_RE.test(paymentToken)) { res.status(400).json({ error: 'paymentToken must be an address' }); return }
+      filter.paymentToken = paymentToken
+    }
+    if (from !== undefined) {
+      if (typeof from !== 'string' || !UINT_RE.test(from)) { res.status(400).json({ error: 'from must be a unix timestamp' }); return }
+      filter.from = BigInt(from)
+    }
+    if (to !== undefined) {
+      if (typeof to !== 'string' || !UINT_RE.test(to)) { res.status(400).json({ error: 'to must be a unix timestamp' }); return }
+      filter.to = BigInt(to)
+    }
+    if (limit !== undefined) {
+      if (typeof limit !== 'string' || !UINT_RE.test(limit) || Number(limit) < 1 || Number(limit) > MAX_LIMIT) {
+        res.status(400).json({ error: `limit must be between 1 and ${MAX_LIMIT}` })
+        return
+      }
+      filter.limit = Number(limit)
+    }
+
+    res.json(store.queryTrades(filter).map(serializeTrade))
+  })
+
+  return router
+}
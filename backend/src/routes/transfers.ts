@@ -0,0 +1,25 @@
+import { Router } from 'express'
+import { type Store, serializeTransfer } from '../store.js'
+
+const HASH_RE = /^0x[0-9a-fA-F]{64}$/
+
+export function buildTransfersRouter(store: Store): Router {
+  const router = Router()
+
+  // GET /api/transfers/:id — stage-by-stage progress of a CCTP transfer.
+  // id is the CCTP message hash or the source-chain tx hash; for a tx with
+  // several burns, the first recorded one is returned.
+  router.get('/:id', (req, res) => {
+    const { id } = req.params
+    if (!HASH_RE.test(id)) { res.status(400).json({ error: 'id must be a message hash or source tx hash' }); return }
+    const transfer = store.getTransfer(id)
+      ?? store.messageHashesForSourceTx(id).map(h => store.getTransfer(h)).find(t => t !== undefined)
+    if (!transfer) {
+      res.status(404).json({ error: 'Not found' })
+      return
+    }
+    res.json(serializeTransfer(transfer))
+  })
+
+  return router
+}
@@ -0,0 +1,29 @@
+// How settlement may get USDC into MeanTime (SETTLEMENT_POLICY).
+//
+//   testnet  (default) -- receiveMessage when attested; otherwise mock-mint the
+//            inbound USDC (auto-settle timeout, rejected mock attestation, no
+//            Arc MessageTransmitter). Only for test tokens the backend can mint.
+//   strict   -- real CCTP only. Nothing is ever mock-minted: a burn not attested
+//            in time, or a failed receiveMessage, flags the receivable
+//            (needs_operator) and alerts; its settlement waits for an operator.
+//   manual   -- as strict, and every settlement also waits for an operator to
+//            approve it (POST /api/bridge/approve-settlement, which needs
+//            the OPERATOR_TOKEN bearer token).
+
+import { type SettlementPolicy } from './configTypes.js'
+
+export type { SettlementPolicy } from './configTypes.js'
+
+export const SETTLEMENT_POLICIES: readonly SettlementPolicy[] = ['testnet', 'strict', 'manual']
+
+/** Read SETTLEMENT_POLICY, mirroring buildAttestationProvider(). */
+export function buildSettlementPolicy(): SettlementPolicy {
+  const policy = (process.env.SETTLEMENT_POLICY ?? 'testnet') as SettlementPolicy
+  if (!SETTLEMENT_POLICIES.includes(policy)) {
+    throw new Error(`Unknown SETTLEMENT_POLICY "${policy}" (expected ${SETTLEMENT_POLICIES.join(', ')})`)
+  }
+  return policy
+}
+
+export const allowsMockMint   = (policy: SettlementPolicy) => policy === 'testnet'
+export const requiresApproval = (policy: SettlementPolicy) => policy === 'manual'
@@ -0,0 +1,542 @@
+// Watches each configured CCTP source chain's MessageTransmitter (V2, or V1 on
+// chains registered with cctpVersion 1 -- both emit the same event) for
+// MessageSent events that are destined for Arc (domain 26) with
+// mintRecipient = MeanTime contract. When found: calls MeanTime.mint() on
+// Arc immediately (optimistic), then starts polling Circle's attestation API
+// for settlement with the burn's source domain.
+//
+// One watcher runs per source chain (ctx.sources), each with its own client,
+// poll interval and cursor. Uses getLogs polling instead of eth_newFilter since
+// many public RPCs don't support persistent filters. The last processed block
+// is checkpointed in the store, so burns that happen while the backend is down
+// are picked up on the next boot.
+//
+// Minting at the chain tip is optimistic, so every burn's block is recorded and
+// re-verified once it is `confirmations` deep (verifyBurns). Burns reorged out
+// of the chain are marked orphaned and an operator is alerted.
+//
+// A fresh burn with no recipient in its hookData may still have one assigned by
+// its sender (initiate-cctp, trackSourceTx). Its mint is queued as a 'mint' job
+// that runs RECIPIENT_WINDOW_SECONDS after the burn, so the poll loop never
+// waits; an assignment that arrives first mints to its recipient at once.
+
+import { keccak256, decodeEventLog, parseAbiItem, TransactionReceiptNotFoundError, type Log } from 'viem'
+import { type AppCtx, type SourceCtx, ARC_CCTP } from './ctx.js'
+import { type Store, type BurnSource, type Job } from './store.js'
+import { MEANTIME_ABI } from './abi.js'
+import { queueAttestation } from './attestationPoller.js'
+import { enqueueTx } from './txQueue.js'
+import { advanceTransfer, errorMessage } from './transfers.js'
+import { updateStatus } from './status.js'
+import { alertOperator } from './alerts.js'
+import { enqueueJob, jobId, type JobHandler, type JobResult } from './jobQueue.js'
+import {
+  verifyRecipientAssignment, RecipientAssignmentError, RecipientConflictError, type SignedRecipient,
+} from './recipientAuth.js'
+import { meantimeHookOf } from './hookData.js'
+import {
+  decodeBurnMessage, decodeCctpMessage, bytes32ToAddress, cctpVersionOf, netMintAmount, transferSpeedOf,
+} from './cctpMessage.js'
+
+const MESSAGE_SENT_EVENT = parseAbiItem('event MessageSent(bytes message)')
+
+// Process up to 2000 blocks per getLogs call (~6.5 hours on Sepolia at 12s/block)
+const BLOCKS_PER_POLL = 2000n
+// On boot, catch up at most this far past the checkpoint
+const MAX_CATCHUP_SECONDS = 24 * 60 * 60
+// How long after a burn its sender may assign a recipient (initiate-cctp)
+// before the receivable is minted to messageSender
+const RECIPIENT_WINDOW_SECONDS = 5 * 60
+
+/** Store cursor name for the last processed block of a source domain. */
+export function sourceCursor(domain: number): string {
+  return `source:${domain}`
+}
+
+// Cursor name used before multi-chain watching (Ethereum Sepolia only)
+const LEGACY_SEPOLIA_CURSOR = 'sepolia'
+
+/**
+ * The fields the watchers act on, from a V1 or V2 burn message (see cctpMessage.ts).
+ * `netAmount` is what MeanTime will receive once the message is received on
+ * Arc, after Circle's fee; the receivable is minted for that, not `amount`.
+ * Addresses are null when the bytes32 holds a non-EVM address. `hook` is the
+ * MeanTime hookData payload (see hookData.ts), null if absent or malformed.
+ * Throws a CctpMessageError for malformed messages.
+ */
+export function parseCctpMessage(messageHex: `0x${string}`) {
+  const message = decodeBurnMessage(messageHex)
+  return {
+    sourceDomain:  message.sourceDomain,
+    destDomain:    message.destinationDomain,
+    mintRecipient: bytes32ToAddress(message.body.mintRecipient),
+    amount:        message.body.amount,
+    netAmount:     netMintAmount(message),
+    messageSender: bytes32ToAddress(message.body.messageSender),
+    transferSpeed: transferSpeedOf(message.minFinalityThreshold),
+    cctpVersion:   cctpVersionOf(message),
+    hook:          meantimeHookOf(message.body.hookData),
+    message,
+  }
+}
+
+/** Start a watcher for every source chain in ctx.sources. Returns a combined stop function. */
+export function startSourceWatchers(ctx: AppCtx, store: Store): () => void {
+  const stops = ctx.sources.map(src => startSourceWatcher(ctx, store, src))
+  return () => stops.forEach(stop => stop())
+}
+
+export function startSourceWatcher(ctx: AppCtx, store: Store, { source, client }: SourceCtx): () => void {
+  let stopped = false
+
+  const tag    = `[source-watcher:${source.key}]`
+  const cursor = sourceCursor(source.domain)
+  const maxCatchupBlocks = BigInt(Math.ceil(MAX_CATCHUP_SECONDS / source.blockTimeSeconds))
+
+  const meantimeLower = ctx.addresses.meantime.toLowerCase()
+  console.log(`${tag} Watching ${source.name} (domain ${source.domain}, CCTP V${source.cctpVersion ?? 2}) for Arc-bound CCTP burns…`)
+  console.log(`${tag} MeanTime = ${ctx.addresses.meantime} | Arc domain = ${ARC_CCTP.domain}`)
+
+  // Carry over the checkpoint written before per-domain cursors existed
+  if (source.domain === 0 && store.getCursor(cursor) === undefined) {
+    const legacy = store.getCursor(LEGACY_SEPOLIA_CURSOR)
+    if (legacy !== undefined) store.setCursor(cursor, legacy)
+  }
+
+  const checkpoint = store.getCursor(cursor)
+  if (checkpoint !== undefined) {
+    console.log(`${tag} Resuming from checkpoint block ${checkpoint}`)
+  }
+
+  const processLog = async (log: {
+    data: `0x${string}`; topics: readonly `0x${string}`[]; transactionHash: `0x${string}` | null
+    blockNumber: bigint | null; blockHash: `0x${string}` | null
+  }) => {
+    const decoded = decodeEventLog({
+      abi:       [MESSAGE_SENT_EVENT],
+      eventName: 'MessageSent',
+      data:      log.data,
+      topics:    log.topics as [`0x${string}`, ...`0x${string}`[]],
+    })
+    const messageBytes = decoded.args.message as `0x${string}`
+    // Messages to other chains need not be burns; only decode the body of Arc-bound ones
+    if (decodeCctpMessage(messageBytes).destinationDomain !== ARC_CCTP.domain) return
+    const parsed = parseCctpMessage(messageBytes)
+    if (parsed.mintRecipient?.toLowerCase() !== meantimeLower) return
+
+    const messageHash  = keccak256(messageBytes)
+    const sourceTxHash = log.transactionHash ?? undefined
+    if (sourceTxHash) {
+      recordBurn(store, {
+        messageHash, sourceTxHash, sourceDomain: source.domain, messageBytes,
+        blockNumber: log.blockNumber ?? undefined, blockHash: log.blockHash ?? undefined,
+      })
+    }
+    const at = await burnTime(client, log.blockNumber)
+    advanceTransfer(store, messageHash, { stage: 'burn_detected', txHash: sourceTxHash, ...(at !== undefined && { at }) })
+
+    // Skip hashes that were already minted (or minted+settled) — prevents
+    // phantom receivables and duplicate pollers.
+    if (store.isKnown(messageHash)) {
+      console.log(`${tag} ${messageHash} already known, skipping`)
+      return
+    }
+
+    // A fresh burn without a hookData recipient may still get one assigned;
+    // leave its mint to a job that runs once the window closes
+    const assignable = !parsed.hook && !(sourceTxHash && store.getRecipientAssignment(sourceTxHash))
+    const mintAt     = (at !== undefined ? Number(at) * 1000 : Date.now()) + RECIPIENT_WINDOW_SECONDS * 1000
+    if (assignable && sourceTxHash && mintAt > Date.now()) {
+      console.log(`${tag} CCTP V${parsed.cctpVersion} burn! hash=${messageHash} -- minting at ${new Date(mintAt).toISOString()} unless a recipient is assigned first`)
+      enqueueJob(store, 'mint', messageHash, { runAt: mintAt })
+      return
+    }
+
+    const recipient = recipientFor(ctx, store, parsed, sourceTxHash)
+    console.log(`${tag} CCTP V${parsed.cctpVersion} burn! hash=${messageHash} speed=${parsed.transferSpeed} amount=${parsed.amount} net=${parsed.netAmount} recipient=${recipient}${parsed.hook ? ' (from hookData)' : ''}`)
+    await mintOnArc(ctx, store, messageHash, ctx.addresses.usdc, parsed.netAmount, recipient)
+    store.markKnown(messageHash)
+
+    // The job finds the burn's origin and bytes in its recorded source
+    queueAttestation(store, messageHash)
+  }
+
+  const poll = async () => {
+    if (stopped) return
+    try {
+      const latest = await client.getBlockNumber()
+      const last   = store.getCursor(cursor)
+
+      // With no checkpoint (first ever run), start from the current block so we
+      // never replay historical burns. Otherwise resume right after the checkpoint,
+      // scanning at most ~24 hours of blocks back.
+      let from = last !== undefined ? last + 1n : latest
+      if (latest - from + 1n > maxCatchupBlocks) {
+        const clamped = latest - maxCatchupBlocks + 1n
+        console.warn(`${tag} Checkpoint too old — skipping blocks ${from}-${clamped - 1n}`)
+        from = clamped
+      }
+
+      while (!stopped && from <= latest) {
+        const to = from + BLOCKS_PER_POLL - 1n < latest ? from + BLOCKS_PER_POLL - 1n : latest
+
+        const logs = await client.getLogs({
+          address:   source.cctp.messageTransmitter,
+          event:     MESSAGE_SENT_EVENT,
+          fromBlock: from,
+          toBlock:   to,
+        })
+
+        if (logs.length > 0) {
+          console.log(`${tag} Found ${logs.length} MessageSent log(s) in blocks ${from}-${to}`)
+        }
+
+        for (const log of logs) {
+          try {
+            await processLog(log)
+          } catch (err) {
+            console.error(`${tag} Log processing error:`, err)
+          }
+        }
+
+        // Checkpoint after each range so a crash mid catch-up resumes here
+        store.setCursor(cursor, to)
+        from = to + 1n
+      }
+
+      await verifyBurns(store, { source, client }, latest)
+    } catch (err) {
+      console.warn(`${tag} Poll error:`, (err as Error)?.message ?? err)
+    }
+    scheduleNext()
+  }
+
+  let timer: ReturnType<typeof setTimeout>
+  const scheduleNext = () => {
+    if (!stopped) timer = setTimeout(poll, source.pollIntervalMs)
+  }
+
+  poll() // first poll immediately
+  return () => {
+    stopped = true
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Who a burn's receivable is minted to: the recipient carried in its hookData,
+ * then one its sender assigned via initiate-cctp, then messageSender.
+ */
+function recipientFor(
+  ctx: AppCtx, store: Store, parsed: ReturnType<typeof parseCctpMessage>, sourceTxHash: `0x${string}` | undefined,
+): `0x${string}` {
+  return parsed.hook?.recipient
+    ?? (sourceTxHash ? store.getRecipientAssignment(sourceTxHash)?.recipient : undefined)
+    ?? parsed.messageSender
+    ?? ctx.account.address
+}
+
+/**
+ * Handler for 'mint' jobs: the deferred mint of a burn whose recipient window
+ * has closed (see processLog). Mint failures are retried by the queue.
+ */
+export function mintJobHandler(ctx: AppCtx, store: Store): JobHandler {
+  return {
+    run: job => runMint(ctx, store, job),
+    onGiveUp: job => alertOperator(`Minting the receivable for ${job.messageHash} failed after ${job.attempts} attempts: ${job.lastError}`, {
+      messageHash: job.messageHash,
+      job:         job.id,
+    }),
+  }
+}
+
+async function runMint(ctx: AppCtx, store: Store, job: Job): Promise<JobResult> {
+  const { messageHash } = job
+  if (store.isKnown(messageHash)) return { state: 'done', detail: 'already minted' }
+  const source = store.getSource(messageHash)
+  if (source?.verification === 'orphaned') return { state: 'cancelled', detail: 'burn orphaned by a source-chain reorg' }
+  if (!source?.messageBytes) throw new Error('the burn\'s message bytes are unknown')
+
+  const parsed    = parseCctpMessage(source.messageBytes)
+  const recipient = recipientFor(ctx, store, parsed, source.sourceTxHash)
+  console.log(`[mint-job] ${messageHash}: recipient window closed, minting to ${recipient}`)
+  const tokenId = await mintOnArc(ctx, store, messageHash, ctx.addresses.usdc, parsed.netAmount, recipient)
+  if (tokenId === null) throw new Error('mint failed')
+  store.markKnown(messageHash)
+  queueAttestation(store, messageHash)
+  return { state: 'done', detail: `minted #${tokenId} to ${recipient}` }
+}
+
+/**
+ * Record the block a burn was included in. Seeing it again in the same block
+ * changes nothing (beyond filling in message bytes missing from older
+ * records); seeing it in another block (re-included after a reorg) restarts
+ * verification. Orphaned burns stay orphaned for the operator.
+ */
+function recordBurn(store: Store, burn: Omit<BurnSource, 'verification'>): void {
+  const existing = store.getSource(burn.messageHash)
+  if (existing?.verification === 'orphaned') return
+  if (existing?.blockHash && existing.blockHash === burn.blockHash) {
+    if (!existing.messageBytes && burn.messageBytes) store.recordSource({ ...existing, messageBytes: burn.messageBytes })
+    return
+  }
+  store.recordSource({ ...burn, verification: 'pending' })
+}
+
+/**
+ * Block time of a burn, so burn_detected (and the attestation latency measured
+ * from it) does not depend on how late the watcher saw the burn. Undefined
+ * (wall clock is used) if the block cannot be fetched.
+ */
+async function burnTime(client: SourceCtx['client'], blockNumber: bigint | null | undefined): Promise<bigint | undefined> {
+  if (blockNumber == null) return undefined
+  try {
+    return (await client.getBlock({ blockNumber })).timestamp
+  } catch {
+    return undefined
+  }
+}
+
+/** True if the receipt holds a MessageSent from the MessageTransmitter with this message hash. */
+function receiptHasMessage(receipt: { logs: Log[] }, messageTransmitter: string, messageHash: string): boolean {
+  return receipt.logs.some(log => {
+    if (log.address.toLowerCase() !== messageTransmitter.toLowerCase()) return false
+    try {
+      const decoded = decodeEventLog({ abi: [MESSAGE_SENT_EVENT], data: log.data, topics: log.topics })
+      return keccak256(decoded.args.message).toLowerCase() === messageHash.toLowerCase()
+    } catch {
+      return false
+    }
+  })
+}
+
+/**
+ * Re-check this source chain's pending burns against the chain. A burn whose
+ * tx now sits in a different block was reorged and re-included: the new block
+ * is recorded and the confirmation count restarts. A burn still in its block
+ * once it is `confirmations` deep is confirmed. A burn whose tx is gone by
+ * then is orphaned: its receivable gets the 'orphaned' status (so it is never
+ * auto-settled), the transfer fails, and the operator is alerted.
+ */
+export async function verifyBurns(store: Store, { source, client }: SourceCtx, latest: bigint): Promise<void> {
+  const tag = `[source-watcher:${source.key}]`
+  const depth = BigInt(source.confirmations)
+
+  for (const burn of store.pendingSources(source.domain)) {
+    const receipt = await client.getTransactionReceipt({ hash: burn.sourceTxHash }).catch(err => {
+      if (err instanceof TransactionReceiptNotFoundError) return null
+      throw err
+    })
+
+    if (receipt && receipt.status === 'success' && receiptHasMessage(receipt, source.cctp.messageTransmitter, burn.messageHash)) {
+      if (burn.blockHash && receipt.blockHash !== burn.blockHash) {
+        console.warn(`${tag} Reorg: burn ${burn.messageHash} moved from block ${burn.blockNumber} to ${receipt.blockNumber}`)
+        store.recordSource({ ...burn, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash })
+      } else if (latest - receipt.blockNumber + 1n >= depth) {
+        console.log(`${tag} Burn ${burn.messageHash} confirmed (${depth} blocks)`)
+        store.recordSource({ ...burn, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash, verification: 'confirmed' })
+      }
+      continue
+    }
+
+    // Gone from the chain (or reverted after a reorg). Give it until the
+    // original block would have been confirmed to be re-included.
+    const seenAt = burn.blockNumber ?? latest
+    if (latest - seenAt + 1n < depth) {
+      console.warn(`${tag} Reorg: burn ${burn.messageHash} (tx ${burn.sourceTxHash}) is no longer in block ${burn.blockNumber}, waiting for re-inclusion`)
+      continue
+    }
+
+    const reason = `burn tx ${burn.sourceTxHash} was reorged out of ${source.name} block ${burn.blockNumber}`
+    store.recordSource({ ...burn, verification: 'orphaned' })
+    const receivable = store.getByMessageHash(burn.messageHash)
+    if (receivable) updateStatus(store, receivable.tokenId, 'orphaned', reason)
+    advanceTransfer(store, burn.messageHash, { stage: 'failed', error: `orphaned: ${reason}` })
+    alertOperator(`Orphaned burn ${burn.messageHash}${receivable ? ` backs receivable #${receivable.tokenId}` : ''}: ${reason}`, {
+      messageHash:  burn.messageHash,
+      sourceTxHash: burn.sourceTxHash,
+      sourceDomain: burn.sourceDomain,
+      tokenId:      receivable?.tokenId.toString() ?? null,
+    })
+  }
+}
+
+/**
+ * Manually track a CCTP transfer by source-chain tx hash.
+ * Called from POST /api/bridge/initiate-cctp.
+ */
+export async function trackSourceTx(
+  ctx: AppCtx,
+  store: Store,
+  { source, client }: SourceCtx,
+  txHash: `0x${string}`,
+  assignment?: SignedRecipient,
+): Promise<{ tokenId: string; messageHash: string } | null> {
+  const tag = `[source-tracker:${source.key}]`
+  console.log(`${tag} Tracking ${source.name} tx ${txHash}`)
+
+  let receipt
+  try {
+    receipt = await client.waitForTransactionReceipt({
+      hash:    txHash,
+      timeout: 180_000,
+    })
+  } catch {
+    console.error(`${tag} Timed out waiting for receipt of ${txHash}`)
+    return null
+  }
+
+  if (receipt.status !== 'success') {
+    console.error(`${tag} Tx reverted on ${source.name}: ${txHash}`)
+    return null
+  }
+
+  const meantimeLower = ctx.addresses.meantime.toLowerCase()
+  const mtLower = source.cctp.messageTransmitter.toLowerCase()
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== mtLower) continue
+    try {
+      const decoded = decodeEventLog({
+        abi:       [MESSAGE_SENT_EVENT],
+        eventName: 'MessageSent',
+        data:      log.data,
+        topics:    log.topics as [`0x${string}`, ...`0x${string}`[]],
+      })
+
+      const messageBytes = decoded.args.message as `0x${string}`
+      if (decodeCctpMessage(messageBytes).destinationDomain !== ARC_CCTP.domain) continue
+      const parsed = parseCctpMessage(messageBytes)
+      if (parsed.mintRecipient?.toLowerCase() !== meantimeLower) continue
+
+      const messageHash  = keccak256(messageBytes)
+      const inboundToken = ctx.addresses.usdc
+
+      // Only the burn's sender may send its receivable elsewhere, and only
+      // while it is not yet bound to someone else
+      if (assignment) {
+        await verifyRecipientAssignment({
+          ...assignment,
+          sourceChainId: source.chainId,
+          meantime:      ctx.addresses.meantime,
+          sourceTxHash:  txHash,
+          sourceDomain:  source.domain,
+          messageSender: parsed.messageSender,
+        })
+        const wanted = assignment.recipient.toLowerCase()
+        if (parsed.hook && parsed.hook.recipient.toLowerCase() !== wanted) {
+          throw new RecipientConflictError(`This burn's hookData already names recipient ${parsed.hook.recipient}`)
+        }
+        if (store.isKnown(messageHash)) {
+          const owner = store.getByMessageHash(messageHash)?.beneficialOwner
+          if (owner?.toLowerCase() !== wanted) {
+            throw new RecipientConflictError(owner
+              ? `The receivable for this burn was already minted to ${owner}`
+              : 'The receivable for this burn was already minted and settled')
+          }
+        }
+        store.putRecipientAssignment({
+          sourceTxHash: txHash, sourceDomain: source.domain, recipient: assignment.recipient,
+          signer: parsed.messageSender!, signature: assignment.signature,
+        })
+      }
+
+      recordBurn(store, {
+        messageHash, sourceTxHash: txHash, sourceDomain: source.domain, messageBytes,
+        blockNumber: receipt.blockNumber, blockHash: receipt.blockHash,
+      })
+      const at = await burnTime(client, receipt.blockNumber)
+      advanceTransfer(store, messageHash, { stage: 'burn_detected', txHash, ...(at !== undefined && { at }) })
+
+      // If already known (watcher beat us), just ensure its job is queued
+      if (store.isKnown(messageHash)) {
+        console.log(`${tag} ${messageHash} already known, ensuring attestation job`)
+        queueAttestation(store, messageHash)
+        const existing = store.getByMessageHash(messageHash)
+        return existing ? { tokenId: existing.tokenId.toString(), messageHash } : null
+      }
+
+      const resolvedRecipient = recipientFor(ctx, store, parsed, txHash)
+
+      const tokenId = await mintOnArc(ctx, store, messageHash, inboundToken, parsed.netAmount, resolvedRecipient)
+      store.markKnown(messageHash)
+
+      // The watcher's deferred mint (if any) has nothing left to do
+      const pending = store.getJob(jobId('mint', messageHash))
+      if (pending?.state === 'queued') {
+        store.putJob({ ...pending, state: 'done', detail: `minted by initiate-cctp to ${resolvedRecipient}`, updatedAt: Date.now() })
+      }
+
+      queueAttestation(store, messageHash)
+
+      if (!tokenId) {
+        const fallback = store.getByMessageHash(messageHash)
+        return fallback ? { tokenId: fallback.tokenId.toString(), messageHash } : null
+      }
+
+      return { tokenId: tokenId.toString(), messageHash }
+    } catch (err) {
+      if (err instanceof RecipientAssignmentError || err instanceof RecipientConflictError) throw err
+      // Not a MessageSent log from the MessageTransmitter, skip
+    }
+  }
+
+  console.warn(`${tag} No matching MessageSent found in tx ${txHash}`)
+  return null
+}
+
+async function mintOnArc(
+  ctx: AppCtx,
+  store: Store,
+  messageHash: `0x${string}`,
+  inboundToken: `0x${string}`,
+  amount: bigint,
+  recipient: `0x${string}`,
+): Promise<bigint | null> {
+  try {
+    // Check on-chain first — both the source watcher and trackSourceTx can race here
+    const existing = await ctx.publicClient.readContract({
+      address:      ctx.addresses.meantime,
+      abi:          MEANTIME_ABI,
+      functionName: 'tokenByMessageHash',
+      args:         [messageHash],
+    }).catch(() => 0n) as bigint
+    if (existing !== 0n) {
+      console.log(`[mint-on-arc] ${messageHash} already minted (tokenId=${existing}), skipping`)
+      advanceTransfer(store, messageHash, { stage: 'minted', tokenId: existing })
+      return existing
+    }
+
+    console.log(`[mint-on-arc] Minting: hash=${messageHash} amount=${amount} recipient=${recipient}`)
+    const txHash = await enqueueTx(() =>
+      ctx.walletClient.writeContract({
+        address:      ctx.addresses.meantime,
+        abi:          MEANTIME_ABI,
+        functionName: 'mint',
+        args:         [messageHash, inboundToken, amount, recipient],
+        account:      ctx.account,
+        chain:        null,
+      }),
+    )
+    console.log(`[mint-on-arc] Tx submitted: ${txHash}`)
+    const receipt = await ctx.publicClient.waitForTransactionReceipt({ hash: txHash })
+    for (const log of receipt.logs) {
+      try {
+        const decoded = decodeEventLog({
+          abi:       MEANTIME_ABI,
+          eventName: 'Minted',
+          data:      log.data,
+          topics:    log.topics as [`0x${string}`, ...`0x${string}`[]],
+        })
+        const tokenId = decoded.args.tokenId as bigint
+        console.log(`[mint-on-arc] Minted tokenId=${tokenId}`)
+        advanceTransfer(store, messageHash, { stage: 'minted', txHash, tokenId })
+        return tokenId
+      } catch { /* not this log */ }
+    }
+  } catch (err) {
+    console.error('[mint-on-arc] Failed:', err)
+    advanceTransfer(store, messageHash, { stage: 'failed', error: `mint failed: ${errorMessage(err)}` })
+  }
+  return null
+}
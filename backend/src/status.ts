@@ -0,0 +1,12 @@
+// Applies receivable status changes and broadcasts them over SSE.
+// Store.setStatus() validates the transition; invalid ones are dropped there.
+
+import { type Store, type ReceivableStatus } from './store.js'
+
+/** Returns whether anything changed. */
+export function updateStatus(store: Store, tokenId: bigint, status: ReceivableStatus, reason: string | null = null): boolean {
+  if (!store.setStatus(tokenId, status, reason)) return false
+  console.log(`[status] tokenId=${tokenId}: ${status}${reason ? ` (${reason})` : ''}`)
+  store.emit({ type: 'status', tokenId, status, statusReason: reason })
+  return true
+}
@@ -1,19 +1,293 @@
-// In-memory state for active receivables.
+// State for active receivables, held in memory and optionally persisted.
 // Updated by watcher.ts when contract events arrive.
 
+import { type TransferSpeed } from './cctpMessage.js'
+
 export interface Listing {
   reservePrice: bigint
   paymentToken: `0x${string}`
+  /** Unix seconds, from the Listed event. Absent on listings recorded before it was tracked. */
+  listedAt?:    bigint
+}
+
+/**
+ * Where a receivable is in settlement. Settled receivables leave the store;
+ * only the final state archived in their history has the terminal 'settled'.
+ *   awaiting_attestation  minted, Circle has not attested yet
+ *   attested              attestation received, completing CCTP on Arc
+ *   auto_settling         funding MeanTime via mock mint (no attestation, or a mock attestation rejected)
+ *   settling              settle() submitted or SettleAttempted seen on Arc
+ *   settle_failed         settle() or receiveMessage reverted (e.g. InsufficientBalance); see statusReason
+ *   needs_operator        settlement is waiting for an operator (strict or manual SETTLEMENT_POLICY:
+ *                         not attested in time, receiveMessage failed, or awaiting approval); see statusReason
+ *   orphaned              the backing burn was reorged out of the source chain; never settled
+ *   settled               settled on Arc; archived receivables only
+ */
+export type ReceivableStatus =
+  | 'awaiting_attestation'
+  | 'attested'
+  | 'auto_settling'
+  | 'settling'
+  | 'settle_failed'
+  | 'needs_operator'
+  | 'orphaned'
+  | 'settled'
+
+const STATUS_TRANSITIONS: Record<ReceivableStatus, readonly ReceivableStatus[]> = {
+  awaiting_attestation: ['attested', 'auto_settling', 'settling', 'settle_failed', 'needs_operator', 'orphaned'],
+  attested:             ['auto_settling', 'settling', 'settle_failed', 'needs_operator', 'orphaned'],
+  auto_settling:        ['settling', 'settle_failed', 'needs_operator', 'orphaned'],
+  settling:             ['settle_failed', 'orphaned'],
+  // Retries: a fresh attestation, a mock-mint top-up or another settle()
+  settle_failed:        ['attested', 'auto_settling', 'settling', 'needs_operator', 'orphaned'],
+  // Resumes once attested or approved
+  needs_operator:       ['attested', 'auto_settling', 'settling', 'settle_failed', 'orphaned'],
+  // Terminal: needs an operator
+  orphaned:             [],
+  settled:              [],
+}
+
+export function canTransition(from: ReceivableStatus, to: ReceivableStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to)
 }
 
 export interface Receivable {
+  tokenId:           bigint
+  cctpMessageHash:   `0x${string}`
+  inboundToken:      `0x${string}`
+  inboundAmount:     bigint
+  /** Block timestamp (unix seconds) of the mint, as stored by the contract. */
+  mintedAt:          bigint
+  /**
+   * When settlement is expected (unix seconds): mint time plus the expected
+   * attestation time for the burn's source domain. Null if the mint time is unknown.
+   */
+  estimatedSettleAt: bigint | null
+  beneficialOwner:   `0x${string}`
+  listing:           Listing | null
+  status:            ReceivableStatus
+  /** Why the current status was entered, e.g. the revert reason for settle_failed. */
+  statusReason:      string | null
+  /** Fast or Standard Transfer, from the burn message. Null if the burn's bytes are unknown. */
+  transferSpeed:     TransferSpeed | null
+  /**
+   * Gross USDC burned on the source chain. inboundAmount is this less
+   * Circle's fee (at most maxFee). Null if the burn's bytes are unknown.
+   */
+  burnAmount:        bigint | null
+  /**
+   * The listing the depositor asked for in the burn's hookData (see
+   * hookData.ts), for the owner to confirm. Null if none was asked for.
+   */
+  requestedListing:  Omit<Listing, 'listedAt'> | null
+}
+
+/**
+ * Whether a burn is still on the source chain.
+ *   pending    seen, not yet past the chain's confirmation depth
+ *   confirmed  re-verified after enough confirmations
+ *   orphaned   reorged out and not re-included
+ */
+export type BurnVerification = 'pending' | 'confirmed' | 'orphaned'
+
+/** Where a CCTP burn came from, recorded when the source-chain watcher sees it. */
+export interface BurnSource {
+  messageHash:  `0x${string}`
+  sourceTxHash: `0x${string}`
+  sourceDomain: number
+  /**
+   * Raw CCTP message from the MessageSent event, kept so settlement after a
+   * restart can still call receiveMessage. Absent on burns recorded before it
+   * was stored.
+   */
+  messageBytes?: `0x${string}`
+  /**
+   * Block the burn was included in, re-checked to detect reorgs. Absent on
+   * burns recorded before reorg tracking, which count as confirmed.
+   */
+  blockNumber?:  bigint
+  blockHash?:    `0x${string}`
+  verification?: BurnVerification
+}
+
+/**
+ * The Arc address a burn's receivable is minted to, chosen by the burn's
+ * messageSender in an EIP-712 signature (see recipientAuth.ts). Only verified
+ * assignments are stored.
+ */
+export interface RecipientAssignment {
+  sourceTxHash: `0x${string}`
+  sourceDomain: number
+  recipient:    `0x${string}`
+  /** The burn's messageSender, who signed the assignment. */
+  signer:       `0x${string}`
+  signature:    `0x${string}`
+}
+
+interface HistoryEntryBase {
+  tokenId:     bigint
+  /** Block timestamp (unix seconds) of the event. */
+  timestamp:   bigint
+  blockNumber: bigint
+  txHash:      `0x${string}` | null
+  logIndex:    number | null
+}
+
+/** One on-chain lifecycle event of a receivable, as recorded in its history. */
+export type HistoryEntry = HistoryEntryBase & (
+  | { type: 'minted';   cctpMessageHash: `0x${string}`; inboundToken: `0x${string}`; inboundAmount: bigint; recipient: `0x${string}` }
+  | { type: 'listed';   reservePrice: bigint; paymentToken: `0x${string}` }
+  | { type: 'delisted' }
+  | { type: 'filled';   buyer: `0x${string}`; seller: `0x${string}`; paymentToken: `0x${string}`; price: bigint }
+  | { type: 'settled';  recipient: `0x${string}`; amount: bigint }
+)
+
+/** Full lifecycle of a receivable. Kept after settlement, unlike Receivable. */
+export interface HistoryRecord {
   tokenId:         bigint
   cctpMessageHash: `0x${string}`
   inboundToken:    `0x${string}`
   inboundAmount:   bigint
   mintedAt:        bigint
-  beneficialOwner: `0x${string}`
-  listing:         Listing | null
+  settledAt:       bigint | null
+  /** The receivable as it left the store on settlement, with status 'settled'; null while active. */
+  final:           Receivable | null
+  /** Ordered by (blockNumber, logIndex). */
+  entries:         HistoryEntry[]
+}
+
+export interface HistoryFilter {
+  /** Address that took part at any point: minted-to, seller, buyer or settled-to. */
+  owner?: string
+  /** Inbound token, or a payment token used in any listing or fill. */
+  token?: string
+  /** Only records with at least one entry in [from, to] (unix seconds). */
+  from?:  bigint
+  to?:    bigint
+}
+
+/** One secondary-market sale of a receivable, from a Filled event. */
+export interface Trade {
+  tokenId:      bigint
+  buyer:        `0x${string}`
+  seller:       `0x${string}`
+  paymentToken: `0x${string}`
+  price:        bigint
+  /** Seconds between mint and fill (the event's filledAt). */
+  ageAtFill:    bigint
+  /** Block timestamp (unix seconds) of the fill. */
+  timestamp:    bigint
+  blockNumber:  bigint
+  txHash:       `0x${string}` | null
+  logIndex:     number | null
+}
+
+export interface TradeFilter {
+  tokenId?:      bigint
+  /** Buyer or seller. */
+  address?:      string
+  paymentToken?: string
+  /** Only trades in [from, to] (unix seconds). */
+  from?:         bigint
+  to?:           bigint
+  limit?:        number
+}
+
+/** One observed burn -> attestation duration. */
+export interface AttestationSample {
+  messageHash:  `0x${string}`
+  sourceDomain: number
+  /** Absent in samples recorded before Fast Transfers were told apart: standard. */
+  transferSpeed?: TransferSpeed
+  /** Seconds from the burn's block time until the attestation was seen complete. */
+  seconds:      number
+  /** Unix seconds when the attestation was seen complete. */
+  observedAt:   bigint
+}
+
+/**
+ * Durable minting, attestation and settlement work, run by jobQueue.ts. One
+ * job per kind and message hash (id `<kind>:<lowercased hash>`).
+ *   mint         mint a burn's receivable once its sender's window to assign
+ *                a recipient has closed (sourceWatcher.ts)
+ *   attestation  poll the attestation provider until the message is attested
+ *                (or auto-settle times out), then queue the settlement
+ *   settlement   fund MeanTime (receiveMessage, or a mock mint without a real
+ *                attestation) and call settle()
+ * A 'held' job waits for an operator (see settlementPolicy.ts) and only runs
+ * again once approved.
+ */
+export type JobKind  = 'mint' | 'attestation' | 'settlement'
+export type JobState = 'queued' | 'running' | 'held' | 'done' | 'failed' | 'cancelled'
+
+export interface Job {
+  id:           string
+  kind:         JobKind
+  messageHash:  `0x${string}`
+  state:        JobState
+  /** Failed runs so far; the job fails for good after MAX_JOB_ATTEMPTS. */
+  attempts:     number
+  /** Runs that found nothing to do yet (e.g. attestation still pending); these do not count as attempts. */
+  polls:        number
+  /** Epoch milliseconds. */
+  createdAt:    number
+  updatedAt:    number
+  /** When a queued job runs next. */
+  runAt:        number
+  /** Outcome of the latest run, e.g. 'pending_confirmations via v2'. */
+  detail:       string | null
+  lastError:    string | null
+  /** Settlement: attestation to receive with; null settles by mock mint. */
+  attestation?:  `0x${string}` | null
+  /** Settlement: message bytes, when the burn's stored record lacks them. */
+  messageBytes?: `0x${string}`
+  /** Settlement: MeanTime already received the USDC, so a retry only calls settle(). */
+  funded?:       boolean
+  /** Settlement: epoch ms an operator approved (or retried) it. */
+  approvedAt?:   number
+}
+
+export interface JobFilter {
+  state?:       JobState
+  kind?:        JobKind
+  messageHash?: string
+  limit?:       number
+}
+
+/** Stages of a CCTP transfer through MeanTime, in the order they normally occur. */
+export const TRANSFER_STAGES = [
+  'burn_detected', 'minted', 'attestation_pending', 'attested', 'received', 'settled', 'failed',
+] as const
+export type TransferStage = typeof TRANSFER_STAGES[number]
+
+export interface TransferStageEntry {
+  stage:  TransferStage
+  /** Unix seconds: block time for on-chain stages where known, otherwise wall clock. */
+  at:     bigint
+  txHash: `0x${string}` | null
+  /** Set on 'failed' entries. */
+  error:  string | null
+}
+
+/** End-to-end progress of one source-chain burn, keyed by CCTP message hash. */
+export interface Transfer {
+  messageHash:  `0x${string}`
+  sourceTxHash: `0x${string}` | null
+  sourceDomain: number | null
+  tokenId:      bigint | null
+  /** Furthest stage reached, or 'failed' if the latest entry is a failure. */
+  stage:        TransferStage
+  /** In the order they were recorded. */
+  stages:       TransferStageEntry[]
+}
+
+export interface TransferUpdate {
+  stage:    TransferStage
+  /** Defaults to now. */
+  at?:      bigint
+  txHash?:  `0x${string}` | null
+  tokenId?: bigint
+  error?:   string
 }
 
 export type StoreEvent =
@@ -22,78 +296,944 @@ export type StoreEvent =
   | { type: 'delisted'; tokenId: bigint }
   | { type: 'filled';   tokenId: bigint; newOwner: `0x${string}` }
   | { type: 'settled';  tokenId: bigint }
+  | { type: 'status';   tokenId: bigint; status: ReceivableStatus; statusReason: string | null }
+  | { type: 'transfer'; transfer: Transfer }
+  | { type: 'trade';    trade: Trade }
+
+export type ReceivableSort = 'amount' | 'age' | 'reservePrice'
+
+/** Filters, ordering and pagination for Store.query(). All filters are ANDed. */
+export interface ReceivableQuery {
+  owner?:        string
+  listed?:       boolean
+  inboundToken?: string
+  /** Payment token of the active listing (implies listed). */
+  paymentToken?: string
+  minAmount?:    bigint
+  maxAmount?:    bigint
+  mintedAfter?:  bigint
+  mintedBefore?: bigint
+  /** Default: tokenId. 'age' ascending means youngest first. Unlisted sort last by reservePrice. */
+  sort?:         ReceivableSort
+  order?:        'asc' | 'desc'
+  limit?:        number
+  /** Opaque cursor from a previous page's nextCursor. */
+  cursor?:       string
+}
+
+export interface ReceivablePage {
+  items:      Receivable[]
+  nextCursor: string | null
+}
+
+/** A StoreEvent tagged with its position in the event stream. */
+export interface SequencedEvent {
+  seq:   number
+  event: StoreEvent
+}
 
 export interface Store {
   get(tokenId: bigint): Receivable | undefined
+  /** Active receivable minted for a CCTP message hash. */
+  getByMessageHash(hash: string): Receivable | undefined
   snapshot(): Receivable[]
+  /** Indexed lookup with filtering, sorting and cursor pagination. */
+  query(q: ReceivableQuery): ReceivablePage
   upsert(r: Receivable): void
   patch(tokenId: bigint, update: Partial<Receivable>): void
+  /** Drop a settled receivable, archiving its final state in its history record. */
   remove(tokenId: bigint): void
-  subscribe(fn: (event: StoreEvent) => void): () => void
+  /**
+   * Move a receivable to a new status, or give its current status a new
+   * reason. Returns false (and changes nothing) for unknown tokens, the
+   * current status and reason, or a transition the state machine does not allow.
+   */
+  setStatus(tokenId: bigint, status: ReceivableStatus, reason?: string | null): boolean
+  /** Subscribers receive each event with its sequence number. */
+  subscribe(fn: (event: StoreEvent, seq: number) => void): () => void
+  /** Assign the next sequence number, journal the event and notify subscribers. */
   emit(event: StoreEvent): void
+  /** Sequence number of the most recent event (0 before any). */
+  lastSeq(): number
+  /**
+   * Events emitted after `seq`, oldest first. Returns null when the journal
+   * no longer reaches back that far (or `seq` is from the future), in which
+   * case the caller should fall back to a full snapshot.
+   */
+  eventsSince(seq: number): SequencedEvent[] | null
   /** Record a CCTP message hash as known (minted or settled). */
   markKnown(hash: string): void
   /** True if the hash was ever minted (even if later settled). */
   isKnown(hash: string): boolean
+  /** Last block a watcher fully processed, keyed by watcher name. */
+  getCursor(name: string): bigint | undefined
+  setCursor(name: string, block: bigint): void
+  /**
+   * Append a lifecycle entry to a receivable's history. A 'minted' entry
+   * creates the record; entries for tokens with no record are ignored, and
+   * an entry already recorded (same txHash + logIndex) is not added twice,
+   * though one recorded with timestamp 0 takes the new entry's timestamp.
+   */
+  recordHistory(entry: HistoryEntry): void
+  getHistory(tokenId: bigint): HistoryRecord | undefined
+  /** History record (active or settled) for a CCTP message hash. */
+  getHistoryByMessageHash(hash: string): HistoryRecord | undefined
+  /** History records matching the filter, most recently minted first. */
+  queryHistory(filter?: HistoryFilter): HistoryRecord[]
+  /** Remember which source-chain tx and domain a burn came from. */
+  recordSource(source: BurnSource): void
+  getSource(messageHash: string): BurnSource | undefined
+  /** Message hashes of every burn recorded for a source tx (usually one). */
+  messageHashesForSourceTx(txHash: string): `0x${string}`[]
+  /** Burns from a source domain still awaiting re-verification. */
+  pendingSources(sourceDomain: number): BurnSource[]
+  /** Remember a verified recipient assignment, replacing any for the same source tx. */
+  putRecipientAssignment(assignment: RecipientAssignment): void
+  getRecipientAssignment(sourceTxHash: string): RecipientAssignment | undefined
+  /**
+   * Record a fill. Returns false if the same fill (txHash + logIndex) was
+   * already recorded, e.g. on a re-scanned range; only a timestamp recorded
+   * as 0 is then filled in.
+   */
+  recordTrade(trade: Trade): boolean
+  /** Trades matching the filter, most recent first. */
+  queryTrades(filter?: TradeFilter): Trade[]
+  /**
+   * Record an attestation latency observation. Only the most recent
+   * ATTESTATION_WINDOW samples per source domain and transfer speed are
+   * kept; a message already sampled is ignored.
+   */
+  recordAttestationSample(sample: AttestationSample): void
+  /** Kept samples for a source domain (or all domains), optionally of one speed; oldest first per speed. */
+  attestationSamples(sourceDomain?: number, transferSpeed?: TransferSpeed): AttestationSample[]
+  /** Insert or replace a job (by id). */
+  putJob(job: Job): void
+  getJob(id: string): Job | undefined
+  /** Jobs matching the filter, most recently updated first. */
+  queryJobs(filter?: JobFilter): Job[]
+  /** Drop done and cancelled jobs last updated before `before` (epoch ms). Returns how many were dropped. */
+  pruneJobs(before: number): number
+  getTransfer(messageHash: string): Transfer | undefined
+  /**
+   * Record that a transfer reached a stage. A 'burn_detected' update creates
+   * the transfer, taking its origin from recordSource(); updates for unknown
+   * transfers are ignored. A stage already reached is not recorded again
+   * (failures always are). Returns the updated transfer, or undefined if
+   * nothing changed.
+   */
+  advanceTransfer(messageHash: string, update: TransferUpdate): Transfer | undefined
+}
+
+/** Everything the store needs to survive a restart. */
+export interface PersistedState {
+  receivables: Receivable[]
+  knownHashes: string[]
+  cursors:     Record<string, bigint>
+  history:     HistoryRecord[]
+  /** Kept so sequence numbers stay monotonic across restarts. */
+  lastSeq:     number
+  sources:     BurnSource[]
+  recipientAssignments: RecipientAssignment[]
+  transfers:   Transfer[]
+  trades:      Trade[]
+  attestationSamples: AttestationSample[]
+  jobs:        Job[]
 }
 
-export function createStore(): Store {
+/**
+ * What one batch of mutations changed: the current version of every record
+ * it touched (keyed like the store's maps), the keys of removed receivables
+ * and jobs, and the latest sequence number.
+ */
+export interface StoreChanges extends Partial<PersistedState> {
+  lastSeq:             number
+  removedReceivables?: bigint[]
+  removedJobs?:        string[]
+}
+
+/**
+ * Durability hook for createStore(). load() runs once at construction;
+ * append() receives the changes of every batch of mutations, plus the full
+ * state on demand for adapters that compact.
+ */
+export interface StorePersistence {
+  load(): PersistedState | undefined
+  append(changes: StoreChanges, state: () => PersistedState): void
+}
+
+// How many recent events are kept for SSE resumption
+const JOURNAL_SIZE = 1000
+/** Attestation latency samples kept per source domain (rolling window). */
+export const ATTESTATION_WINDOW = 100
+
+/**
+ * Create a Store. Without a persistence adapter this is purely in-memory
+ * (what the tests use); with one, state is loaded on creation and what each
+ * batch of mutations changed is written back. The subscribe/emit bus is
+ * identical either way.
+ */
+export function createStore(persistence?: StorePersistence): Store {
   const receivables = new Map<bigint, Receivable>()
-  const subscribers = new Set<(event: StoreEvent) => void>()
+  const subscribers = new Set<(event: StoreEvent, seq: number) => void>()
   const knownHashes = new Set<string>()
+  const cursors     = new Map<string, bigint>()
+  const history     = new Map<bigint, HistoryRecord>()
+  const historyByHash = new Map<string, bigint>()
+  const sources     = new Map<string, BurnSource>()    // by lowercased message hash
+  const sourceTxIndex = new Map<string, Set<string>>() // lowercased tx hash -> message hashes
+  const putSource = (src: BurnSource) => {
+    const hash = src.messageHash.toLowerCase()
+    sources.set(hash, src)
+    const tx = src.sourceTxHash.toLowerCase()
+    let set = sourceTxIndex.get(tx)
+    if (!set) sourceTxIndex.set(tx, set = new Set())
+    set.add(hash)
+  }
+  const assignments = new Map<string, RecipientAssignment>()  // by lowercased source tx hash
+  const transfers   = new Map<string, Transfer>()  // by lowercased message hash
+  const jobs        = new Map<string, Job>()       // by id
+  const jobsByState = new Map<JobState, Set<string>>()  // ids, so the scheduler scans only queued jobs
+  const putJobEntry = (job: Job) => {
+    const previous = jobs.get(job.id)
+    if (previous) jobsByState.get(previous.state)?.delete(job.id)
+    jobs.set(job.id, job)
+    let ids = jobsByState.get(job.state)
+    if (!ids) jobsByState.set(job.state, ids = new Set())
+    ids.add(job.id)
+  }
+  const trades: Trade[] = []                         // in chain order
+  const samples = new Map<string, AttestationSample[]>()  // by `<source domain>:<speed>`, oldest first
+  const sampleKey = (domain: number, speed: TransferSpeed = 'standard') => `${domain}:${speed}`
+  const putSample = (sample: AttestationSample) => {
+    const key = sampleKey(sample.sourceDomain, sample.transferSpeed)
+    let window = samples.get(key)
+    if (!window) samples.set(key, window = [])
+    const hash = sample.messageHash.toLowerCase()
+    if (window.some(s => s.messageHash.toLowerCase() === hash)) return false
+    window.push(sample)
+    if (window.length > ATTESTATION_WINDOW) window.shift()
+    return true
+  }
+  const journal: SequencedEvent[] = []
+  let seq = 0
+
+  // Secondary indexes over active receivables (addresses lowercased)
+  const byMessageHash  = new Map<string, bigint>()
+  const byOwner        = new Map<string, Set<bigint>>()
+  const byInboundToken = new Map<string, Set<bigint>>()
+  const byPaymentToken = new Map<string, Set<bigint>>()
+  const listedIds      = new Set<bigint>()
+
+  const addTo = (index: Map<string, Set<bigint>>, key: string, id: bigint) => {
+    const k = key.toLowerCase()
+    let set = index.get(k)
+    if (!set) index.set(k, set = new Set())
+    set.add(id)
+  }
+  const removeFrom = (index: Map<string, Set<bigint>>, key: string, id: bigint) => {
+    const k = key.toLowerCase()
+    const set = index.get(k)
+    if (!set) return
+    set.delete(id)
+    if (set.size === 0) index.delete(k)
+  }
+  const index = (r: Receivable) => {
+    byMessageHash.set(r.cctpMessageHash.toLowerCase(), r.tokenId)
+    addTo(byOwner, r.beneficialOwner, r.tokenId)
+    addTo(byInboundToken, r.inboundToken, r.tokenId)
+    if (r.listing) {
+      listedIds.add(r.tokenId)
+      addTo(byPaymentToken, r.listing.paymentToken, r.tokenId)
+    }
+  }
+  const unindex = (r: Receivable) => {
+    byMessageHash.delete(r.cctpMessageHash.toLowerCase())
+    removeFrom(byOwner, r.beneficialOwner, r.tokenId)
+    removeFrom(byInboundToken, r.inboundToken, r.tokenId)
+    if (r.listing) {
+      listedIds.delete(r.tokenId)
+      removeFrom(byPaymentToken, r.listing.paymentToken, r.tokenId)
+    }
+  }
+  const put = (r: Receivable) => {
+    const existing = receivables.get(r.tokenId)
+    if (existing) unindex(existing)
+    receivables.set(r.tokenId, r)
+    index(r)
+  }
+
+  const initial = persistence?.load()
+  if (initial) {
+    for (const h of initial.history ?? []) {
+      // Files written before final states were archived
+      history.set(h.tokenId, { ...h, final: h.final ?? (h.settledAt !== null ? finalFromHistory(h) : null) })
+      historyByHash.set(h.cctpMessageHash.toLowerCase(), h.tokenId)
+    }
+    for (const r of initial.receivables) {
+      put({
+        ...r,
+        // Files written before statuses existed
+        status:            r.status ?? 'awaiting_attestation',
+        statusReason:      r.statusReason ?? null,
+        // Files written when mintedAt held the block number; history has the block time
+        mintedAt:          history.get(r.tokenId)?.mintedAt || r.mintedAt,
+        estimatedSettleAt: r.estimatedSettleAt ?? null,
+        transferSpeed:     r.transferSpeed ?? null,
+        burnAmount:        r.burnAmount ?? null,
+        requestedListing:  r.requestedListing ?? null,
+      })
+    }
+    for (const h of initial.knownHashes) knownHashes.add(h)
+    for (const [name, block] of Object.entries(initial.cursors ?? {})) cursors.set(name, block)
+    for (const src of initial.sources ?? []) putSource(src)
+    for (const a of initial.recipientAssignments ?? []) assignments.set(a.sourceTxHash.toLowerCase(), a)
+    for (const t of initial.transfers ?? []) transfers.set(t.messageHash.toLowerCase(), t)
+    // Appended trades are not in chain order; sort() is stable for equal positions
+    trades.push(...initial.trades ?? [])
+    trades.sort(compareEntries)
+    for (const sample of initial.attestationSamples ?? []) putSample(sample)
+    for (const job of initial.jobs ?? []) putJobEntry(job)
+    seq = initial.lastSeq ?? 0
+  }
+
+  const state = (): PersistedState => ({
+    receivables: Array.from(receivables.values()),
+    knownHashes: Array.from(knownHashes),
+    cursors:     Object.fromEntries(cursors),
+    history:     Array.from(history.values()),
+    lastSeq:     seq,
+    sources:     Array.from(sources.values()),
+    recipientAssignments: Array.from(assignments.values()),
+    transfers:   Array.from(transfers.values()),
+    trades,
+    attestationSamples: Array.from(samples.values()).flat(),
+    jobs:        Array.from(jobs.values()),
+  })
+
+  // Keys touched since the last write, so each write carries only what
+  // changed. Null without persistence, so the in-memory store tracks nothing.
+  let dirty = persistence ? emptyDirty() : null
+  const takeChanges = (d: Dirty): StoreChanges => {
+    const present = <K, V>(keys: Set<K>, map: Map<K, V>) => some(Array.from(keys, k => map.get(k)!).filter(Boolean))
+    const absent  = <K, V>(keys: Set<K>, map: Map<K, V>) => some(Array.from(keys).filter(k => !map.has(k)))
+    return {
+      receivables: present(d.receivables, receivables),
+      removedReceivables: absent(d.receivables, receivables),
+      knownHashes: some(Array.from(d.knownHashes)),
+      cursors:     d.cursors.size > 0 ? Object.fromEntries(Array.from(d.cursors, name => [name, cursors.get(name)!])) : undefined,
+      history:     present(d.history, history),
+      lastSeq:     seq,
+      sources:     present(d.sources, sources),
+      recipientAssignments: present(d.assignments, assignments),
+      transfers:   present(d.transfers, transfers),
+      trades:      some(d.trades),
+      attestationSamples: some(d.samples),
+      jobs:        present(d.jobs, jobs),
+      removedJobs: absent(d.jobs, jobs),
+    }
+  }
+
+  // Coalesce writes: a watcher poll applies many mutations synchronously,
+  // so write once when the current batch finishes instead of per call.
+  let savePending = false
+  const persist = () => {
+    if (!persistence || savePending) return
+    savePending = true
+    queueMicrotask(() => {
+      savePending = false
+      const changes = takeChanges(dirty!)
+      dirty = emptyDirty()
+      try {
+        persistence.append(changes, state)
+      } catch (err) {
+        console.error('[store] Failed to persist state:', (err as Error)?.message ?? err)
+      }
+    })
+  }
 
   return {
     get(tokenId) {
       return receivables.get(tokenId)
     },
+    getByMessageHash(hash) {
+      const tokenId = byMessageHash.get(hash.toLowerCase())
+      return tokenId !== undefined ? receivables.get(tokenId) : undefined
+    },
     snapshot() {
       return Array.from(receivables.values())
     },
+    query(q) {
+      // Start from the narrowest applicable index, then filter the rest
+      const candidates: Iterable<bigint>[] = []
+      if (q.owner)        candidates.push(byOwner.get(q.owner.toLowerCase()) ?? [])
+      if (q.inboundToken) candidates.push(byInboundToken.get(q.inboundToken.toLowerCase()) ?? [])
+      if (q.paymentToken) candidates.push(byPaymentToken.get(q.paymentToken.toLowerCase()) ?? [])
+      if (q.listed)       candidates.push(listedIds)
+      const ids = candidates.length > 0
+        ? candidates.reduce((a, b) => (sizeOf(b) < sizeOf(a) ? b : a))
+        : receivables.keys()
+
+      const matches: Receivable[] = []
+      for (const id of ids) {
+        const r = receivables.get(id)
+        if (r && matchesQuery(r, q)) matches.push(r)
+      }
+
+      const keyOf = sortKey(q.sort)
+      const dir   = q.order === 'desc' ? -1 : 1
+      const cmp   = (a: PageKey, b: PageKey) => comparePageKeys(a, b, dir)
+      matches.sort((a, b) => cmp(keyOf(a), keyOf(b)))
+
+      let start = 0
+      if (q.cursor) {
+        const after = decodeCursor(q.cursor)
+        start = matches.findIndex(r => cmp(keyOf(r), after) > 0)
+        if (start === -1) start = matches.length
+      }
+      const end   = q.limit !== undefined ? start + q.limit : matches.length
+      const items = matches.slice(start, end)
+      const nextCursor = end < matches.length && items.length > 0
+        ? encodeCursor(keyOf(items[items.length - 1]))
+        : null
+      return { items, nextCursor }
+    },
     upsert(r) {
-      receivables.set(r.tokenId, r)
+      put(r)
       knownHashes.add(r.cctpMessageHash.toLowerCase())
+      dirty?.receivables.add(r.tokenId)
+      dirty?.knownHashes.add(r.cctpMessageHash.toLowerCase())
+      persist()
     },
     patch(tokenId, update) {
       const existing = receivables.get(tokenId)
       if (existing) {
-        receivables.set(tokenId, { ...existing, ...update })
+        put({ ...existing, ...update })
+        dirty?.receivables.add(tokenId)
+        persist()
       }
     },
     remove(tokenId) {
+      const existing = receivables.get(tokenId)
+      if (!existing) return
+      unindex(existing)
       receivables.delete(tokenId)
+      dirty?.receivables.add(tokenId)
+      const record = history.get(tokenId)
+      if (record) {
+        record.final = { ...existing, listing: null, status: 'settled', statusReason: null }
+        dirty?.history.add(tokenId)
+      }
+      persist()
+    },
+    setStatus(tokenId, status, reason = null) {
+      const existing = receivables.get(tokenId)
+      if (!existing || (existing.status === status && existing.statusReason === reason)) return false
+      if (existing.status !== status && !canTransition(existing.status, status)) {
+        console.warn(`[store] Ignoring status change ${existing.status} -> ${status} for tokenId=${tokenId}`)
+        return false
+      }
+      put({ ...existing, status, statusReason: reason })
+      dirty?.receivables.add(tokenId)
+      persist()
+      return true
     },
     subscribe(fn) {
       subscribers.add(fn)
       return () => subscribers.delete(fn)
     },
     emit(event) {
+      seq++
+      journal.push({ seq, event })
+      if (journal.length > JOURNAL_SIZE) journal.shift()
+      persist()
       for (const fn of subscribers) {
-        try { fn(event) } catch { /* never crash the watcher */ }
+        try { fn(event, seq) } catch { /* never crash the watcher */ }
       }
     },
+    lastSeq() {
+      return seq
+    },
+    eventsSince(since) {
+      if (since > seq) return null
+      // The journal holds (oldest - 1, seq]; an empty journal covers only seq itself
+      const oldest = journal.length > 0 ? journal[0].seq : seq + 1
+      if (since < oldest - 1) return null
+      return journal.filter(e => e.seq > since)
+    },
     markKnown(hash: string) {
       knownHashes.add(hash.toLowerCase())
+      dirty?.knownHashes.add(hash.toLowerCase())
+      persist()
     },
     isKnown(hash: string) {
       return knownHashes.has(hash.toLowerCase())
     },
+    getCursor(name) {
+      return cursors.get(name)
+    },
+    setCursor(name, block) {
+      if (cursors.get(name) === block) return
+      cursors.set(name, block)
+      dirty?.cursors.add(name)
+      persist()
+    },
+    recordHistory(entry) {
+      let record = history.get(entry.tokenId)
+      if (!record) {
+        if (entry.type !== 'minted') return
+        record = {
+          tokenId:         entry.tokenId,
+          cctpMessageHash: entry.cctpMessageHash,
+          inboundToken:    entry.inboundToken,
+          inboundAmount:   entry.inboundAmount,
+          mintedAt:        entry.timestamp,
+          settledAt:       null,
+          final:           null,
+          entries:         [],
+        }
+        history.set(entry.tokenId, record)
+        historyByHash.set(entry.cctpMessageHash.toLowerCase(), entry.tokenId)
+      }
+
+      if (entry.txHash !== null && entry.logIndex !== null) {
+        const dup = record.entries.findIndex(e => e.txHash === entry.txHash && e.logIndex === entry.logIndex)
+        if (dup !== -1) {
+          // A replay that resolved the block time repairs an entry recorded without one
+          if (record.entries[dup].timestamp !== 0n || entry.timestamp === 0n) return
+          record.entries[dup] = { ...record.entries[dup], timestamp: entry.timestamp }
+          if (entry.type === 'minted' && record.mintedAt === 0n) record.mintedAt = entry.timestamp
+          if (entry.type === 'settled') record.settledAt = entry.timestamp
+          dirty?.history.add(entry.tokenId)
+          persist()
+          return
+        }
+      }
+
+      // Insert in chain order — backfill replays events grouped by type
+      const at = record.entries.findIndex(e => compareEntries(entry, e) < 0)
+      if (at === -1) record.entries.push(entry)
+      else record.entries.splice(at, 0, entry)
+
+      if (entry.type === 'settled') record.settledAt = entry.timestamp
+      dirty?.history.add(entry.tokenId)
+      persist()
+    },
+    getHistory(tokenId) {
+      return history.get(tokenId)
+    },
+    getHistoryByMessageHash(hash) {
+      const tokenId = historyByHash.get(hash.toLowerCase())
+      return tokenId !== undefined ? history.get(tokenId) : undefined
+    },
+    queryHistory(filter = {}) {
+      const owner = filter.owner?.toLowerCase()
+      const token = filter.token?.toLowerCase()
+      return Array.from(history.values())
+        .filter(h => !owner || historyParticipants(h).has(owner))
+        .filter(h => !token || historyTokens(h).has(token))
+        .filter(h => h.entries.some(e =>
+          (filter.from === undefined || e.timestamp >= filter.from) &&
+          (filter.to   === undefined || e.timestamp <= filter.to),
+        ))
+        .sort((a, b) => (a.mintedAt === b.mintedAt ? 0 : a.mintedAt > b.mintedAt ? -1 : 1))
+    },
+    recordSource(source) {
+      putSource(source)
+      dirty?.sources.add(source.messageHash.toLowerCase())
+      persist()
+    },
+    getSource(messageHash) {
+      return sources.get(messageHash.toLowerCase())
+    },
+    messageHashesForSourceTx(txHash) {
+      const hashes = sourceTxIndex.get(txHash.toLowerCase()) ?? new Set<string>()
+      return Array.from(hashes, h => sources.get(h)!.messageHash)
+    },
+    pendingSources(sourceDomain) {
+      return Array.from(sources.values())
+        .filter(s => s.sourceDomain === sourceDomain && s.verification === 'pending')
+    },
+    putRecipientAssignment(assignment) {
+      assignments.set(assignment.sourceTxHash.toLowerCase(), assignment)
+      dirty?.assignments.add(assignment.sourceTxHash.toLowerCase())
+      persist()
+    },
+    getRecipientAssignment(sourceTxHash) {
+      return assignments.get(sourceTxHash.toLowerCase())
+    },
+    recordTrade(trade) {
+      if (trade.txHash !== null && trade.logIndex !== null) {
+        const dup = trades.findIndex(t => t.txHash === trade.txHash && t.logIndex === trade.logIndex)
+        if (dup !== -1) {
+          // As in recordHistory, a replay fills in a timestamp recorded as 0
+          if (trades[dup].timestamp === 0n && trade.timestamp !== 0n) {
+            trades[dup] = { ...trades[dup], timestamp: trade.timestamp }
+            dirty?.trades.push(trades[dup])
+            persist()
+          }
+          return false
+        }
+      }
+      const at = trades.findIndex(t => compareEntries(trade, t) < 0)
+      if (at === -1) trades.push(trade)
+      else trades.splice(at, 0, trade)
+      dirty?.trades.push(trade)
+      persist()
+      return true
+    },
+    queryTrades(filter = {}) {
+      const address = filter.address?.toLowerCase()
+      const token   = filter.paymentToken?.toLowerCase()
+      const out: Trade[] = []
+      for (let i = trades.length - 1; i >= 0; i--) {
+        if (filter.limit !== undefined && out.length >= filter.limit) break
+        const t = trades[i]
+        if (filter.tokenId !== undefined && t.tokenId !== filter.tokenId) continue
+        if (address && t.buyer.toLowerCase() !== address && t.seller.toLowerCase() !== address) continue
+        if (token && t.paymentToken.toLowerCase() !== token) continue
+        if (filter.from !== undefined && t.timestamp < filter.from) continue
+        if (filter.to   !== undefined && t.timestamp > filter.to) continue
+        out.push(t)
+      }
+      return out
+    },
+    recordAttestationSample(sample) {
+      if (!putSample(sample)) return
+      dirty?.samples.push(sample)
+      persist()
+    },
+    attestationSamples(sourceDomain, transferSpeed) {
+      if (sourceDomain !== undefined && transferSpeed !== undefined) {
+        return [...samples.get(sampleKey(sourceDomain, transferSpeed)) ?? []]
+      }
+      return Array.from(samples.values()).flat().filter(s =>
+        (sourceDomain === undefined || s.sourceDomain === sourceDomain) &&
+        (transferSpeed === undefined || (s.transferSpeed ?? 'standard') === transferSpeed))
+    },
+    putJob(job) {
+      putJobEntry(job)
+      dirty?.jobs.add(job.id)
+      persist()
+    },
+    getJob(id) {
+      return jobs.get(id)
+    },
+    queryJobs(filter = {}) {
+      const hash = filter.messageHash?.toLowerCase()
+      const candidates = filter.state !== undefined
+        ? Array.from(jobsByState.get(filter.state) ?? [], id => jobs.get(id)!)
+        : Array.from(jobs.values())
+      const out = candidates
+        .filter(j =>
+          (filter.kind  === undefined || j.kind === filter.kind) &&
+          (hash         === undefined || j.messageHash.toLowerCase() === hash))
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+      return filter.limit !== undefined ? out.slice(0, filter.limit) : out
+    },
+    pruneJobs(before) {
+      let pruned = 0
+      for (const state of ['done', 'cancelled'] as const) {
+        const ids = jobsByState.get(state)
+        for (const id of ids ?? []) {
+          if (jobs.get(id)!.updatedAt >= before) continue
+          jobs.delete(id)
+          ids!.delete(id)
+          dirty?.jobs.add(id)
+          pruned++
+        }
+      }
+      if (pruned > 0) persist()
+      return pruned
+    },
+    getTransfer(messageHash) {
+      return transfers.get(messageHash.toLowerCase())
+    },
+    advanceTransfer(messageHash, update) {
+      const key = messageHash.toLowerCase()
+      let transfer = transfers.get(key)
+      if (!transfer) {
+        if (update.stage !== 'burn_detected') return undefined
+        const src = sources.get(key)
+        transfer = {
+          messageHash:  (src?.messageHash ?? messageHash) as `0x${string}`,
+          sourceTxHash: src?.sourceTxHash ?? null,
+          sourceDomain: src?.sourceDomain ?? null,
+          tokenId:      null,
+          stage:        'burn_detected',
+          stages:       [],
+        }
+      } else if (update.stage !== 'failed' && transfer.stages.some(e => e.stage === update.stage)) {
+        return undefined
+      }
+
+      const stages = [...transfer.stages, {
+        stage:  update.stage,
+        at:     update.at ?? BigInt(Math.floor(Date.now() / 1000)),
+        txHash: update.txHash ?? null,
+        error:  update.error ?? null,
+      }]
+      transfer = {
+        ...transfer,
+        tokenId: update.tokenId ?? transfer.tokenId,
+        stage:   currentStage(stages),
+        stages,
+      }
+      transfers.set(key, transfer)
+      dirty?.transfers.add(key)
+      persist()
+      return transfer
+    },
+  }
+}
+
+// Stages can be recorded out of order (the Arc watcher may see a mint after
+// attestation polling started), so report the furthest one reached.
+function currentStage(stages: TransferStageEntry[]): TransferStage {
+  if (stages[stages.length - 1].stage === 'failed') return 'failed'
+  let furthest = 0
+  for (const e of stages) {
+    if (e.stage !== 'failed') furthest = Math.max(furthest, TRANSFER_STAGES.indexOf(e.stage))
   }
+  return TRANSFER_STAGES[furthest]
+}
+
+// Keys of the records a batch of mutations touched, by map; trades and
+// samples are only ever added, so the new ones are kept as they are
+interface Dirty {
+  receivables: Set<bigint>
+  knownHashes: Set<string>
+  cursors:     Set<string>
+  history:     Set<bigint>
+  sources:     Set<string>
+  assignments: Set<string>
+  transfers:   Set<string>
+  jobs:        Set<string>
+  trades:      Trade[]
+  samples:     AttestationSample[]
 }
 
-// Serialize a Receivable to a plain JSON-safe object (bigints → strings)
-export function serializeReceivable(r: Receivable) {
+function emptyDirty(): Dirty {
   return {
-    tokenId:         r.tokenId.toString(),
-    cctpMessageHash: r.cctpMessageHash,
-    inboundToken:    r.inboundToken,
-    inboundAmount:   r.inboundAmount.toString(),
-    mintedAt:        r.mintedAt.toString(),
-    beneficialOwner: r.beneficialOwner,
-    listing:         r.listing
+    receivables: new Set(), knownHashes: new Set(), cursors: new Set(), history: new Set(), sources: new Set(),
+    assignments: new Set(), transfers: new Set(), jobs: new Set(), trades: [], samples: [],
+  }
+}
+
+// Undefined for an empty list, so unchanged collections are left out of a write
+const some = <T>(items: T[]): T[] | undefined => (items.length > 0 ? items : undefined)
+
+// A settled receivable's final state, pieced together from its lifecycle
+function finalFromHistory(h: HistoryRecord): Receivable {
+  let owner: `0x${string}` | undefined
+  for (const e of h.entries) {
+    if (e.type === 'minted' || e.type === 'settled') owner = e.recipient
+    else if (e.type === 'filled') owner = e.buyer
+  }
+  return {
+    tokenId:           h.tokenId,
+    cctpMessageHash:   h.cctpMessageHash,
+    inboundToken:      h.inboundToken,
+    inboundAmount:     h.inboundAmount,
+    mintedAt:          h.mintedAt,
+    estimatedSettleAt: null,
+    beneficialOwner:   owner ?? '0x0000000000000000000000000000000000000000',
+    listing:           null,
+    status:            'settled',
+    statusReason:      null,
+    transferSpeed:     null,
+    burnAmount:        null,
+    requestedListing:  null,
+  }
+}
+
+function sizeOf(ids: Iterable<bigint>): number {
+  return ids instanceof Set ? ids.size : Array.isArray(ids) ? ids.length : Infinity
+}
+
+function matchesQuery(r: Receivable, q: ReceivableQuery): boolean {
+  if (q.owner        && r.beneficialOwner.toLowerCase() !== q.owner.toLowerCase()) return false
+  if (q.inboundToken && r.inboundToken.toLowerCase() !== q.inboundToken.toLowerCase()) return false
+  if (q.paymentToken && r.listing?.paymentToken.toLowerCase() !== q.paymentToken.toLowerCase()) return false
+  if (q.listed !== undefined && (r.listing !== null) !== q.listed) return false
+  if (q.minAmount    !== undefined && r.inboundAmount < q.minAmount) return false
+  if (q.maxAmount    !== undefined && r.inboundAmount > q.maxAmount) return false
+  if (q.mintedAfter  !== undefined && r.mintedAt <= q.mintedAfter) return false
+  if (q.mintedBefore !== undefined && r.mintedAt >= q.mintedBefore) return false
+  return true
+}
+
+type ChainPosition = Pick<HistoryEntryBase, 'blockNumber' | 'logIndex'>
+
+// Position of a receivable in a sorted listing: sort value (null = no value,
+// always last) with tokenId as the tiebreaker. Doubles as the page cursor.
+interface PageKey {
+  value:   bigint | null
+  tokenId: bigint
+}
+
+function sortKey(sort: ReceivableSort | undefined): (r: Receivable) => PageKey {
+  switch (sort) {
+    case 'amount':       return r => ({ value: r.inboundAmount, tokenId: r.tokenId })
+    // Youngest first when ascending: negate the mint time
+    case 'age':          return r => ({ value: -r.mintedAt, tokenId: r.tokenId })
+    case 'reservePrice': return r => ({ value: r.listing?.reservePrice ?? null, tokenId: r.tokenId })
+    default:             return r => ({ value: r.tokenId, tokenId: r.tokenId })
+  }
+}
+
+function comparePageKeys(a: PageKey, b: PageKey, dir: 1 | -1): number {
+  if (a.value !== b.value) {
+    if (a.value === null) return 1
+    if (b.value === null) return -1
+    return (a.value < b.value ? -1 : 1) * dir
+  }
+  if (a.tokenId === b.tokenId) return 0
+  return (a.tokenId < b.tokenId ? -1 : 1) * dir
+}
+
+function encodeCursor(key: PageKey): string {
+  return Buffer.from(JSON.stringify([key.value?.toString() ?? null, key.tokenId.toString()])).toString('base64url')
+}
+
+/** Throws on a malformed cursor. */
+export function decodeCursor(cursor: string): PageKey {
+  const [value, tokenId] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as [string | null, string]
+  return { value: value === null ? null : BigInt(value), tokenId: BigInt(tokenId) }
+}
+
+// Chain order, for history entries and trades alike
+function compareEntries(a: ChainPosition, b: ChainPosition): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1
+  return (a.logIndex ?? 0) - (b.logIndex ?? 0)
+}
+
+function historyParticipants(h: HistoryRecord): Set<string> {
+  const out = new Set<string>()
+  for (const e of h.entries) {
+    if (e.type === 'minted' || e.type === 'settled') out.add(e.recipient.toLowerCase())
+    if (e.type === 'filled') {
+      out.add(e.buyer.toLowerCase())
+      out.add(e.seller.toLowerCase())
+    }
+  }
+  return out
+}
+
+function historyTokens(h: HistoryRecord): Set<string> {
+  const out = new Set<string>([h.inboundToken.toLowerCase()])
+  for (const e of h.entries) {
+    if (e.type === 'listed' || e.type === 'filled') out.add(e.paymentToken.toLowerCase())
+  }
+  return out
+}
+
+// Serialize a Receivable to a plain JSON-safe object (bigints → strings).
+// secondsRemaining counts down to estimatedSettleAt from `now` (unix seconds).
+export function serializeReceivable(r: Receivable, now = BigInt(Math.floor(Date.now() / 1000))) {
+  const remaining = r.estimatedSettleAt !== null && r.estimatedSettleAt > now ? r.estimatedSettleAt - now : 0n
+  return {
+    tokenId:           r.tokenId.toString(),
+    cctpMessageHash:   r.cctpMessageHash,
+    inboundToken:      r.inboundToken,
+    inboundAmount:     r.inboundAmount.toString(),
+    mintedAt:          r.mintedAt.toString(),
+    estimatedSettleAt: r.estimatedSettleAt?.toString() ?? null,
+    secondsRemaining:  r.estimatedSettleAt !== null ? Number(remaining) : null,
+    beneficialOwner:   r.beneficialOwner,
+    listing:           r.listing
       ? {
           reservePrice: r.listing.reservePrice.toString(),
           paymentToken: r.listing.paymentToken,
+          listedAt:     r.listing.listedAt?.toString() ?? null,
         }
       : null,
+    status:            r.status,
+    statusReason:      r.statusReason,
+    transferSpeed:     r.transferSpeed,
+    burnAmount:        r.burnAmount?.toString() ?? null,
+    requestedListing:  r.requestedListing
+      ? { reservePrice: r.requestedListing.reservePrice.toString(), paymentToken: r.requestedListing.paymentToken }
+      : null,
+  }
+}
+
+// Serialize a HistoryRecord to a plain JSON-safe object (bigints → strings)
+export function serializeHistoryRecord(h: HistoryRecord) {
+  return {
+    tokenId:         h.tokenId.toString(),
+    cctpMessageHash: h.cctpMessageHash,
+    inboundToken:    h.inboundToken,
+    inboundAmount:   h.inboundAmount.toString(),
+    mintedAt:        h.mintedAt.toString(),
+    settledAt:       h.settledAt?.toString() ?? null,
+    entries:         h.entries.map(serializeHistoryEntry),
+  }
+}
+
+function serializeHistoryEntry(e: HistoryEntry) {
+  const base = {
+    type:        e.type,
+    timestamp:   e.timestamp.toString(),
+    blockNumber: e.blockNumber.toString(),
+    txHash:      e.txHash,
+  }
+  switch (e.type) {
+    case 'minted':
+      return { ...base, recipient: e.recipient, inboundAmount: e.inboundAmount.toString() }
+    case 'listed':
+      return { ...base, reservePrice: e.reservePrice.toString(), paymentToken: e.paymentToken }
+    case 'delisted':
+      return base
+    case 'filled':
+      return { ...base, buyer: e.buyer, seller: e.seller, paymentToken: e.paymentToken, price: e.price.toString() }
+    case 'settled':
+      return { ...base, recipient: e.recipient, amount: e.amount.toString() }
+  }
+}
+
+// Serialize a Transfer to a plain JSON-safe object (bigints → strings)
+export function serializeTransfer(t: Transfer) {
+  return {
+    messageHash:  t.messageHash,
+    sourceTxHash: t.sourceTxHash,
+    sourceDomain: t.sourceDomain,
+    tokenId:      t.tokenId?.toString() ?? null,
+    stage:        t.stage,
+    stages:       t.stages.map(e => ({ ...e, at: e.at.toString() })),
+  }
+}
+
+// Serialize a Trade to a plain JSON-safe object (bigints → strings)
+export function serializeTrade(t: Trade) {
+  return {
+    tokenId:      t.tokenId.toString(),
+    buyer:        t.buyer,
+    seller:       t.seller,
+    paymentToken: t.paymentToken,
+    price:        t.price.toString(),
+    ageAtFill:    t.ageAtFill.toString(),
+    timestamp:    t.timestamp.toString(),
+    blockNumber:  t.blockNumber.toString(),
+    txHash:       t.txHash,
+  }
+}
+
+// Serialize a Job for the API; times stay epoch milliseconds
+export function serializeJob(j: Job) {
+  return {
+    id:          j.id,
+    kind:        j.kind,
+    messageHash: j.messageHash,
+    state:       j.state,
+    attempts:    j.attempts,
+    polls:       j.polls,
+    createdAt:   j.createdAt,
+    updatedAt:   j.updatedAt,
+    runAt:       j.state === 'queued' ? j.runAt : null,
+    detail:      j.detail,
+    lastError:   j.lastError,
+    ...(j.kind === 'settlement' && {
+      mode: j.attestation ? 'attested' : 'auto', funded: j.funded ?? false, approvedAt: j.approvedAt ?? null,
+    }),
   }
 }
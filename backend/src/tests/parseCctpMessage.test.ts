@@ -1,9 +1,12 @@
 import { describe, it, expect } from 'vitest'
-import { parseCctpMessage } from '../sepoliaWatcher.js'
+import { getAddress } from 'viem'
+import { parseCctpMessage } from '../sourceWatcher.js'
+import { encodeBurnMessage, decodeBurnMessage } from '../cctpMessage.js'
+import { encodeMeanTimeHook } from '../hookData.js'
 
 // Build a minimal CCTP V2 message manually.
 // Header (148 bytes):
-//   0-3:   version            = 0
+//   0-3:   version            = 1 (V2)
 //   4-7:   sourceDomain       = 0  (Sepolia)
 //   8-11:  destDomain         = 26 (Arc)
 //   12-43: nonce              = 32 bytes (V2: was 8 bytes in V1)
@@ -14,34 +17,42 @@ import { parseCctpMessage } from '../sepoliaWatcher.js'
 //  144-147: finalityExecuted  = 4 bytes
 //
 // BurnMessage body (starting at 148):
-//   0-3:   version        = 0
+//   0-3:   version        = 1 (V2)
 //   4-35:  burnToken      = 32 bytes (USDC address, left-padded)
 //   36-67: mintRecipient  = 32 bytes (MeanTime address, left-padded)
 //   68-99: amount         = 32 bytes (1 USDC = 1_000_000)
 //  100-131: messageSender = 32 bytes (user wallet address, left-padded)
+//  132-163: maxFee        = 32 bytes
+//  164-195: feeExecuted   = 32 bytes
+//  196-227: expirationBlock = 32 bytes (zeros)
 
 function buildTestMessage(opts: {
+  sourceDomain?: number
   destDomain: number
   mintRecipient: string   // 20-byte hex, no 0x
   amount: bigint
   messageSender: string   // 20-byte hex, no 0x
+  maxFee?: bigint
+  feeExecuted?: bigint
+  minFinality?: number
+  finalityExecuted?: number
 }): `0x${string}` {
   const headerSize = 148
-  const buf = Buffer.alloc(headerSize + 132, 0)  // header + burn message
+  const buf = Buffer.alloc(headerSize + 228, 0)  // header + burn message
 
   // Header
-  buf.writeUInt32BE(0, 0)                // version
-  buf.writeUInt32BE(0, 4)                // sourceDomain (Sepolia)
+  buf.writeUInt32BE(1, 0)                // version
+  buf.writeUInt32BE(opts.sourceDomain ?? 0, 4)  // sourceDomain (default Sepolia)
   buf.writeUInt32BE(opts.destDomain, 8)  // destDomain
   // nonce: 32 bytes at offset 12 (leave as zeros)
   // sender: 32 bytes at offset 44 (leave as zeros)
   // recipient: 32 bytes at offset 76 (leave as zeros)
   // destinationCaller: 32 bytes at offset 108 (leave as zeros)
-  buf.writeUInt32BE(2000, 140)           // minFinality (Standard Transfer)
-  buf.writeUInt32BE(0, 144)              // finalityExecuted
+  buf.writeUInt32BE(opts.minFinality ?? 2000, 140)  // minFinality (default Standard Transfer)
+  buf.writeUInt32BE(opts.finalityExecuted ?? 0, 144)  // finalityExecuted
 
   // BurnMessage at offset 148
-  buf.writeUInt32BE(0, headerSize)       // version
+  buf.writeUInt32BE(1, headerSize)       // version
 
   // mintRecipient at body+36 (right-justified in 32 bytes)
   const recip = Buffer.from(opts.mintRecipient.replace('0x', '').padStart(64, '0'), 'hex')
@@ -55,6 +66,10 @@ function buildTestMessage(opts: {
   const sender = Buffer.from(opts.messageSender.replace('0x', '').padStart(64, '0'), 'hex')
   sender.copy(buf, headerSize + 100)
 
+  // maxFee at body+132, feeExecuted at body+164
+  Buffer.from((opts.maxFee ?? 0n).toString(16).padStart(64, '0'), 'hex').copy(buf, headerSize + 132)
+  Buffer.from((opts.feeExecuted ?? 0n).toString(16).padStart(64, '0'), 'hex').copy(buf, headerSize + 164)
+
   return `0x${buf.toString('hex')}` as `0x${string}`
 }
 
@@ -73,6 +88,17 @@ describe('parseCctpMessage', () => {
     expect(result.destDomain).toBe(26)
   })
 
+  it('extracts sourceDomain', () => {
+    const msg = buildTestMessage({
+      sourceDomain:  6,
+      destDomain:    26,
+      mintRecipient: MEANTIME,
+      amount:        1_000_000n,
+      messageSender: WALLET_A,
+    })
+    expect(parseCctpMessage(msg).sourceDomain).toBe(6)
+  })
+
   it('extracts mintRecipient correctly (left-padded address)', () => {
     const msg = buildTestMessage({
       destDomain:    26,
@@ -81,7 +107,7 @@ describe('parseCctpMessage', () => {
       messageSender: WALLET_A,
     })
     const result = parseCctpMessage(msg)
-    expect(result.mintRecipient.toLowerCase()).toBe(MEANTIME.toLowerCase())
+    expect(result.mintRecipient?.toLowerCase()).toBe(MEANTIME.toLowerCase())
   })
 
   it('extracts amount in base units', () => {
@@ -103,7 +129,7 @@ describe('parseCctpMessage', () => {
       messageSender: WALLET_A,
     })
     const result = parseCctpMessage(msg)
-    expect(result.messageSender.toLowerCase()).toBe(WALLET_A.toLowerCase())
+    expect(result.messageSender?.toLowerCase()).toBe(WALLET_A.toLowerCase())
   })
 
   it('correctly identifies non-Arc destDomain', () => {
@@ -117,4 +143,56 @@ describe('parseCctpMessage', () => {
     expect(result.destDomain).toBe(1)
     expect(result.destDomain).not.toBe(26)
   })
+
+  it('nets out maxFee before the fee is executed', () => {
+    const msg = buildTestMessage({
+      destDomain:    26,
+      mintRecipient: MEANTIME,
+      amount:        1_000_000n,
+      messageSender: WALLET_A,
+      maxFee:        200n,
+    })
+    const result = parseCctpMessage(msg)
+    expect(result.amount).toBe(1_000_000n)
+    expect(result.netAmount).toBe(999_800n)
+  })
+
+  it('nets out the executed fee once attested', () => {
+    const msg = buildTestMessage({
+      destDomain:       26,
+      mintRecipient:    MEANTIME,
+      amount:           1_000_000n,
+      messageSender:    WALLET_A,
+      maxFee:           200n,
+      feeExecuted:      130n,
+      finalityExecuted: 1000,
+    })
+    expect(parseCctpMessage(msg).netAmount).toBe(999_870n)
+  })
+
+  it('tells Fast Transfers from Standard ones by minFinalityThreshold', () => {
+    const base = { destDomain: 26, mintRecipient: MEANTIME, amount: 1_000_000n, messageSender: WALLET_A }
+    expect(parseCctpMessage(buildTestMessage(base)).transferSpeed).toBe('standard')
+    expect(parseCctpMessage(buildTestMessage({ ...base, minFinality: 1000, maxFee: 130n })).transferSpeed).toBe('fast')
+  })
+
+  it('decodes a MeanTime hook, ignoring other hook data', () => {
+    const plain = decodeBurnMessage(buildTestMessage({ destDomain: 26, mintRecipient: MEANTIME, amount: 1_000_000n, messageSender: WALLET_A }))
+    const withHook = (hookData: `0x${string}`) => encodeBurnMessage({ ...plain, body: { ...plain.body, hookData } })
+
+    expect(parseCctpMessage(withHook(encodeMeanTimeHook({ version: 1, recipient: WALLET_A, listing: null }))).hook)
+      .toEqual({ version: 1, recipient: getAddress(WALLET_A), listing: null })
+    expect(parseCctpMessage(withHook('0xdeadbeef')).hook).toBeNull()
+    expect(parseCctpMessage(withHook('0x4d54494d01')).hook).toBeNull()  // malformed: the burn still parses
+  })
+
+  it('rejects a V1-sized burn body', () => {
+    const msg = buildTestMessage({
+      destDomain:    26,
+      mintRecipient: MEANTIME,
+      amount:        1_000_000n,
+      messageSender: WALLET_A,
+    })
+    expect(() => parseCctpMessage(msg.slice(0, 2 + (148 + 132) * 2) as `0x${string}`)).toThrow(/shorter than the 228-byte/)
+  })
 })
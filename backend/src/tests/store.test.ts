@@ -7,8 +7,14 @@ const BASE: Receivable = {
   inboundToken:    '0x1111111111111111111111111111111111111111',
   inboundAmount:   1_000_000n,
   mintedAt:        1000n,
+  estimatedSettleAt: 2020n,
   beneficialOwner: '0xaaaa000000000000000000000000000000000001',
   listing:         null,
+  status:          'awaiting_attestation',
+  statusReason:    null,
+  transferSpeed:   null,
+  burnAmount:      null,
+  requestedListing: null,
 }
 
 describe('Store', () => {
@@ -88,4 +94,11 @@ describe('serializeReceivable', () => {
     expect(s.listing?.reservePrice).toBe('990000')
     expect(s.listing?.paymentToken).toBe('0x2222222222222222222222222222222222222222')
   })
+
+  it('serializes transfer speed and the gross burn', () => {
+    const s = serializeReceivable({ ...BASE, transferSpeed: 'fast', burnAmount: 1_000_130n })
+    expect(s.transferSpeed).toBe('fast')
+    expect(s.burnAmount).toBe('1000130')
+    expect(serializeReceivable(BASE)).toMatchObject({ transferSpeed: null, burnAmount: null })
+  })
 })
@@ -0,0 +1,20 @@
+// Records transfer stage changes and broadcasts them.
+// Every component that moves a burn along (Sepolia watcher, Arc mint,
+// attestation poller, Arc watcher) reports here instead of only logging.
+
+import { type Store, type TransferUpdate } from './store.js'
+
+export function advanceTransfer(store: Store, messageHash: string, update: TransferUpdate): void {
+  const transfer = store.advanceTransfer(messageHash, update)
+  if (!transfer) return
+  console.log(`[transfer] ${messageHash}: ${update.stage}${update.error ? ` (${update.error})` : ''}`)
+  store.emit({ type: 'transfer', transfer })
+}
+
+/** Short, single-line description of an error for a 'failed' stage. */
+export function errorMessage(err: unknown): string {
+  const msg = (err as { shortMessage?: string; message?: string })?.shortMessage
+    ?? (err as Error)?.message
+    ?? String(err)
+  return msg.split('\n')[0].slice(0, 200)
+}
@@ -2,105 +2,264 @@
 // backfillStore() replays all historical events so nothing is lost across restarts.
 // startWatcher() subscribes to live events going forward.
 // Returns a cleanup function that unsubscribes all watchers.
+//
+// Both checkpoint the last processed Arc block under ARC_CURSOR. With a
+// persistent store, a restart resumes from there instead of replaying 50k blocks.
+//
+// Every MeanTime event in a range comes from one getLogs call (all event
+// topics) and is applied in chain order, (blockNumber, logIndex), so sequences
+// like list -> delist -> list or delist -> fill within one range end in the
+// right state.
 
+import { type GetContractEventsReturnType, type Log } from 'viem'
 import { type AppCtx } from './ctx.js'
-import { type Store } from './store.js'
+import { type Store, type Receivable } from './store.js'
 import { MEANTIME_ABI } from './abi.js'
+import { createBlockClock, resolveBlockTimes, resolveAvailableBlockTimes } from './blockTime.js'
+import { advanceTransfer } from './transfers.js'
+import { updateStatus } from './status.js'
+import { estimateAttestationSeconds } from './attestationStats.js'
+import { burnTerms } from './cctpMessage.js'
+
+/** Store cursor name for the last processed Arc block. */
+export const ARC_CURSOR = 'arc'
+
+// The RPC limits eth_getLogs ranges, so every scan is split into chunks of this size
+const CHUNK = 9000n
+// Never look further back than this, even if the checkpoint is older
+const MAX_LOOKBACK = 50000n
+
+// Where a decoded log sits on chain; every event's log has these
+type LogPosition = Pick<Log, 'blockNumber' | 'transactionHash' | 'logIndex'>
+
+// Fields shared by every history entry, taken from the raw log
+function historyBase(tokenId: bigint, log: LogPosition, times: Map<bigint, bigint>) {
+  const blockNumber = BigInt(log.blockNumber ?? 0n)
+  return {
+    tokenId,
+    blockNumber,
+    timestamp: times.get(blockNumber) ?? 0n,
+    txHash:    log.transactionHash ?? null,
+    logIndex:  log.logIndex ?? null,
+  }
+}
+
+// Move the receivable's transfer (if we tracked its burn) to an on-chain stage
+function transferStage(store: Store, stage: 'minted' | 'settled', tokenId: bigint, log: LogPosition, times: Map<bigint, bigint>) {
+  const messageHash = store.get(tokenId)?.cctpMessageHash ?? store.getHistory(tokenId)?.cctpMessageHash
+  if (!messageHash) return
+  const { timestamp, txHash } = historyBase(tokenId, log, times)
+  advanceTransfer(store, messageHash, { stage, tokenId, txHash, ...(timestamp !== 0n && { at: timestamp }) })
+}
+
+type MeanTimeLog = GetContractEventsReturnType<typeof MEANTIME_ABI>[number]
+
+/** Every MeanTime event in [from, to], in (blockNumber, logIndex) order. */
+async function fetchOrderedLogs(ctx: AppCtx, fromBlock: bigint, toBlock: bigint): Promise<MeanTimeLog[]> {
+  // No eventName: one eth_getLogs filtering on the topics of every ABI event
+  const logs = await ctx.publicClient.getContractEvents({
+    address: ctx.addresses.meantime, abi: MEANTIME_ABI, fromBlock, toBlock,
+  })
+  return sortLogs(logs)
+}
+
+function sortLogs(logs: MeanTimeLog[]): MeanTimeLog[] {
+  return [...logs].sort((a, b) => {
+    const blockA = BigInt(a.blockNumber ?? 0n)
+    const blockB = BigInt(b.blockNumber ?? 0n)
+    if (blockA !== blockB) return blockA < blockB ? -1 : 1
+    return (a.logIndex ?? 0) - (b.logIndex ?? 0)
+  })
+}
+
+/**
+ * Apply one MeanTime event to the store and the history archive. Live events
+ * are also broadcast; during backfill (before any client connects) they are
+ * not, and transient SettleAttempted statuses are skipped.
+ */
+function applyLog(store: Store, log: MeanTimeLog, times: Map<bigint, bigint>, live: boolean): void {
+  switch (log.eventName) {
+    case 'Minted': {
+      const { tokenId, recipient, inboundToken, inboundAmount, cctpMessageHash } = log.args
+      if (tokenId === undefined) return
+      // A re-scanned mint (overlap after restart) keeps its settlement status
+      const existing = store.get(tokenId)
+      const base     = historyBase(tokenId, log, times)
+      // The contract's mintedAt is the block time. Backfill records 0 when it
+      // cannot resolve block times; keep what an earlier scan found instead.
+      const mintedAt = base.timestamp !== 0n ? base.timestamp : existing?.mintedAt ?? 0n
+      const source   = store.getSource(cctpMessageHash as string)
+      const terms    = burnTerms(source?.messageBytes)
+      const eta      = estimateAttestationSeconds(store, source?.sourceDomain, terms?.transferSpeed)
+      const receivable: Receivable = {
+        tokenId,
+        cctpMessageHash:   cctpMessageHash as `0x${string}`,
+        inboundToken:      inboundToken    as `0x${string}`,
+        inboundAmount:     inboundAmount   as bigint,
+        mintedAt,
+        estimatedSettleAt: mintedAt !== 0n ? mintedAt + BigInt(eta) : null,
+        beneficialOwner:   recipient       as `0x${string}`,
+        listing:           null,
+        status:            existing?.status       ?? 'awaiting_attestation',
+        statusReason:      existing?.statusReason ?? null,
+        transferSpeed:     terms?.transferSpeed ?? existing?.transferSpeed ?? null,
+        burnAmount:        terms?.amount        ?? existing?.burnAmount    ?? null,
+        requestedListing:  terms ? terms.hook?.listing ?? null : existing?.requestedListing ?? null,
+      }
+      store.upsert(receivable)
+      store.recordHistory({
+        ...base,
+        type:            'minted',
+        cctpMessageHash: receivable.cctpMessageHash,
+        inboundToken:    receivable.inboundToken,
+        inboundAmount:   receivable.inboundAmount,
+        recipient:       receivable.beneficialOwner,
+      })
+      if (live) store.emit({ type: 'minted', receivable })
+      transferStage(store, 'minted', tokenId, log, times)
+      return
+    }
+
+    case 'Listed': {
+      const { tokenId, reservePrice, paymentToken, listedAt } = log.args
+      if (tokenId === undefined) return
+      const base = historyBase(tokenId, log, times)
+      const listing = {
+        reservePrice: reservePrice as bigint,
+        paymentToken: paymentToken as `0x${string}`,
+        listedAt:     listedAt ?? base.timestamp,
+      }
+      store.patch(tokenId, { listing })
+      store.recordHistory({
+        ...base,
+        timestamp:    listing.listedAt,
+        type:         'listed',
+        reservePrice: listing.reservePrice,
+        paymentToken: listing.paymentToken,
+      })
+      if (live) store.emit({ type: 'listed', tokenId, listing })
+      return
+    }
+
+    case 'Delisted': {
+      const { tokenId } = log.args
+      if (tokenId === undefined) return
+      if (live) console.log(`[watcher] Delisted tokenId=${tokenId}`)
+      store.patch(tokenId, { listing: null })
+      store.recordHistory({ ...historyBase(tokenId, log, times), type: 'delisted' })
+      if (live) store.emit({ type: 'delisted', tokenId })
+      return
+    }
+
+    case 'Filled': {
+      const { tokenId, relayer, seller, paymentToken, amount, filledAt } = log.args
+      if (tokenId === undefined) return
+      const base  = historyBase(tokenId, log, times)
+      const fill  = {
+        buyer:        relayer      as `0x${string}`,
+        seller:       seller       as `0x${string}`,
+        paymentToken: paymentToken as `0x${string}`,
+        price:        amount       as bigint,
+      }
+      store.patch(tokenId, { listing: null, beneficialOwner: fill.buyer })
+      store.recordHistory({ ...base, type: 'filled', ...fill })
+      const trade = { ...base, ...fill, ageAtFill: filledAt ?? 0n }
+      const isNew = store.recordTrade(trade)
+      if (live) {
+        store.emit({ type: 'filled', tokenId, newOwner: fill.buyer })
+        if (isNew) store.emit({ type: 'trade', trade })
+      }
+      return
+    }
+
+    // SettleAttempted is diagnostic: a mined one is always followed by Settled
+    // in the same tx, but it lets clients show 'settling' for settles we did
+    // not submit ourselves (claim(), other relayers).
+    case 'SettleAttempted': {
+      const { tokenId, contractBalance } = log.args
+      if (tokenId === undefined || !live) return
+      updateStatus(store, tokenId, 'settling', `contract balance ${contractBalance}`)
+      return
+    }
+
+    // Settled receivables leave the store; history keeps them
+    case 'Settled': {
+      const { tokenId, recipient, amount } = log.args
+      if (tokenId === undefined) return
+      transferStage(store, 'settled', tokenId, log, times)
+      store.remove(tokenId)
+      store.recordHistory({
+        ...historyBase(tokenId, log, times),
+        type:      'settled',
+        recipient: recipient as `0x${string}`,
+        amount:    amount    as bigint,
+      })
+      if (live) store.emit({ type: 'settled', tokenId })
+      return
+    }
+  }
+}
 
 /**
  * Replay all past Minted/Listed/Delisted/Filled/Settled events from the chain
  * and rebuild the in-memory store. Call this BEFORE startWatcher().
  *
- * The RPC limits eth_getLogs to 10,000 blocks, so we scan from (latest - 9999)
- * which covers ~2.8 hours at 1-second blocks — more than enough for a testnet.
+ * The RPC limits eth_getLogs to 10,000 blocks, so we scan in chunks going back
+ * up to MAX_LOOKBACK blocks. If the store already has an ARC_CURSOR checkpoint
+ * (persistent store), only the blocks after it are replayed.
  */
 export async function backfillStore(ctx: AppCtx, store: Store): Promise<void> {
-  const address = ctx.addresses.meantime
-
   console.log('[backfill] Replaying historical events…')
 
   const latestBlock = await ctx.publicClient.getBlockNumber()
 
-  // Scan in chunks of 9000 blocks, going back up to ~50k blocks
-  const CHUNK = 9000n
-  const MAX_LOOKBACK = 50000n
-  const earliest = latestBlock > MAX_LOOKBACK ? latestBlock - MAX_LOOKBACK : 0n
-
-  // Helper: fetch events across all chunks
-  async function fetchAllEvents(eventName: string) {
-    const allLogs: any[] = []
-    let from = earliest
-    while (from <= latestBlock) {
-      const to = from + CHUNK - 1n > latestBlock ? latestBlock : from + CHUNK - 1n
-      try {
-        const logs = await ctx.publicClient.getContractEvents({
-          address,
-          abi: MEANTIME_ABI,
-          eventName: eventName as any,
-          fromBlock: from,
-          toBlock: to,
-        })
-        allLogs.push(...logs)
-      } catch (err: any) {
-        console.warn(`[backfill] chunk ${from}-${to} for ${eventName} failed: ${err.message?.slice(0, 80)}`)
-      }
-      from = to + 1n
+  const lookbackLimit = latestBlock > MAX_LOOKBACK ? latestBlock - MAX_LOOKBACK : 0n
+  const cursor = store.getCursor(ARC_CURSOR)
+  let earliest = lookbackLimit
+  if (cursor !== undefined) {
+    if (cursor >= latestBlock) {
+      console.log(`[backfill] Checkpoint at block ${cursor} is current — nothing to replay`)
+      return
+    }
+    if (cursor + 1n >= lookbackLimit) {
+      earliest = cursor + 1n
+    } else {
+      console.warn(`[backfill] Checkpoint ${cursor} is older than ${MAX_LOOKBACK} blocks — events before ${lookbackLimit} are skipped`)
     }
-    return allLogs
-  }
-
-  // Get all Minted events
-  const mintedLogs = await fetchAllEvents('Minted')
-
-  for (const log of mintedLogs) {
-    const { tokenId, recipient, inboundToken, inboundAmount, cctpMessageHash } = log.args
-    if (tokenId === undefined) continue
-    store.upsert({
-      tokenId,
-      cctpMessageHash: cctpMessageHash as `0x${string}`,
-      inboundToken:    inboundToken    as `0x${string}`,
-      inboundAmount:   inboundAmount   as bigint,
-      mintedAt:        BigInt(log.blockNumber ?? 0n),
-      beneficialOwner: recipient       as `0x${string}`,
-      listing:         null,
-    })
   }
+  console.log(`[backfill] Scanning blocks ${earliest}-${latestBlock}`)
 
-  // Apply listing events
-  const listedLogs = await fetchAllEvents('Listed')
-  for (const log of listedLogs) {
-    const { tokenId, reservePrice, paymentToken } = log.args
-    if (tokenId === undefined) continue
-    store.patch(tokenId, {
-      listing: { reservePrice: reservePrice as bigint, paymentToken: paymentToken as `0x${string}` },
-    })
+  let failedChunks = 0
+  const allLogs: MeanTimeLog[] = []
+  let from = earliest
+  while (from <= latestBlock) {
+    const to = from + CHUNK - 1n > latestBlock ? latestBlock : from + CHUNK - 1n
+    try {
+      allLogs.push(...await fetchOrderedLogs(ctx, from, to))
+    } catch (err: any) {
+      console.warn(`[backfill] chunk ${from}-${to} failed: ${err.message?.slice(0, 80)}`)
+      failedChunks++
+    }
+    from = to + 1n
   }
 
-  // Apply delist events
-  const delistedLogs = await fetchAllEvents('Delisted')
-  for (const log of delistedLogs) {
-    const { tokenId } = log.args
-    if (tokenId === undefined) continue
-    store.patch(tokenId, { listing: null })
-  }
+  // Block timestamps for the history archive. A block whose time cannot be
+  // fetched only costs its own events their timestamps (recorded as 0), not
+  // the replay itself.
+  const { times, missing } = await resolveAvailableBlockTimes(
+    createBlockClock(ctx.publicClient),
+    allLogs.map(log => BigInt(log.blockNumber ?? 0n)),
+  )
+  if (missing > 0) console.warn(`[backfill] Could not resolve the timestamps of ${missing} block(s)`)
 
-  // Apply fill events
-  const filledLogs = await fetchAllEvents('Filled')
-  for (const log of filledLogs) {
-    const { tokenId, relayer } = log.args
-    if (tokenId === undefined) continue
-    store.patch(tokenId, {
-      listing:         null,
-      beneficialOwner: relayer as `0x${string}`,
-    })
-  }
+  for (const log of allLogs) applyLog(store, log, times, false)
 
-  // Apply settle events (remove settled receivables)
-  const settledLogs = await fetchAllEvents('Settled')
-  for (const log of settledLogs) {
-    const { tokenId } = log.args
-    if (tokenId === undefined) continue
-    store.remove(tokenId)
+  // Only checkpoint a complete replay; otherwise the next boot retries the
+  // range, which also fills in timestamps recorded as 0
+  if (failedChunks === 0 && missing === 0) {
+    store.setCursor(ARC_CURSOR, latestBlock)
+  } else {
+    console.warn(`[backfill] ${failedChunks} chunk(s) failed, ${missing} block time(s) missing — checkpoint not advanced`)
   }
 
   console.log(`[backfill] Done — ${store.snapshot().length} active receivable(s)`)
@@ -108,85 +267,41 @@ export async function backfillStore(ctx: AppCtx, store: Store): Promise<void> {
 
 // Poll interval for the live Arc watcher
 const LIVE_POLL_INTERVAL_MS = 2_000
-// Small overlap buffer: re-scan this many blocks behind latest to cover any
-// gap between when backfillStore finished and when the live watcher started.
+// Small overlap buffer: with no checkpoint, re-scan this many blocks behind
+// latest to cover any gap between backfillStore and the live watcher starting.
 const LIVE_START_OVERLAP = 5n
 
 export function startWatcher(ctx: AppCtx, store: Store): () => void {
-  const address = ctx.addresses.meantime
+  const clock    = createBlockClock(ctx.publicClient)
   let stopped    = false
-  let lastBlock: bigint | null = null
+  // Resume from the checkpoint left by backfillStore or a previous run
+  let lastBlock: bigint | null = store.getCursor(ARC_CURSOR) ?? null
 
   const poll = async () => {
     if (stopped) return
     try {
       const latest = await ctx.publicClient.getBlockNumber()
 
-      // On first poll, go back a few blocks to cover the backfill→live gap
+      // Without a checkpoint, go back a few blocks to cover the backfill→live gap.
+      // When far behind, catch up one chunk per poll to respect the getLogs limit.
       const from = lastBlock !== null ? lastBlock + 1n : latest - LIVE_START_OVERLAP
-      const to   = latest
+      const to   = from + CHUNK - 1n < latest ? from + CHUNK - 1n : latest
 
       if (from > to) {
         scheduleNext()
         return
       }
 
-      // Fetch all five event types in parallel — single getLogs call per type
-      const [mintedLogs, listedLogs, delistedLogs, filledLogs, settledLogs] = await Promise.all([
-        ctx.publicClient.getContractEvents({ address, abi: MEANTIME_ABI, eventName: 'Minted',   fromBlock: from, toBlock: to }),
-        ctx.publicClient.getContractEvents({ address, abi: MEANTIME_ABI, eventName: 'Listed',   fromBlock: from, toBlock: to }),
-        ctx.publicClient.getContractEvents({ address, abi: MEANTIME_ABI, eventName: 'Delisted', fromBlock: from, toBlock: to }),
-        ctx.publicClient.getContractEvents({ address, abi: MEANTIME_ABI, eventName: 'Filled',   fromBlock: from, toBlock: to }),
-        ctx.publicClient.getContractEvents({ address, abi: MEANTIME_ABI, eventName: 'Settled',  fromBlock: from, toBlock: to }),
-      ])
-
-      for (const log of mintedLogs) {
-        const { tokenId, recipient, inboundToken, inboundAmount, cctpMessageHash } = log.args
-        if (tokenId === undefined) continue
-        const receivable = {
-          tokenId,
-          cctpMessageHash: cctpMessageHash as `0x${string}`,
-          inboundToken:    inboundToken    as `0x${string}`,
-          inboundAmount:   inboundAmount   as bigint,
-          mintedAt:        BigInt(log.blockNumber ?? 0n),
-          beneficialOwner: recipient       as `0x${string}`,
-          listing:         null,
-        }
-        store.upsert(receivable)
-        store.emit({ type: 'minted', receivable })
-      }
-
-      for (const log of listedLogs) {
-        const { tokenId, reservePrice, paymentToken } = log.args
-        if (tokenId === undefined) continue
-        const listing = { reservePrice: reservePrice as bigint, paymentToken: paymentToken as `0x${string}` }
-        store.patch(tokenId, { listing })
-        store.emit({ type: 'listed', tokenId, listing })
-      }
-
-      for (const log of delistedLogs) {
-        const { tokenId } = log.args
-        if (tokenId === undefined) continue
-        console.log(`[watcher] Delisted tokenId=${tokenId}`)
-        store.patch(tokenId, { listing: null })
-        store.emit({ type: 'delisted', tokenId })
-      }
+      const logs = await fetchOrderedLogs(ctx, from, to)
 
-      for (const log of filledLogs) {
-        const { tokenId, relayer } = log.args
-        if (tokenId === undefined) continue
-        store.patch(tokenId, { listing: null, beneficialOwner: relayer as `0x${string}` })
-        store.emit({ type: 'filled', tokenId, newOwner: relayer as `0x${string}` })
-      }
+      // Resolve timestamps before touching the store: if this throws, the
+      // whole range is retried next poll without half-applied events.
+      const times = await resolveBlockTimes(clock, logs.map(log => BigInt(log.blockNumber ?? 0n)))
 
-      for (const log of settledLogs) {
-        const { tokenId } = log.args
-        if (tokenId === undefined) continue
-        store.remove(tokenId)
-        store.emit({ type: 'settled', tokenId })
-      }
+      for (const log of logs) applyLog(store, log, times, true)
 
       lastBlock = to
+      store.setCursor(ARC_CURSOR, to)
     } catch (err) {
       console.warn('[watcher] Poll error:', (err as Error)?.message ?? err)
     }
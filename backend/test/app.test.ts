@@ -6,14 +6,17 @@ import request from 'supertest'
 import http from 'http'
 import { createApp } from '../src/app.js'
 import { createStore } from '../src/store.js'
+import { CCTP_SOURCES, type SourceCtx } from '../src/ctx.js'
+import { CHAINS } from '../src/chains.js'
 import { mockCtx, makeReceivable } from './helpers.js'
+import { enqueueJob } from '../src/jobQueue.js'
 
 // Read the first N bytes from an SSE endpoint then destroy the connection
-function sseFirstChunk(app: ReturnType<typeof createApp>): Promise<string> {
+function sseFirstChunk(app: ReturnType<typeof createApp>, headers: Record<string, string> = {}): Promise<string> {
   return new Promise((resolve, reject) => {
     const server = http.createServer(app).listen(0, () => {
       const port = (server.address() as { port: number }).port
-      const req = http.get(`http://localhost:${port}/api/sse`, (res) => {
+      const req = http.get(`http://localhost:${port}/api/sse`, { headers }, (res) => {
         let data = ''
         res.on('data', (chunk: Buffer) => {
           data += chunk.toString()
@@ -66,6 +69,34 @@ describe('GET /api/tokens', () => {
   })
 })
 
+// ── GET /api/config ───────────────────────────────────────────────────────────
+describe('GET /api/config', () => {
+  it('returns the chain registry and deployed contract addresses', async () => {
+    const { app } = setup()
+    const res = await request(app).get('/api/config')
+    expect(res.status).toBe(200)
+    expect(res.body.arc).toMatchObject({ chainId: 5042002, domain: 26 })
+    expect(res.body.contracts).toEqual({
+      meantime: '0xMeantimeAddress',
+      usdc:     '0xUsdcAddress',
+      eurc:     '0xEurcAddress',
+    })
+    expect(res.body.settlementPolicy).toBe('testnet')
+    const sepolia = res.body.sources.find((s: { key: string }) => s.key === 'ethereum-sepolia')
+    expect(sepolia).toMatchObject({ chainId: 11155111, domain: 0, cctpVersion: 2, watched: false })
+    expect(sepolia.cctp.usdc).toBe('0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238')
+    // Backend-only settings stay private
+    expect(sepolia).not.toHaveProperty('pollIntervalMs')
+  })
+
+  it('flags the source chains this backend watches', async () => {
+    const ctx = mockCtx({ sources: [{ source: CCTP_SOURCES['base-sepolia'], client: {} as SourceCtx['client'] }] })
+    const res = await request(createApp(ctx, createStore())).get('/api/config')
+    const watched = res.body.sources.filter((s: { watched: boolean }) => s.watched).map((s: { key: string }) => s.key)
+    expect(watched).toEqual(['base-sepolia'])
+  })
+})
+
 // ── GET /api/receivables ──────────────────────────────────────────────────────
 describe('GET /api/receivables', () => {
   it('returns empty array when store is empty', async () => {
@@ -98,10 +129,131 @@ describe('GET /api/receivables', () => {
     expect(res.body[0].listing).toEqual({
       reservePrice: '990000',
       paymentToken: '0xEurcAddress',
+      listedAt:     null,
     })
   })
 })
 
+describe('GET /api/receivables with query parameters', () => {
+  const BOB = '0x000000000000000000000000000000000000b0b0'
+
+  function seeded() {
+    const ctx = setup()
+    ctx.store.upsert(makeReceivable(1n, { inboundAmount: 3n }))
+    ctx.store.upsert(makeReceivable(2n, { inboundAmount: 1n, beneficialOwner: BOB as `0x${string}` }))
+    ctx.store.upsert(makeReceivable(3n, {
+      inboundAmount: 2n,
+      listing: { reservePrice: 5n, paymentToken: '0x00000000000000000000000000000000000000ec' as `0x${string}` },
+    }))
+    return ctx
+  }
+
+  it('filters by owner and listing state', async () => {
+    const { app } = seeded()
+    const byOwner = await request(app).get(`/api/receivables?owner=${BOB}`)
+    expect(byOwner.body.map((r: { tokenId: string }) => r.tokenId)).toEqual(['2'])
+    const listed = await request(app).get('/api/receivables?listed=true')
+    expect(listed.body.map((r: { tokenId: string }) => r.tokenId)).toEqual(['3'])
+  })
+
+  it('sorts and pages through results via X-Next-Cursor', async () => {
+    const { app } = seeded()
+    const first = await request(app).get('/api/receivables?sort=amount&order=desc&limit=2')
+    expect(first.body.map((r: { tokenId: string }) => r.tokenId)).toEqual(['1', '3'])
+    const cursor = first.headers['x-next-cursor']
+    expect(cursor).toBeTruthy()
+
+    const second = await request(app).get(`/api/receivables?sort=amount&order=desc&limit=2&cursor=${cursor}`)
+    expect(second.body.map((r: { tokenId: string }) => r.tokenId)).toEqual(['2'])
+    expect(second.headers['x-next-cursor']).toBeUndefined()
+  })
+
+  it('rejects invalid parameters with 400', async () => {
+    const { app } = seeded()
+    for (const qs of ['owner=bob', 'listed=yes', 'minAmount=-1', 'sort=price', 'limit=0', 'cursor=%%%']) {
+      const res = await request(app).get(`/api/receivables?${qs}`)
+      expect(res.status, qs).toBe(400)
+    }
+  })
+})
+
+describe('GET /api/receivables/by-hash and by-source-tx', () => {
+  const HASH = '0x' + 'ab'.repeat(32)
+  const TX   = '0x' + 'cd'.repeat(32)
+
+  it('returns the active receivable in the same shape as GET /api/receivables/:tokenId', async () => {
+    const { app, store } = setup()
+    store.upsert(makeReceivable(7n, { cctpMessageHash: HASH as `0x${string}` }))
+    store.recordSource({ messageHash: HASH as `0x${string}`, sourceTxHash: TX as `0x${string}`, sourceDomain: 0 })
+    const byId = await request(app).get('/api/receivables/7')
+
+    const byHash = await request(app).get(`/api/receivables/by-hash/${HASH}`)
+    expect(byHash.status).toBe(200)
+    expect(byHash.body).toEqual(byId.body)
+
+    const byTx = await request(app).get(`/api/receivables/by-source-tx/${TX.toUpperCase().replace('0X', '0x')}`)
+    expect(byTx.status).toBe(200)
+    expect(byTx.body).toEqual(byId.body)
+  })
+
+  it('returns the archived final receivable once settled', async () => {
+    const { app, store } = setup()
+    store.upsert(makeReceivable(7n, { cctpMessageHash: HASH as `0x${string}`, beneficialOwner: '0xBob', status: 'settling' }))
+    store.recordSource({ messageHash: HASH as `0x${string}`, sourceTxHash: TX as `0x${string}`, sourceDomain: 0 })
+    store.recordHistory({
+      type: 'minted', tokenId: 7n, timestamp: 1n, blockNumber: 1n, txHash: '0xa', logIndex: 0,
+      cctpMessageHash: HASH as `0x${string}`, inboundToken: '0xUsdcAddress', inboundAmount: 5n, recipient: '0xBob',
+    })
+    store.remove(7n)
+    store.recordHistory({
+      type: 'settled', tokenId: 7n, timestamp: 2n, blockNumber: 2n, txHash: '0xb', logIndex: 0,
+      recipient: '0xBob', amount: 5n,
+    })
+
+    for (const path of [`/api/receivables/by-hash/${HASH}`, `/api/receivables/by-source-tx/${TX}`]) {
+      const res = await request(app).get(path)
+      expect(res.status, path).toBe(200)
+      expect(res.body, path).toMatchObject({ tokenId: '7', beneficialOwner: '0xBob', status: 'settled', listing: null })
+    }
+  })
+
+  it('returns 404 for unknown hashes and 400 for malformed ones', async () => {
+    const { app } = setup()
+    expect((await request(app).get(`/api/receivables/by-hash/${HASH}`)).status).toBe(404)
+    expect((await request(app).get(`/api/receivables/by-source-tx/${TX}`)).status).toBe(404)
+    expect((await request(app).get('/api/receivables/by-hash/0x1234')).status).toBe(400)
+  })
+})
+
+describe('GET /api/transfers/:id', () => {
+  const HASH = '0x' + 'ab'.repeat(32)
+  const TX   = '0x' + 'cd'.repeat(32)
+
+  function withTransfer() {
+    const s = setup()
+    s.store.recordSource({ messageHash: HASH as `0x${string}`, sourceTxHash: TX as `0x${string}`, sourceDomain: 0 })
+    s.store.advanceTransfer(HASH, { stage: 'burn_detected', at: 10n, txHash: TX as `0x${string}` })
+    s.store.advanceTransfer(HASH, { stage: 'minted', at: 20n, txHash: '0xmint', tokenId: 3n })
+    return s
+  }
+
+  it('returns the transfer by message hash and by source tx hash', async () => {
+    const { app } = withTransfer()
+    for (const id of [HASH, TX]) {
+      const res = await request(app).get(`/api/transfers/${id}`)
+      expect(res.status).toBe(200)
+      expect(res.body).toMatchObject({ messageHash: HASH, sourceTxHash: TX, tokenId: '3', stage: 'minted' })
+      expect(res.body.stages[1]).toEqual({ stage: 'minted', at: '20', txHash: '0xmint', error: null })
+    }
+  })
+
+  it('returns 404 for unknown ids and 400 for malformed ones', async () => {
+    const { app } = setup()
+    expect((await request(app).get(`/api/transfers/${HASH}`)).status).toBe(404)
+    expect((await request(app).get('/api/transfers/42')).status).toBe(400)
+  })
+})
+
 // ── GET /api/receivables/:tokenId ─────────────────────────────────────────────
 describe('GET /api/receivables/:tokenId', () => {
   it('returns 404 for unknown tokenId', async () => {
@@ -121,6 +273,170 @@ describe('GET /api/receivables/:tokenId', () => {
   })
 })
 
+// ── GET /api/history ──────────────────────────────────────────────────────────
+describe('GET /api/history', () => {
+  function seed(store: ReturnType<typeof createStore>) {
+    store.recordHistory({
+      type: 'minted', tokenId: 1n, timestamp: 1000n, blockNumber: 10n, txHash: '0xa', logIndex: 0,
+      cctpMessageHash: '0xh1', inboundToken: '0xUsdcAddress', inboundAmount: 5n,
+      recipient: '0x000000000000000000000000000000000000a11c',
+    })
+    store.recordHistory({
+      type: 'settled', tokenId: 1n, timestamp: 2000n, blockNumber: 20n, txHash: '0xb', logIndex: 0,
+      recipient: '0x000000000000000000000000000000000000a11c', amount: 5n,
+    })
+  }
+
+  it('returns settled receivables with serialised timestamps', async () => {
+    const { app, store } = setup()
+    seed(store)
+    const res = await request(app).get('/api/history')
+    expect(res.status).toBe(200)
+    expect(res.body).toHaveLength(1)
+    expect(res.body[0]).toMatchObject({ tokenId: '1', mintedAt: '1000', settledAt: '2000' })
+    expect(res.body[0].entries.map((e: { type: string }) => e.type)).toEqual(['minted', 'settled'])
+  })
+
+  it('filters by owner and time range', async () => {
+    const { app, store } = setup()
+    seed(store)
+    const other = await request(app).get('/api/history?owner=0x000000000000000000000000000000000000b0b0')
+    expect(other.body).toEqual([])
+    const late = await request(app).get('/api/history?from=3000')
+    expect(late.body).toEqual([])
+    const hit = await request(app).get('/api/history?owner=0x000000000000000000000000000000000000A11C&to=1500')
+    expect(hit.body).toHaveLength(1)
+  })
+
+  it('rejects malformed filters', async () => {
+    const { app } = setup()
+    expect((await request(app).get('/api/history?owner=alice')).status).toBe(400)
+    expect((await request(app).get('/api/history?from=yesterday')).status).toBe(400)
+  })
+
+  it('returns a single record by tokenId, 404 when unknown', async () => {
+    const { app, store } = setup()
+    seed(store)
+    expect((await request(app).get('/api/history/1')).body.tokenId).toBe('1')
+    expect((await request(app).get('/api/history/2')).status).toBe(404)
+  })
+})
+
+// ── GET /api/trades ───────────────────────────────────────────────────────────
+describe('GET /api/trades', () => {
+  const BOB = '0x000000000000000000000000000000000000b0b0'
+
+  function seed(store: ReturnType<typeof createStore>) {
+    store.recordTrade({
+      tokenId: 1n, buyer: BOB, seller: '0x000000000000000000000000000000000000a11c',
+      paymentToken: '0xEurcAddress', price: 990_000n, ageAtFill: 120n,
+      timestamp: 1000n, blockNumber: 10n, txHash: '0xa', logIndex: 2,
+    })
+  }
+
+  it('returns serialised trades', async () => {
+    const { app, store } = setup()
+    seed(store)
+    const res = await request(app).get('/api/trades')
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual([{
+      tokenId: '1', buyer: BOB, seller: '0x000000000000000000000000000000000000a11c',
+      paymentToken: '0xEurcAddress', price: '990000', ageAtFill: '120',
+      timestamp: '1000', blockNumber: '10', txHash: '0xa',
+    }])
+  })
+
+  it('filters by participant and token', async () => {
+    const { app, store } = setup()
+    seed(store)
+    expect((await request(app).get('/api/trades?address=0x000000000000000000000000000000000000B0B0')).body).toHaveLength(1)
+    expect((await request(app).get('/api/trades?tokenId=2')).body).toEqual([])
+  })
+
+  it('rejects malformed filters', async () => {
+    const { app } = setup()
+    expect((await request(app).get('/api/trades?address=bob')).status).toBe(400)
+    expect((await request(app).get('/api/trades?limit=0')).status).toBe(400)
+    expect((await request(app).get('/api/trades?tokenId=one')).status).toBe(400)
+  })
+})
+
+// ── GET /api/stats/attestation ────────────────────────────────────────────────
+describe('GET /api/stats/attestation', () => {
+  it('returns latency percentiles for every source chain', async () => {
+    const { app, store } = setup()
+    for (let i = 0; i < 5; i++) {
+      store.recordAttestationSample({
+        messageHash: `0xhash${i}` as `0x${string}`, sourceDomain: 6, seconds: 600 + i * 100, observedAt: 1000n,
+      })
+    }
+    const res = await request(app).get('/api/stats/attestation')
+    expect(res.status).toBe(200)
+    expect(res.body).toHaveLength(CHAINS.sources.length)
+    expect(res.body.find((s: { sourceDomain: number }) => s.sourceDomain === 6)).toEqual({
+      chain: 'base-sepolia', sourceDomain: 6, transferSpeed: 'standard', samples: 5,
+      min: 600, p50: 800, p90: 1000, p99: 1000, max: 1000,
+      estimateSeconds: 800, estimateSource: 'observed',
+    })
+    expect(res.body.find((s: { sourceDomain: number }) => s.sourceDomain === 0)).toMatchObject({
+      samples: 0, p50: null, estimateSeconds: 1020, estimateSource: 'configured',
+    })
+  })
+
+  it('keeps Fast Transfer latency apart', async () => {
+    const { app, store } = setup()
+    store.recordAttestationSample({
+      messageHash: '0xfast' as `0x${string}`, sourceDomain: 6, transferSpeed: 'fast', seconds: 12, observedAt: 1000n,
+    })
+    const res = await request(app).get('/api/stats/attestation?speed=fast')
+    expect(res.status).toBe(200)
+    expect(res.body.find((s: { sourceDomain: number }) => s.sourceDomain === 6)).toMatchObject({
+      transferSpeed: 'fast', samples: 1, p50: 12, estimateSeconds: 20, estimateSource: 'configured',
+    })
+    const standard = await request(app).get('/api/stats/attestation')
+    expect(standard.body.find((s: { sourceDomain: number }) => s.sourceDomain === 6).samples).toBe(0)
+    expect((await request(app).get('/api/stats/attestation?speed=turbo')).status).toBe(400)
+  })
+})
+
+// ── GET /api/jobs ─────────────────────────────────────────────────────────────
+describe('GET /api/jobs', () => {
+  const HASH = `0x${'ab'.repeat(32)}` as `0x${string}`
+
+  it('returns attestation and settlement jobs with their state', async () => {
+    const { app, store } = setup()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const attestation = enqueueJob(store, 'attestation', HASH, {}, 1000)
+    store.putJob({ ...attestation, state: 'done', detail: 'attested via v2', updatedAt: 2000 })
+    enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e', messageBytes: '0x01' }, 3000)
+
+    const res = await request(app).get('/api/jobs')
+    expect(res.status).toBe(200)
+    expect(res.body).toEqual([
+      {
+        id: `settlement:${HASH}`, kind: 'settlement', messageHash: HASH, state: 'queued',
+        attempts: 0, polls: 0, createdAt: 3000, updatedAt: 3000, runAt: 3000,
+        detail: null, lastError: null, mode: 'attested', funded: false, approvedAt: null,
+      },
+      {
+        id: `attestation:${HASH}`, kind: 'attestation', messageHash: HASH, state: 'done',
+        attempts: 0, polls: 0, createdAt: 1000, updatedAt: 2000, runAt: null,
+        detail: 'attested via v2', lastError: null,
+      },
+    ])
+    expect((await request(app).get('/api/jobs?state=done')).body).toHaveLength(1)
+    expect((await request(app).get(`/api/jobs?kind=settlement&messageHash=${HASH}`)).body).toHaveLength(1)
+  })
+
+  it('rejects malformed filters', async () => {
+    const { app } = setup()
+    expect((await request(app).get('/api/jobs?state=sleeping')).status).toBe(400)
+    expect((await request(app).get('/api/jobs?kind=burn')).status).toBe(400)
+    expect((await request(app).get('/api/jobs?messageHash=0x12')).status).toBe(400)
+    expect((await request(app).get('/api/jobs?limit=501')).status).toBe(400)
+  })
+})
+
 // ── GET /api/sse ──────────────────────────────────────────────────────────────
 describe('GET /api/sse', () => {
   it('responds with text/event-stream and sends snapshot immediately', async () => {
@@ -141,6 +457,158 @@ describe('GET /api/sse', () => {
     expect(data).toContain('event: snapshot')
     expect(data).toContain('data: []')
   }, 5000)
+
+  it('tags the snapshot with the current sequence number', async () => {
+    const { app, store } = setup()
+    store.emit({ type: 'settled', tokenId: 1n })
+    store.emit({ type: 'settled', tokenId: 2n })
+
+    const data = await sseFirstChunk(app)
+
+    expect(data).toMatch(/^id: 2\nevent: snapshot\n/)
+  }, 5000)
+
+  it('replays only missed events when Last-Event-ID is in the journal', async () => {
+    const { app, store } = setup()
+    store.upsert(makeReceivable(1n))
+    store.emit({ type: 'delisted', tokenId: 1n })
+    store.emit({ type: 'settled',  tokenId: 1n })
+
+    const data = await sseFirstChunk(app, { 'Last-Event-ID': '1' })
+
+    expect(data).toBe('id: 2\nevent: settled\ndata: {"tokenId":"1"}\n\n')
+  }, 5000)
+
+  it('streams status changes', async () => {
+    const { app, store } = setup()
+    store.emit({ type: 'status', tokenId: 1n, status: 'settle_failed', statusReason: 'InsufficientBalance' })
+
+    const data = await sseFirstChunk(app, { 'Last-Event-ID': '0' })
+
+    expect(data).toBe('id: 1\nevent: status\ndata: {"tokenId":"1","status":"settle_failed","statusReason":"InsufficientBalance"}\n\n')
+  }, 5000)
+
+  it('streams transfer stage changes', async () => {
+    const { app, store } = setup()
+    store.emit({ type: 'settled', tokenId: 1n })
+    store.recordSource({ messageHash: '0xh', sourceTxHash: '0xtx', sourceDomain: 0 })
+    store.emit({ type: 'transfer', transfer: store.advanceTransfer('0xh', { stage: 'burn_detected', at: 5n })! })
+
+    const data = await sseFirstChunk(app, { 'Last-Event-ID': '1' })
+
+    expect(data).toMatch(/^id: 2\nevent: transfer\ndata: /)
+    expect(JSON.parse(data.split('data: ')[1])).toMatchObject({ messageHash: '0xh', stage: 'burn_detected' })
+  }, 5000)
+
+  it('falls back to a snapshot when Last-Event-ID is unknown', async () => {
+    const { app, store } = setup()
+    store.emit({ type: 'settled', tokenId: 1n })
+
+    const data = await sseFirstChunk(app, { 'Last-Event-ID': '99' })
+
+    expect(data).toContain('event: snapshot')
+  }, 5000)
+})
+
+// ── POST /api/bridge/initiate-cctp ────────────────────────────────────────────
+describe('POST /api/bridge/initiate-cctp', () => {
+  it('rejects a source domain this backend does not watch', async () => {
+    const { app } = setup()
+    const res = await request(app)
+      .post('/api/bridge/initiate-cctp')
+      .send({ txHash: '0x' + 'aa'.repeat(32), sourceDomain: 6 })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toMatch(/domain 6/)
+  })
+
+  it('requires the sender\'s signature to send the receivable to another recipient', async () => {
+    const { app, ctx } = setup()
+    ctx.sources.push({ source: CCTP_SOURCES['ethereum-sepolia'], client: {} as SourceCtx['client'] })
+    const res = await request(app)
+      .post('/api/bridge/initiate-cctp')
+      .send({ txHash: '0x' + 'aa'.repeat(32), sourceDomain: 0, recipient: '0x' + 'b0'.repeat(20) })
+
+    expect(res.status).toBe(400)
+    expect(res.body.error).toMatch(/requires signature/)
+  })
+})
+
+// ── POST /api/bridge/force-settle ─────────────────────────────────────────────
+describe('POST /api/bridge/force-settle', () => {
+  it('refuses to settle a receivable backed by an orphaned burn', async () => {
+    const { app, ctx, store } = setup()
+    const hash = '0x' + 'aa'.repeat(32) as `0x${string}`
+    store.recordSource({ messageHash: hash, sourceTxHash: '0xtx', sourceDomain: 0, verification: 'orphaned' })
+
+    const res = await request(app).post('/api/bridge/force-settle').send({ cctpMessageHash: hash })
+    expect(res.status).toBe(409)
+    expect(ctx.walletClient.writeContract).not.toHaveBeenCalled()
+  })
+
+  it('is refused when the settlement policy forbids mock minting', async () => {
+    const ctx = mockCtx({ settlementPolicy: 'strict' })
+    const res = await request(createApp(ctx, createStore())).post('/api/bridge/force-settle').send({ tokenId: '1' })
+    expect(res.status).toBe(403)
+    expect(res.body.error).toMatch(/SETTLEMENT_POLICY=strict/)
+    expect(ctx.walletClient.writeContract).not.toHaveBeenCalled()
+  })
+})
+
+// ── POST /api/bridge/approve-settlement ───────────────────────────────────────
+describe('POST /api/bridge/approve-settlement', () => {
+  const approve = (app: ReturnType<typeof createApp>, body: object, token = 'test-operator-token') =>
+    request(app).post('/api/bridge/approve-settlement').set('Authorization', `Bearer ${token}`).send(body)
+
+  it('refuses callers without the operator token, leaving the job held', async () => {
+    const { app, ctx, store } = setup()
+    store.upsert(makeReceivable(1n, { status: 'needs_operator', statusReason: 'awaiting settlement approval' }))
+    const held = enqueueJob(store, 'settlement', '0xcctphash1', { attestation: '0xa77e' })
+    store.putJob({ ...held, state: 'held' })
+
+    expect((await request(app).post('/api/bridge/approve-settlement').send({ tokenId: '1' })).status).toBe(401)
+    expect((await approve(app, { tokenId: '1' }, 'wrong-token')).status).toBe(403)
+    ctx.operatorToken = null
+    expect((await approve(app, { tokenId: '1' })).status).toBe(403)
+    expect(store.getJob(held.id)!.state).toBe('held')
+  })
+
+  it('re-queues a held settlement, found by tokenId', async () => {
+    const { app, store } = setup()
+    store.upsert(makeReceivable(1n, { status: 'needs_operator', statusReason: 'awaiting settlement approval' }))
+    const held = enqueueJob(store, 'settlement', '0xcctphash1', { attestation: '0xa77e' })
+    store.putJob({ ...held, state: 'held' })
+
+    const res = await approve(app, { tokenId: '1' })
+    expect(res.status).toBe(200)
+    expect(res.body.job).toMatchObject({ id: held.id, state: 'queued', mode: 'attested' })
+    expect(res.body.job.approvedAt).toEqual(expect.any(Number))
+    expect(store.getJob(held.id)!.state).toBe('queued')
+  })
+
+  it('returns 404 when nothing awaits approval, 400 without a receivable', async () => {
+    const { app, store } = setup()
+    store.upsert(makeReceivable(1n))
+    enqueueJob(store, 'settlement', '0xcctphash1', { attestation: '0xa77e' })
+
+    expect((await approve(app, { tokenId: '1' })).status).toBe(404)
+    expect((await approve(app, { cctpMessageHash: '0x' + 'ab'.repeat(32) })).status).toBe(404)
+    expect((await approve(app, { tokenId: '9' })).status).toBe(404)
+    expect((await approve(app, {})).status).toBe(400)
+  })
+})
+
+// ── POST /api/bridge/bridge-kit ───────────────────────────────────────────────
+describe('POST /api/bridge/bridge-kit', () => {
+  it('rejects an unknown transfer speed, or a max fee outside a FAST transfer', async () => {
+    const { app } = setup()
+    const body = { sourceChain: 'base-sepolia', senderPrivateKey: '0xkey', amount: '10', recipientAddress: '0xAliceAddress' }
+    const post = (extra: object) => request(app).post('/api/bridge/bridge-kit').send({ ...body, ...extra })
+
+    expect((await post({ transferSpeed: 'WARP' })).body.error).toMatch(/transferSpeed must be FAST or SLOW/)
+    expect((await post({ maxFee: '0.01' })).status).toBe(400)
+    expect((await post({ transferSpeed: 'FAST', maxFee: 'lots' })).status).toBe(400)
+  })
 })
 
 // ── POST /api/bridge/settle ───────────────────────────────────────────────────
@@ -189,4 +657,20 @@ describe('POST /api/bridge/settle', () => {
     expect(res.status).toBe(500)
     expect(res.body.error).toMatch(/revert/)
   })
+
+  it('marks a known receivable settle_failed when settle() reverts', async () => {
+    const ctx = mockCtx({
+      walletClient: {
+        writeContract: vi.fn().mockRejectedValue(new Error('InsufficientBalance()')),
+      } as unknown as ReturnType<typeof mockCtx>['walletClient'],
+    })
+    const store = createStore()
+    const app   = createApp(ctx, store)
+    const hash  = '0x' + 'aa'.repeat(32) as `0x${string}`
+    store.upsert(makeReceivable(1n, { cctpMessageHash: hash }))
+
+    await request(app).post('/api/bridge/settle').send({ cctpMessageHash: hash })
+
+    expect(store.get(1n)).toMatchObject({ status: 'settle_failed', statusReason: 'InsufficientBalance()' })
+  })
 })
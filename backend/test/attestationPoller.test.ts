@@ -0,0 +1,370 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { concat, keccak256 } from 'viem'
+import { createStore, type Job } from '../src/store.js'
+import { attestationJobHandlers, approveSettlement, queueAttestation, recoverSettlements } from '../src/attestationPoller.js'
+import { enqueueJob, jobId } from '../src/jobQueue.js'
+import { ARC_CCTP, type AppCtx } from '../src/ctx.js'
+import {
+  addressToBytes32, encodeBurnMessage, FINALITY_FAST, FINALITY_STANDARD, type BurnMessageBody, type CctpBurnMessage,
+} from '../src/cctpMessage.js'
+import { mockCtx, makeReceivable } from './helpers.js'
+
+const HASH    = '0xcctphash1' as `0x${string}`
+const MESSAGE = `0x00000001${'00'.repeat(8)}${'ab'.repeat(32)}${'00'.repeat(104)}` as `0x${string}`
+const ORIGIN  = { sourceTxHash: '0xburn' as `0x${string}`, sourceDomain: 6 }
+
+// A publicClient answering MeanTime and MessageTransmitter reads for token #1
+function arcClient({ nonceUsed = false, tokenId = 1n } = {}) {
+  const readContract = vi.fn(async ({ functionName }: { functionName: string }) => {
+    switch (functionName) {
+      case 'tokenByMessageHash': return tokenId
+      case 'getReceivable':      return ['0xOwner', { inboundToken: '0xUsdcAddress', inboundAmount: 100n }, {}, 0n, 0n]
+      case 'usedNonces':         return nonceUsed ? 1n : 0n
+    }
+  })
+  return {
+    readContract,
+    waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: 'success' }),
+  } as unknown as AppCtx['publicClient']
+}
+
+const attestation = (result: object = {}, trusted = true) => ({
+  name:             trusted ? 'test' : 'mock',
+  trusted,
+  fetchAttestation: vi.fn().mockResolvedValue({
+    status: 'complete', detail: 'complete', attestation: '0xa77e', message: null, decoded: null, api: 'v2', ...result,
+  }),
+  registerBurn:     vi.fn().mockResolvedValue(undefined),
+})
+
+const ZERO32 = addressToBytes32('0x0000000000000000000000000000000000000000')
+
+// An Arc-bound V2 Standard Transfer from Base Sepolia, with overrides
+const burnBytes = (header: Partial<CctpBurnMessage> = {}, body: Partial<BurnMessageBody> = {}) => encodeBurnMessage({
+  version: 1, sourceDomain: 6, destinationDomain: ARC_CCTP.domain, nonce: ZERO32, sender: ZERO32, recipient: ZERO32,
+  destinationCaller: ZERO32, minFinalityThreshold: FINALITY_STANDARD, finalityThresholdExecuted: 0,
+  ...header,
+  body: {
+    version: 1, burnToken: ZERO32, mintRecipient: ZERO32, amount: 1_000_000n, messageSender: ZERO32,
+    maxFee: 0n, feeExecuted: 0n, expirationBlock: 0n, hookData: '0x',
+    ...body,
+  },
+})
+
+const calls = (ctx: AppCtx) =>
+  vi.mocked(ctx.walletClient.writeContract).mock.calls.map(([c]) => (c as { functionName: string }).functionName)
+
+describe('attestation jobs', () => {
+  let store: ReturnType<typeof createStore>
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    store = createStore()
+    store.upsert(makeReceivable(1n))
+    store.recordSource({ messageHash: HASH, ...ORIGIN, messageBytes: MESSAGE, verification: 'confirmed' })
+    store.advanceTransfer(HASH, { stage: 'burn_detected' })
+  })
+
+  const run = (ctx: AppCtx, job: Job, now = Date.now) =>
+    attestationJobHandlers(ctx, store)[job.kind].run(job, { signal: new AbortController().signal, now })
+
+  it('polls again while the attestation is pending', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation({ status: 'pending', detail: 'pending_confirmations', attestation: null }) })
+    const job = enqueueJob(store, 'attestation', HASH)
+
+    expect(await run(ctx, job)).toEqual({ retryInMs: 30_000, detail: 'pending_confirmations via v2' })
+    expect(ctx.attestation.fetchAttestation).toHaveBeenCalledWith(HASH, ORIGIN, expect.any(AbortSignal))
+    // The mock provider learns about the burn once per process
+    expect(ctx.attestation.registerBurn).toHaveBeenCalledWith(HASH, MESSAGE, ORIGIN, expect.any(AbortSignal))
+  })
+
+  it('polls a Fast Transfer every few seconds until it should have been attested', async () => {
+    const fast = burnBytes({ minFinalityThreshold: FINALITY_FAST }, { maxFee: 130n })
+    store.recordSource({ messageHash: HASH, ...ORIGIN, messageBytes: fast, verification: 'confirmed' })
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation({ status: 'pending', detail: 'pending_confirmations', attestation: null }) })
+    const job = enqueueJob(store, 'attestation', HASH)
+
+    expect(await run(ctx, job)).toMatchObject({ retryInMs: 5_000 })
+    expect(await run(ctx, { ...job, createdAt: job.createdAt - 6 * 60_000 })).toMatchObject({ retryInMs: 30_000 })
+
+    // Its latency is sampled apart from Standard Transfers
+    vi.mocked(ctx.attestation.fetchAttestation).mockResolvedValue({
+      status: 'complete', detail: 'complete', attestation: '0xa77e', message: null, decoded: null, api: 'v2',
+    })
+    await run(ctx, { ...job, polls: 1 })
+    expect(store.attestationSamples(6, 'fast')).toHaveLength(1)
+    expect(store.attestationSamples(6, 'standard')).toHaveLength(0)
+  })
+
+  it('queues the settlement once attested', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation({ message: MESSAGE }) })
+
+    expect(await run(ctx, enqueueJob(store, 'attestation', HASH))).toEqual({ state: 'done', detail: 'attested via v2' })
+    expect(store.getJob(jobId('settlement', HASH))).toMatchObject({
+      state: 'queued', attestation: '0xa77e', messageBytes: MESSAGE,
+    })
+    expect(store.getTransfer(HASH)!.stage).toBe('attested')
+  })
+
+  it('auto-settles once the timeout passes, but never an orphaned burn', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation() })
+    const stale = { ...enqueueJob(store, 'attestation', HASH), createdAt: Date.now() - 18 * 60_000 }
+
+    expect(await run(ctx, stale)).toMatchObject({ state: 'done' })
+    expect(store.getJob(jobId('settlement', HASH))).toMatchObject({ state: 'queued', attestation: null })
+    expect(ctx.attestation.fetchAttestation).not.toHaveBeenCalled()
+
+    store.recordSource({ messageHash: HASH, ...ORIGIN, verification: 'orphaned' })
+    expect(await run(ctx, stale)).toMatchObject({ state: 'cancelled' })
+  })
+
+  it('times auto-settle and queues the settlement by the queue\'s clock', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation() })
+    const job = enqueueJob(store, 'attestation', HASH, {}, 1_000)
+
+    expect(await run(ctx, job, () => 1_000 + 17 * 60_000)).toMatchObject({ state: 'done' })
+    expect(store.getJob(jobId('settlement', HASH))).toMatchObject({ createdAt: 1_000 + 17 * 60_000, runAt: 1_000 + 17 * 60_000 })
+  })
+
+  it('finishes when the receivable is already settled on-chain', async () => {
+    const ctx = mockCtx({ publicClient: arcClient({ tokenId: 0n }), attestation: attestation() })
+    expect(await run(ctx, enqueueJob(store, 'attestation', HASH))).toEqual({ state: 'done', detail: 'already settled on-chain' })
+    expect(await run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }))).toMatchObject({ state: 'done' })
+    expect(calls(ctx)).toEqual([])
+  })
+
+  it('settles through receiveMessage with the stored message bytes', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation() })
+
+    expect(await run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }))).toMatchObject({ state: 'done' })
+    expect(calls(ctx)).toEqual(['receiveMessage', 'settle'])
+    expect(vi.mocked(ctx.walletClient.writeContract).mock.calls[0][0]).toMatchObject({
+      address: ARC_CCTP.messageTransmitter, args: [MESSAGE, '0xa77e'],
+    })
+    expect(store.getJob(jobId('settlement', HASH))!.funded).toBe(true)
+  })
+
+  it('settles without minting when the message was already received', async () => {
+    const ctx = mockCtx({ publicClient: arcClient({ nonceUsed: true }), attestation: attestation() })
+    vi.mocked(ctx.walletClient.writeContract)
+      .mockRejectedValueOnce(new Error('Nonce already used'))
+      .mockResolvedValue('0xsettletx')
+
+    await run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }))
+    expect(calls(ctx)).toEqual(['receiveMessage', 'settle'])
+  })
+
+  describe('CCTP V1 messages', () => {
+    const V1_TRANSMITTER = '0x00000000000000000000000000000000000000f1' as `0x${string}`
+    const v1 = () => burnBytes(
+      { version: 0, nonce: '0x000000000000002a', minFinalityThreshold: FINALITY_STANDARD, finalityThresholdExecuted: FINALITY_STANDARD },
+      { version: 0 },
+    )
+
+    beforeEach(() => {
+      store.recordSource({ messageHash: HASH, ...ORIGIN, messageBytes: v1(), verification: 'confirmed' })
+    })
+
+    it('are received through Arc\'s V1 MessageTransmitter, whose nonces are keyed by source domain', async () => {
+      ARC_CCTP.messageTransmitterV1 = V1_TRANSMITTER
+      try {
+        const ctx = mockCtx({ publicClient: arcClient({ nonceUsed: true }), attestation: attestation() })
+        vi.mocked(ctx.walletClient.writeContract)
+          .mockRejectedValueOnce(new Error('Nonce already used'))
+          .mockResolvedValue('0xsettletx')
+
+        expect(await run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }))).toMatchObject({ state: 'done' })
+        expect(vi.mocked(ctx.walletClient.writeContract).mock.calls[0][0]).toMatchObject({ address: V1_TRANSMITTER })
+        expect(ctx.publicClient.readContract).toHaveBeenCalledWith(expect.objectContaining({
+          address: V1_TRANSMITTER, functionName: 'usedNonces',
+          args: [keccak256(concat(['0x00000006', '0x000000000000002a']))],
+        }))
+      } finally {
+        ARC_CCTP.messageTransmitterV1 = undefined
+      }
+    })
+
+    it('cannot be received where Arc runs no V1 MessageTransmitter', async () => {
+      const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation(), settlementPolicy: 'strict' })
+      expect(await run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }))).toMatchObject({
+        state: 'held', detail: expect.stringMatching(/no Arc MessageTransmitter configured for CCTP V1/),
+      })
+      expect(calls(ctx)).toEqual([])
+    })
+
+    it('are held rather than mock-minted when trusted, even under the testnet policy', async () => {
+      const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation() })
+      expect(await run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }))).toMatchObject({
+        state: 'held', detail: expect.stringMatching(/attested by test, but no Arc MessageTransmitter configured for CCTP V1 \(ARC_MESSAGE_TRANSMITTER_V1\)/),
+      })
+      expect(calls(ctx)).toEqual([])
+      expect(store.get(1n)).toMatchObject({ status: 'needs_operator' })
+    })
+
+    it('mock-mint for an untrusted attestation where Arc runs no V1 MessageTransmitter', async () => {
+      const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation({}, false) })
+      vi.mocked(ctx.walletClient.writeContract).mockResolvedValue('0xtx')
+      await run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }))
+      expect(calls(ctx)).toEqual(['mint', 'settle'])
+    })
+  })
+
+  it('never mock-mints for a trusted attestation', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation() })
+    vi.mocked(ctx.walletClient.writeContract).mockRejectedValueOnce(new Error('Invalid attestation'))
+
+    await expect(run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' })))
+      .rejects.toThrow('receiveMessage failed: Invalid attestation')
+    expect(calls(ctx)).toEqual(['receiveMessage'])
+    expect(store.get(1n)).toMatchObject({ status: 'settle_failed', statusReason: 'receiveMessage failed: Invalid attestation' })
+
+    // No bytes stored and none from the provider
+    store.recordSource({ messageHash: HASH, ...ORIGIN, verification: 'confirmed' })
+    await expect(run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' })))
+      .rejects.toThrow(/message bytes are unknown/)
+    expect(calls(ctx)).toEqual(['receiveMessage'])
+  })
+
+  it('falls back to a mock mint when a mock attestation is rejected', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation({}, false) })
+    vi.mocked(ctx.walletClient.writeContract)
+      .mockRejectedValueOnce(new Error('Invalid attestation'))
+      .mockResolvedValue('0xtx')
+
+    await run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }))
+    expect(calls(ctx)).toEqual(['receiveMessage', 'mint', 'settle'])
+  })
+
+  it('mock-mints for auto-settle and only retries settle() once funded', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation() })
+    vi.mocked(ctx.walletClient.writeContract)
+      .mockResolvedValueOnce('0xminttx')
+      .mockRejectedValueOnce(new Error('InsufficientBalance()'))
+      .mockResolvedValue('0xsettletx')
+
+    const job = enqueueJob(store, 'settlement', HASH, { attestation: null })
+    await expect(run(ctx, job)).rejects.toThrow('InsufficientBalance()')
+    await run(ctx, store.getJob(job.id)!)
+
+    expect(calls(ctx)).toEqual(['mint', 'settle', 'settle'])
+  })
+
+  it('flags a late attestation for an operator under the strict policy, and keeps polling', async () => {
+    const alert = vi.mocked(console.error)
+    const ctx = mockCtx({
+      publicClient: arcClient(), settlementPolicy: 'strict',
+      attestation: attestation({ status: 'pending', detail: 'pending_confirmations', attestation: null }),
+    })
+    const stale = { ...enqueueJob(store, 'attestation', HASH), createdAt: Date.now() - 18 * 60_000 }
+
+    expect(await run(ctx, stale)).toMatchObject({ retryInMs: 30_000 })
+    expect(await run(ctx, stale)).toMatchObject({ retryInMs: 30_000 })
+    expect(store.getJob(jobId('settlement', HASH))).toBeUndefined()
+    expect(store.get(1n)).toMatchObject({ status: 'needs_operator', statusReason: 'not attested after 17 min' })
+    expect(alert).toHaveBeenCalledOnce()
+
+    // A late attestation still settles it
+    vi.mocked(ctx.attestation.fetchAttestation).mockResolvedValueOnce({
+      status: 'complete', detail: 'complete', attestation: '0xa77e', message: null, decoded: null, api: 'v2',
+    })
+    expect(await run(ctx, stale)).toMatchObject({ state: 'done' })
+    expect(store.getJob(jobId('settlement', HASH))!.state).toBe('queued')
+  })
+
+  it('holds a failed receive for an operator instead of mock-minting under the strict policy', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation({}, false), settlementPolicy: 'strict' })
+    vi.mocked(ctx.walletClient.writeContract).mockRejectedValueOnce(new Error('Invalid attestation'))
+
+    const job = enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' })
+    expect(await run(ctx, job)).toMatchObject({ state: 'held' })
+    expect(calls(ctx)).toEqual(['receiveMessage'])
+    expect(store.get(1n)).toMatchObject({
+      status:       'needs_operator',
+      statusReason: 'receiveMessage failed: Invalid attestation -- mock minting is disabled (SETTLEMENT_POLICY=strict)',
+    })
+
+    // Auto-settlements queued before the policy changed are held too
+    expect(await run(ctx, enqueueJob(store, 'settlement', '0xcctphash2', { attestation: null }))).toMatchObject({ state: 'held' })
+    expect(calls(ctx)).toEqual(['receiveMessage'])
+  })
+
+  it('retries an RPC outage during funding rather than holding it under the strict policy', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation(), settlementPolicy: 'strict' })
+    const outage = Object.assign(new Error('HTTP request failed.'), { name: 'HttpRequestError' })
+    vi.mocked(ctx.walletClient.writeContract).mockRejectedValueOnce(outage)
+
+    await expect(run(ctx, enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' })))
+      .rejects.toThrow('receiveMessage failed: HTTP request failed.')
+    expect(store.get(1n)!.status).not.toBe('needs_operator')
+  })
+
+  it('sends nothing once its run was aborted', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation() })
+    const controller = new AbortController()
+    controller.abort(new Error('Run timed out after 300s'))
+
+    const job = enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' })
+    await expect(attestationJobHandlers(ctx, store).settlement.run(job, { signal: controller.signal, now: Date.now }))
+      .rejects.toThrow('Run timed out after 300s')
+    expect(calls(ctx)).toEqual([])
+  })
+
+  it('waits for operator approval under the manual policy', async () => {
+    const ctx = mockCtx({ publicClient: arcClient(), attestation: attestation(), settlementPolicy: 'manual' })
+    const job = enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' })
+
+    expect(await run(ctx, job)).toEqual({ state: 'held', detail: 'awaiting settlement approval' })
+    expect(calls(ctx)).toEqual([])
+    expect(store.get(1n)!.status).toBe('needs_operator')
+    store.putJob({ ...job, state: 'held' })
+    // Held settlements are not replaced by recovery
+    queueAttestation(store, HASH)
+    expect(store.getJob(jobId('attestation', HASH))).toBeUndefined()
+
+    const approved = approveSettlement(store, HASH, 5)
+    expect(approved).toMatchObject({ state: 'queued', approvedAt: 5, runAt: 5 })
+    expect(approveSettlement(store, HASH)).toBeNull()
+    expect(await run(ctx, approved!)).toMatchObject({ state: 'done' })
+    expect(calls(ctx)).toEqual(['receiveMessage', 'settle'])
+  })
+
+  it('marks the transfer failed and alerts when a job gives up', () => {
+    const alert = vi.mocked(console.error)
+    const handlers = attestationJobHandlers(mockCtx(), store)
+    const job = { ...enqueueJob(store, 'settlement', HASH), state: 'failed' as const, attempts: 8, lastError: 'receiveMessage failed: nope' }
+
+    handlers.settlement.onGiveUp!(job)
+
+    expect(store.getTransfer(HASH)!.stages.at(-1)).toMatchObject({ stage: 'failed', error: 'settlement failed: receiveMessage failed: nope' })
+    expect(alert).toHaveBeenCalledWith(expect.stringMatching(/^\[ALERT\] settlement failed for 0xcctphash1 \(receivable #1\)/), expect.anything())
+  })
+})
+
+describe('recoverSettlements', () => {
+  beforeEach(() => { vi.spyOn(console, 'log').mockImplementation(() => {}) })
+
+  it('queues an attestation job for each active receivable without one in progress', () => {
+    const store = createStore()
+    store.upsert(makeReceivable(1n))
+    store.upsert(makeReceivable(2n))
+    store.upsert(makeReceivable(3n))
+    const settling = enqueueJob(store, 'settlement', '0xcctphash2', { attestation: '0xa77e' })
+    const failed   = { ...enqueueJob(store, 'attestation', '0xcctphash3'), state: 'failed' as const, attempts: 8 }
+    store.putJob(failed)
+
+    recoverSettlements(store)
+
+    expect(store.getJob(jobId('attestation', '0xcctphash1'))!.state).toBe('queued')
+    expect(store.getJob(jobId('attestation', '0xcctphash2'))).toBeUndefined()
+    expect(store.getJob(settling.id)!.state).toBe('queued')
+    // Failed jobs get a fresh start
+    expect(store.getJob(failed.id)).toMatchObject({ state: 'queued', attempts: 0 })
+
+    // Queueing again changes nothing
+    const before = store.queryJobs()
+    queueAttestation(store, '0xcctphash1')
+    expect(store.queryJobs()).toEqual(before)
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createStore, ATTESTATION_WINDOW } from '../src/store.js'
+import {
+  percentile, latencyStats, estimateAttestationSeconds, recordAttestationLatency, MIN_SAMPLES,
+} from '../src/attestationStats.js'
+import { ESTIMATED_ATTESTATION_TIME, FAST_ATTESTATION_TIME } from '../src/chains.js'
+
+describe('attestation latency', () => {
+  let store: ReturnType<typeof createStore>
+
+  const sample = (i: number, seconds: number, sourceDomain = 0) => ({
+    messageHash: `0xhash${sourceDomain}-${i}` as `0x${string}`, sourceDomain, seconds, observedAt: 1000n + BigInt(i),
+  })
+
+  beforeEach(() => { store = createStore() })
+
+  it('computes nearest-rank percentiles', () => {
+    const sorted = Array.from({ length: 10 }, (_, i) => (i + 1) * 10)
+    expect(percentile(sorted, 50)).toBe(50)
+    expect(percentile(sorted, 90)).toBe(90)
+    expect(percentile(sorted, 99)).toBe(100)
+    expect(percentile([7], 1)).toBe(7)
+  })
+
+  it('falls back to the configured estimate until enough samples exist', () => {
+    for (let i = 0; i < MIN_SAMPLES - 1; i++) store.recordAttestationSample(sample(i, 60))
+    expect(latencyStats(store, 0)).toMatchObject({
+      samples: MIN_SAMPLES - 1, p50: 60, estimateSeconds: ESTIMATED_ATTESTATION_TIME, estimateSource: 'configured',
+    })
+    // Avalanche Fuji overrides the contract's estimate in chains.json
+    expect(estimateAttestationSeconds(store, 1)).toBe(20)
+    expect(estimateAttestationSeconds(store, undefined)).toBe(ESTIMATED_ATTESTATION_TIME)
+  })
+
+  it('uses the median of observed samples once there are enough', () => {
+    ;[900, 700, 1300, 800, 1000].forEach((s, i) => store.recordAttestationSample(sample(i, s)))
+    expect(latencyStats(store, 0)).toMatchObject({
+      samples: 5, min: 700, p50: 900, p90: 1300, max: 1300, estimateSeconds: 900, estimateSource: 'observed',
+    })
+    expect(estimateAttestationSeconds(store, 6)).toBe(ESTIMATED_ATTESTATION_TIME)
+  })
+
+  it('keeps a rolling window per domain and ignores repeated messages', () => {
+    for (let i = 0; i < ATTESTATION_WINDOW + 10; i++) store.recordAttestationSample(sample(i, i))
+    store.recordAttestationSample(sample(ATTESTATION_WINDOW + 9, 5))
+    store.recordAttestationSample(sample(0, 30, 6))
+
+    const kept = store.attestationSamples(0)
+    expect(kept).toHaveLength(ATTESTATION_WINDOW)
+    expect(kept[0].seconds).toBe(10)
+    expect(store.attestationSamples(6)).toHaveLength(1)
+    expect(store.attestationSamples()).toHaveLength(ATTESTATION_WINDOW + 1)
+  })
+
+  it('measures from the burn_detected stage of the transfer', () => {
+    store.recordSource({ messageHash: '0xabc', sourceTxHash: '0xtx', sourceDomain: 6 })
+    store.advanceTransfer('0xabc', { stage: 'burn_detected', at: 5_000n })
+    recordAttestationLatency(store, '0xabc', 5_840n)
+
+    expect(store.attestationSamples(6)).toEqual([
+      { messageHash: '0xabc', sourceDomain: 6, transferSpeed: 'standard', seconds: 840, observedAt: 5_840n },
+    ])
+  })
+
+  it('estimates Fast Transfers from their own samples', () => {
+    ;[900, 700, 1300, 800, 1000].forEach((s, i) => store.recordAttestationSample(sample(i, s)))
+    expect(estimateAttestationSeconds(store, 0, 'fast')).toBe(FAST_ATTESTATION_TIME)
+
+    ;[8, 12, 9, 30, 10].forEach((seconds, i) =>
+      store.recordAttestationSample({ ...sample(i + 10, seconds), transferSpeed: 'fast' }))
+    expect(latencyStats(store, 0, 'fast')).toMatchObject({ transferSpeed: 'fast', samples: 5, p50: 10, estimateSource: 'observed' })
+    expect(latencyStats(store, 0).samples).toBe(5)
+    expect(store.attestationSamples(0)).toHaveLength(10)
+  })
+
+  it('skips burns it never saw detected', () => {
+    recordAttestationLatency(store, '0xunknown', 5_840n)
+    expect(store.attestationSamples()).toEqual([])
+  })
+})
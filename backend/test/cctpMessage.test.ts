@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import { concat, keccak256, pad, size, type Hex } from 'viem'
+import {
+  decodeBurnMessage, decodeCctpMessage, encodeBurnMessage, bytes32ToAddress, addressToBytes32,
+  netMintAmount, usedNonceKey, cctpVersionOf, CctpMessageError, FINALITY_STANDARD, type CctpBurnMessage,
+} from '../src/cctpMessage.js'
+
+const MEANTIME = '0x0769d1d0662894dC29cdADE1102411D2a059cc1c'
+const WALLET   = '0xAbCd000000000000000000000000000000001234'
+const USDC     = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238'
+
+const burn = (overrides: Partial<CctpBurnMessage['body']> = {}): CctpBurnMessage => ({
+  version:                   1,
+  sourceDomain:              6,
+  destinationDomain:         26,
+  nonce:                     pad('0x2a', { size: 32 }),
+  sender:                    pad('0x8fe6b999dc680ccfdd5bf7eb0974218be2542daa', { size: 32 }),
+  recipient:                 pad('0x8fe6b999dc680ccfdd5bf7eb0974218be2542daa', { size: 32 }),
+  destinationCaller:         pad('0x', { size: 32 }),
+  minFinalityThreshold:      1000,
+  finalityThresholdExecuted: 1000,
+  body: {
+    version:         1,
+    burnToken:       addressToBytes32(USDC),
+    mintRecipient:   addressToBytes32(MEANTIME),
+    amount:          5_000_000n,
+    messageSender:   addressToBytes32(WALLET),
+    maxFee:          500n,
+    feeExecuted:     320n,
+    expirationBlock: 8_123_456n,
+    hookData:        '0xdeadbeef',
+    ...overrides,
+  },
+})
+
+// The same burn as CCTP V1 sends it: 8-byte nonce, no fees, hooks or finality levels
+const burnV1 = (overrides: Partial<CctpBurnMessage['body']> = {}): CctpBurnMessage => ({
+  ...burn(),
+  version:                   0,
+  nonce:                     '0x000000000000002a',
+  minFinalityThreshold:      FINALITY_STANDARD,
+  finalityThresholdExecuted: FINALITY_STANDARD,
+  body: { ...burn().body, version: 0, maxFee: 0n, feeExecuted: 0n, expirationBlock: 0n, hookData: '0x', ...overrides },
+})
+
+describe('CCTP V2 message codec', () => {
+  it('round-trips every header and body field, including hook data', () => {
+    const message = burn()
+    const encoded = encodeBurnMessage(message)
+    expect(size(encoded)).toBe(148 + 228 + 4)
+    expect(decodeBurnMessage(encoded)).toEqual(message)
+  })
+
+  it('decodes the header without interpreting the body', () => {
+    const encoded = encodeBurnMessage(burn({ hookData: '0x' }))
+    const { messageBody, ...header } = decodeCctpMessage(encoded)
+    expect(header).toMatchObject({ sourceDomain: 6, destinationDomain: 26, minFinalityThreshold: 1000 })
+    expect(size(messageBody)).toBe(228)
+    expect(decodeBurnMessage(encoded).body.hookData).toBe('0x')
+  })
+
+  it('rejects malformed bytes', () => {
+    const encoded = encodeBurnMessage(burn())
+    const cases: [Hex, RegExp][] = [
+      ['0xzz' as Hex,                                 /hex/],
+      [`${encoded}0` as Hex,                          /whole bytes/],
+      [encoded.slice(0, 2 + 100 * 2) as Hex,          /shorter than the 148-byte V2 header/],
+      [encoded.slice(0, 2 + 300 * 2) as Hex,          /shorter than the 228-byte V2 layout/],
+      [`0x00000002${encoded.slice(10)}` as Hex,       /Unsupported CCTP message version 2 \(expected 0 for V1 or 1 for V2\)/],
+      [`${encoded.slice(0, 298)}00000002${encoded.slice(306)}` as Hex, /Unsupported BurnMessage version 2/],
+      [`${encoded.slice(0, 298)}00000000${encoded.slice(306)}` as Hex, /V1 BurnMessage body is 232 bytes, expected 132/],
+    ]
+    for (const [bytes, error] of cases) {
+      expect(() => decodeBurnMessage(bytes)).toThrow(CctpMessageError)
+      expect(() => decodeBurnMessage(bytes)).toThrow(error)
+    }
+  })
+
+  it('rejects fees CCTP would never produce', () => {
+    expect(() => encodeBurnMessage(burn({ maxFee: 5_000_000n }))).toThrow(/maxFee 5000000 is not less than amount/)
+    expect(() => encodeBurnMessage(burn({ feeExecuted: 501n }))).toThrow(/feeExecuted 501 exceeds maxFee 500/)
+    expect(() => encodeBurnMessage(burn({ amount: 0n, maxFee: 0n, feeExecuted: 0n }))).toThrow(/amount is zero/)
+  })
+
+  it('validates fields when encoding', () => {
+    expect(() => encodeBurnMessage({ ...burn(), sourceDomain: 2 ** 32 })).toThrow(/sourceDomain must be a uint32/)
+    expect(() => encodeBurnMessage({ ...burn(), nonce: '0x2a' })).toThrow(/nonce must be 32 bytes/)
+    expect(() => encodeBurnMessage(burn({ amount: -1n }))).toThrow(/amount must be a uint256/)
+  })
+
+  it('nets the fee out of the amount', () => {
+    expect(netMintAmount(burn())).toBe(5_000_000n - 320n)
+    // Not yet attested: assume the whole maxFee
+    expect(netMintAmount({ ...burn({ feeExecuted: 0n }), finalityThresholdExecuted: 0 })).toBe(5_000_000n - 500n)
+  })
+
+  it('converts bytes32 addresses, leaving non-EVM ones null', () => {
+    expect(bytes32ToAddress(addressToBytes32(MEANTIME))).toBe(MEANTIME)
+    expect(bytes32ToAddress(`0x${'11'.repeat(32)}`)).toBeNull()
+  })
+})
+
+describe('CCTP V1 message codec', () => {
+  it('round-trips a V1 burn into the same types as V2', () => {
+    const message = burnV1()
+    const encoded = encodeBurnMessage(message)
+    expect(size(encoded)).toBe(116 + 132)
+    expect(decodeBurnMessage(encoded)).toEqual(message)
+    expect(cctpVersionOf(decodeCctpMessage(encoded))).toBe(1)
+    expect(netMintAmount(message)).toBe(5_000_000n)
+  })
+
+  it('rejects truncated V1 messages and mixed versions rather than misparsing them', () => {
+    const encoded = encodeBurnMessage(burnV1())
+    expect(() => decodeBurnMessage(encoded.slice(0, 2 + 100 * 2) as Hex)).toThrow(/shorter than the 116-byte V1 header/)
+    // A V1 header carrying a V2 body
+    const mixed = concat([encoded.slice(0, 2 + 116 * 2) as Hex, encodeBurnMessage(burn()).slice(2 + 148 * 2) as Hex])
+    expect(() => decodeBurnMessage(mixed)).toThrow(/BurnMessage version 1 does not match CCTP message version 0/)
+  })
+
+  it('refuses to encode fields V1 cannot carry', () => {
+    expect(() => encodeBurnMessage(burnV1({ maxFee: 1n }))).toThrow(/CCTP V1 messages have no maxFee/)
+    expect(() => encodeBurnMessage({ ...burnV1(), minFinalityThreshold: 1000 })).toThrow(/no minFinalityThreshold/)
+    expect(() => encodeBurnMessage({ ...burnV1(), nonce: burn().nonce })).toThrow(/nonce must be 8 bytes/)
+  })
+
+  it('keys used nonces by source domain in V1, by nonce in V2', () => {
+    expect(usedNonceKey(burn())).toBe(burn().nonce)
+    expect(usedNonceKey(burnV1())).toBe(keccak256(concat(['0x00000006', '0x000000000000002a'])))
+  })
+})
+
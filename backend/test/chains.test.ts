@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import {
+  CHAINS, parseChainRegistry, loadChainRegistry, attestationSecondsFor, ESTIMATED_ATTESTATION_TIME, FAST_ATTESTATION_TIME,
+} from '../src/chains.js'
+
+const clone = () => JSON.parse(JSON.stringify(CHAINS))
+
+describe('chain registry', () => {
+  it('loads chains.json with Arc and every CCTP source chain', () => {
+    expect(CHAINS.arc.domain).toBe(26)
+    const domains = CHAINS.sources.map(s => s.domain)
+    expect(new Set(domains).size).toBe(domains.length)
+    expect(domains).toContain(0)
+  })
+
+  it('rejects a malformed address', () => {
+    const raw = clone()
+    raw.sources[0].cctp.usdc = '0x1234'
+    expect(() => parseChainRegistry(raw)).toThrow(/cctp.usdc must be an address/)
+  })
+
+  it('rejects duplicate source keys', () => {
+    const raw = clone()
+    raw.sources.push(raw.sources[0])
+    expect(() => parseChainRegistry(raw)).toThrow(/duplicate key/)
+  })
+
+  it('requires poll settings on source chains', () => {
+    const raw = clone()
+    delete raw.sources[0].blockTimeSeconds
+    expect(() => parseChainRegistry(raw)).toThrow(/blockTimeSeconds must be positive/)
+  })
+
+  it('accepts only CCTP versions 1 and 2', () => {
+    const raw = clone()
+    raw.sources[0].cctpVersion = 1
+    expect(parseChainRegistry(raw).sources[0].cctpVersion).toBe(1)
+    raw.sources[0].cctpVersion = 3
+    expect(() => parseChainRegistry(raw)).toThrow(/cctpVersion must be 1 or 2/)
+  })
+
+  it('rejects a non-positive fast attestation estimate', () => {
+    const raw = clone()
+    raw.sources[0].fastAttestationSeconds = 0
+    expect(() => parseChainRegistry(raw)).toThrow(/fastAttestationSeconds must be positive/)
+  })
+
+  it('names the missing registry file and CHAINS_PATH', () => {
+    expect(() => loadChainRegistry('/nonexistent/chains.json')).toThrow(/not found at \/nonexistent\/chains.json.*CHAINS_PATH/)
+  })
+
+  it('estimates attestation time by transfer speed', () => {
+    expect(attestationSecondsFor(undefined)).toBe(ESTIMATED_ATTESTATION_TIME)
+    expect(attestationSecondsFor(undefined, 'fast')).toBe(FAST_ATTESTATION_TIME)
+  })
+})
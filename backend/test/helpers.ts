@@ -9,10 +9,13 @@ export function mockCtx(overrides: Partial<AppCtx> = {}): AppCtx {
     publicClient: {
       getBlockNumber:     vi.fn().mockResolvedValue(1000n),
       getContractEvents:  vi.fn().mockResolvedValue([]),
+      getBlock:           vi.fn().mockImplementation(({ blockNumber }: { blockNumber: bigint }) =>
+        Promise.resolve({ number: blockNumber, timestamp: blockTimestamp(blockNumber) })),
     } as unknown as AppCtx['publicClient'],
     walletClient: {
       writeContract: vi.fn().mockResolvedValue('0xdeadbeeftxhash'),
     } as unknown as AppCtx['walletClient'],
+    sources: [],
     account: { address: '0xBridgeAddress' } as AppCtx['account'],
     addresses: {
       meantime: '0xMeantimeAddress',
@@ -20,10 +23,24 @@ export function mockCtx(overrides: Partial<AppCtx> = {}): AppCtx {
       eurc:     '0xEurcAddress',
       bridge:   '0xBridgeAddress',
     },
+    attestation: {
+      name:             'test',
+      trusted:          true,
+      fetchAttestation: vi.fn().mockResolvedValue({
+        status: 'pending', detail: 'not_found', attestation: null, message: null, decoded: null, api: 'v2',
+      }),
+    },
+    settlementPolicy: 'testnet',
+    operatorToken:    'test-operator-token',
     ...overrides,
   }
 }
 
+// Deterministic fake block timestamp used by the mocked getBlock
+export function blockTimestamp(blockNumber: bigint): bigint {
+  return 1_700_000_000n + blockNumber
+}
+
 // Build a minimal Receivable fixture (all fields required)
 export function makeReceivable(n: bigint = 1n, overrides: Partial<Receivable> = {}): Receivable {
   return {
@@ -32,8 +49,14 @@ export function makeReceivable(n: bigint = 1n, overrides: Partial<Receivable> =
     inboundToken:    '0xUsdcAddress' as `0x${string}`,
     inboundAmount:   1_000_000n * n,   // n USDC (6 decimals)
     mintedAt:        100n,
+    estimatedSettleAt: 1120n,
     beneficialOwner: '0xAliceAddress' as `0x${string}`,
     listing:         null,
+    status:          'awaiting_attestation',
+    statusReason:    null,
+    transferSpeed:   null,
+    burnAmount:      null,
+    requestedListing: null,
     ...overrides,
   }
 }
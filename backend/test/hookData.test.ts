@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { size, type Hex } from 'viem'
+import {
+  encodeMeanTimeHook, decodeMeanTimeHook, meantimeHookOf, HookDataError, MEANTIME_HOOK_MAGIC, type MeanTimeHook,
+} from '../src/hookData.js'
+
+const RECIPIENT = '0x00000000000000000000000000000000000000B0'
+const EURC      = '0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a'
+
+const hook = (overrides: Partial<MeanTimeHook> = {}): MeanTimeHook => ({
+  version:   1,
+  recipient: RECIPIENT,
+  listing:   { reservePrice: 9_900_000n, paymentToken: EURC },
+  ...overrides,
+})
+
+describe('MeanTime hookData', () => {
+  it('round-trips a recipient with and without listing instructions', () => {
+    const withListing = encodeMeanTimeHook(hook())
+    expect(size(withListing)).toBe(78)
+    expect(withListing.startsWith(MEANTIME_HOOK_MAGIC)).toBe(true)
+    expect(decodeMeanTimeHook(withListing)).toEqual(hook())
+
+    const bare = encodeMeanTimeHook(hook({ listing: null }))
+    expect(size(bare)).toBe(26)
+    expect(decodeMeanTimeHook(bare)).toEqual(hook({ listing: null }))
+  })
+
+  it('ignores hook data that is not MeanTime\'s', () => {
+    expect(decodeMeanTimeHook('0x')).toBeNull()
+    expect(decodeMeanTimeHook('0xdeadbeef00')).toBeNull()
+  })
+
+  it('rejects malformed MeanTime hooks rather than misreading them', () => {
+    const encoded = encodeMeanTimeHook(hook())
+    const cases: [Hex, RegExp][] = [
+      [encoded.slice(0, 2 + 20 * 2) as Hex,                        /20 bytes, shorter than 26/],
+      [`${encoded.slice(0, 10)}02${encoded.slice(12)}` as Hex,     /Unsupported MeanTime hook version 2/],
+      [`${encoded.slice(0, 52)}03${encoded.slice(54)}` as Hex,     /Unknown MeanTime hook flags 0x3/],
+      [encoded.slice(0, 2 + 60 * 2) as Hex,                        /60 bytes, expected 78/],
+      [`${encoded.slice(0, 10)}01${'00'.repeat(20)}00` as Hex,     /recipient must be a non-zero address/],
+      [`${encoded.slice(0, 54)}${'00'.repeat(32)}${encoded.slice(118)}` as Hex, /reservePrice must be a positive uint256/],
+    ]
+    for (const [bytes, error] of cases) {
+      expect(() => decodeMeanTimeHook(bytes)).toThrow(HookDataError)
+      expect(() => decodeMeanTimeHook(bytes)).toThrow(error)
+      expect(meantimeHookOf(bytes)).toBeNull()
+    }
+  })
+
+  it('validates fields when encoding', () => {
+    expect(() => encodeMeanTimeHook(hook({ version: 2 }))).toThrow(/Unsupported MeanTime hook version 2/)
+    expect(() => encodeMeanTimeHook(hook({ recipient: '0x0000000000000000000000000000000000000000' }))).toThrow(/recipient/)
+    expect(() => encodeMeanTimeHook(hook({ listing: { reservePrice: 0n, paymentToken: EURC } }))).toThrow(/reservePrice/)
+  })
+})
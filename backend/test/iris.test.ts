@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { keccak256 } from 'viem'
+import { fetchAttestation, IRIS_API } from '../src/iris.js'
+import { isUnavailableError } from '../src/jobQueue.js'
+
+const MESSAGE = '0x00000001000000000000001a' as `0x${string}`
+const OTHER   = '0x00000001000000060000001a' as `0x${string}`
+const HASH    = keccak256(MESSAGE)
+const ORIGIN  = { sourceDomain: 6, sourceTxHash: '0xburn' as `0x${string}` }
+
+// A fetch mock answering each URL prefix with a status and JSON body
+function mockFetch(routes: Record<string, [number, unknown]>) {
+  const fn = vi.fn(async (url: string) => {
+    const match = Object.entries(routes).find(([prefix]) => url.startsWith(prefix))
+    const [status, body] = match?.[1] ?? [404, {}]
+    return { ok: status >= 200 && status < 300, status, json: async () => body } as Response
+  })
+  vi.stubGlobal('fetch', fn)
+  return fn
+}
+
+const V2 = `${IRIS_API}/v2/messages/6?transactionHash=0xburn`
+const V1 = `${IRIS_API}/attestations/${HASH}`
+
+describe('fetchAttestation', () => {
+  beforeEach(() => { vi.spyOn(console, 'warn').mockImplementation(() => {}) })
+  afterEach(() => { vi.unstubAllGlobals(); vi.restoreAllMocks() })
+
+  it('returns message bytes, attestation and decoded fields from V2', async () => {
+    const fetch = mockFetch({
+      [V2]: [200, { messages: [
+        { message: OTHER,   attestation: '0xother', status: 'complete' },
+        { message: MESSAGE, attestation: '0xa77e', status: 'complete', decodedMessage: { sourceDomain: '6' } },
+      ] }],
+    })
+    const result = await fetchAttestation(IRIS_API, HASH, ORIGIN)
+
+    expect(fetch).toHaveBeenCalledWith(V2, { signal: undefined })
+    expect(result).toEqual({
+      status: 'complete', detail: 'complete', attestation: '0xa77e', message: MESSAGE,
+      decoded: { sourceDomain: '6' }, api: 'v2',
+    })
+  })
+
+  it('reports pending V2 attestations and unindexed burns as pending', async () => {
+    mockFetch({ [V2]: [200, { messages: [{ message: MESSAGE, attestation: 'PENDING', status: 'pending_confirmations' }] }] })
+    expect(await fetchAttestation(IRIS_API, HASH, ORIGIN)).toMatchObject({
+      status: 'pending', detail: 'pending_confirmations', attestation: null, message: MESSAGE,
+    })
+
+    mockFetch({})
+    expect(await fetchAttestation(IRIS_API, HASH, ORIGIN)).toMatchObject({ status: 'pending', detail: 'not_found', api: 'v2' })
+  })
+
+  it('falls back to V1 when V2 fails', async () => {
+    const fetch = mockFetch({
+      [V2]: [503, {}],
+      [V1]: [200, { status: 'complete', attestation: '0xa77e' }],
+    })
+    expect(await fetchAttestation(IRIS_API, HASH, ORIGIN)).toMatchObject({
+      status: 'complete', attestation: '0xa77e', message: null, api: 'v1',
+    })
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('uses V1 when the burn origin is unknown', async () => {
+    const fetch = mockFetch({ [V1]: [200, { status: 'pending_confirmations', attestation: null }] })
+    expect(await fetchAttestation(IRIS_API, HASH)).toMatchObject({ status: 'pending', detail: 'pending_confirmations', api: 'v1' })
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(fetch).toHaveBeenCalledWith(V1, { signal: undefined })
+  })
+
+  it('reports server errors as unavailability, and other statuses as failures', async () => {
+    mockFetch({ [V1]: [503, {}] })
+    const unavailable = await fetchAttestation(IRIS_API, HASH).catch(err => err)
+    expect(unavailable.message).toBe('Iris V1 returned 503')
+    expect(isUnavailableError(unavailable)).toBe(true)
+
+    mockFetch({ [V1]: [400, {}] })
+    expect(isUnavailableError(await fetchAttestation(IRIS_API, HASH).catch(err => err))).toBe(false)
+  })
+
+  it('passes the signal on and does not fall back once it is aborted', async () => {
+    const controller = new AbortController()
+    const fetch = vi.fn(async (_url: string, { signal }: RequestInit) => {
+      controller.abort(new Error('Run timed out'))
+      signal!.throwIfAborted()
+      return {} as Response
+    })
+    vi.stubGlobal('fetch', fetch)
+
+    await expect(fetchAttestation(IRIS_API, HASH, ORIGIN, controller.signal)).rejects.toThrow('Run timed out')
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(fetch).toHaveBeenCalledWith(V2, { signal: controller.signal })
+  })
+})
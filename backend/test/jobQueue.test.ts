@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createStore, type Job } from '../src/store.js'
+import {
+  startJobQueue, enqueueJob, backoffMs, jobId, isUnavailableError, ServiceUnavailableError, MAX_JOB_ATTEMPTS, JOB_RETENTION_MS,
+  type JobHandler,
+} from '../src/jobQueue.js'
+
+const HASH = '0xcctphash1' as `0x${string}`
+
+// Let the queue's first tick (and its handler) run
+const flush = () => new Promise(r => setTimeout(r, 10))
+
+describe('job queue', () => {
+  let store: ReturnType<typeof createStore>
+  let clock: number
+  const now = () => clock
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    store = createStore()
+    clock = 1_000_000
+  })
+
+  function start(attestation: JobHandler, settlement: JobHandler = { run: vi.fn() }, jobTimeoutMs?: number) {
+    return startJobQueue(store, { attestation, settlement }, { now, tickMs: 5, jobTimeoutMs })
+  }
+
+  it('backs off exponentially up to a cap', () => {
+    expect([1, 2, 3, 4].map(backoffMs)).toEqual([30_000, 60_000, 120_000, 240_000])
+    expect(backoffMs(20)).toBe(15 * 60_000)
+  })
+
+  it('does not queue a second job for the same work, but replaces finished ones', () => {
+    const first = enqueueJob(store, 'attestation', HASH, {}, 1)
+    expect(enqueueJob(store, 'attestation', '0xCCTPHASH1', {}, 2)).toBe(first)
+
+    store.putJob({ ...first, state: 'failed', attempts: MAX_JOB_ATTEMPTS })
+    expect(enqueueJob(store, 'attestation', HASH, {}, 3)).toMatchObject({ state: 'queued', attempts: 0, createdAt: 3 })
+    expect(store.queryJobs()).toHaveLength(1)
+  })
+
+  it('runs due jobs and records their outcome', async () => {
+    const run = vi.fn().mockResolvedValue({ state: 'done', detail: 'attested via v2' })
+    enqueueJob(store, 'attestation', HASH, {}, clock)
+    enqueueJob(store, 'attestation', '0xlater', {}, clock)
+    store.putJob({ ...store.getJob(jobId('attestation', '0xlater'))!, runAt: clock + 60_000 })
+
+    const stop = start({ run })
+    await flush()
+    await stop()
+
+    expect(run).toHaveBeenCalledOnce()
+    expect(store.getJob(jobId('attestation', HASH))).toMatchObject({ state: 'done', detail: 'attested via v2' })
+    expect(store.getJob(jobId('attestation', '0xlater'))!.state).toBe('queued')
+  })
+
+  it('reschedules polls without counting them as attempts', async () => {
+    enqueueJob(store, 'attestation', HASH, {}, clock)
+    const stop = start({ run: vi.fn().mockResolvedValue({ retryInMs: 30_000, detail: 'pending_confirmations via v2' }) })
+    await flush()
+    await stop()
+
+    expect(store.getJob(jobId('attestation', HASH))).toMatchObject({
+      state: 'queued', attempts: 0, polls: 1, runAt: clock + 30_000, detail: 'pending_confirmations via v2',
+    })
+  })
+
+  it('retries failures with backoff, then gives up', async () => {
+    const onGiveUp = vi.fn()
+    const handler: JobHandler = { run: vi.fn().mockRejectedValue(new Error('RPC down')), onGiveUp }
+    enqueueJob(store, 'attestation', HASH, {}, clock)
+
+    let stop = start(handler)
+    await flush()
+    await stop()
+    expect(store.getJob(jobId('attestation', HASH))).toMatchObject({
+      state: 'queued', attempts: 1, lastError: 'RPC down', runAt: clock + backoffMs(1),
+    })
+
+    store.putJob({ ...store.getJob(jobId('attestation', HASH))!, attempts: MAX_JOB_ATTEMPTS - 1, runAt: clock })
+    stop = start(handler)
+    await flush()
+    await stop()
+    expect(store.getJob(jobId('attestation', HASH))).toMatchObject({ state: 'failed', attempts: MAX_JOB_ATTEMPTS })
+    expect(onGiveUp).toHaveBeenCalledOnce()
+    expect(onGiveUp.mock.calls[0][0]).toMatchObject({ id: jobId('attestation', HASH), lastError: 'RPC down' })
+  })
+
+  it('retries unreachable services without counting attempts', async () => {
+    const refused = new TypeError('fetch failed', { cause: Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' }) })
+    const run = vi.fn()
+      .mockRejectedValueOnce(new ServiceUnavailableError('Iris V2 returned 503'))
+      .mockRejectedValueOnce(refused)
+    enqueueJob(store, 'attestation', HASH, {}, clock)
+    store.putJob({ ...store.getJob(jobId('attestation', HASH))!, attempts: MAX_JOB_ATTEMPTS - 1 })
+
+    for (const lastError of ['Iris V2 returned 503', 'fetch failed']) {
+      const stop = start({ run })
+      await flush()
+      await stop()
+      expect(store.getJob(jobId('attestation', HASH))).toMatchObject({
+        state: 'queued', attempts: MAX_JOB_ATTEMPTS - 1, lastError, runAt: clock + backoffMs(MAX_JOB_ATTEMPTS),
+      })
+      store.putJob({ ...store.getJob(jobId('attestation', HASH))!, runAt: clock })
+    }
+  })
+
+  it('tells outages from failures, through error causes', () => {
+    const viemTransport = Object.assign(new Error('HTTP request failed.'), { name: 'HttpRequestError' })
+    expect(isUnavailableError(new Error('wrapped', { cause: viemTransport }))).toBe(true)
+    expect(isUnavailableError(new Error('execution reverted: InsufficientBalance()'))).toBe(false)
+    expect(isUnavailableError('RPC down')).toBe(false)
+  })
+
+  it('aborts a run that outlasts its timeout and counts it as an attempt', async () => {
+    let signal!: AbortSignal
+    const run = vi.fn((_job: Job, context: { signal: AbortSignal }) => {
+      signal = context.signal
+      return new Promise<never>(() => {})  // ignores the signal
+    })
+    enqueueJob(store, 'attestation', HASH, {}, clock)
+
+    const stop = start({ run }, undefined, 5)
+    await flush()
+    await stop()
+
+    expect(signal.aborted).toBe(true)
+    expect(store.getJob(jobId('attestation', HASH))).toMatchObject({
+      state: 'queued', attempts: 1, lastError: 'Run timed out after 0.005s',
+    })
+  })
+
+  it('gives handlers the queue\'s clock', async () => {
+    const run = vi.fn(async (_job: Job, context: { now: () => number }) => {
+      enqueueJob(store, 'settlement', HASH, {}, context.now())
+      return { state: 'done' as const }
+    })
+    enqueueJob(store, 'attestation', HASH, {}, clock)
+
+    const stop = start({ run })
+    await flush()
+    await stop()
+
+    expect(store.getJob(jobId('settlement', HASH))!.createdAt).toBe(clock)
+  })
+
+  it('resumes jobs a crash left running', async () => {
+    const job = enqueueJob(store, 'settlement', HASH, { attestation: '0xa77e' }, clock - 5_000)
+    store.putJob({ ...job, state: 'running' })
+    const run = vi.fn().mockResolvedValue({ state: 'done' })
+
+    const stop = start({ run: vi.fn() }, { run })
+    await flush()
+    await stop()
+
+    expect(run).toHaveBeenCalledWith(
+      expect.objectContaining({ id: job.id, state: 'queued', attestation: '0xa77e' }),
+      { signal: expect.any(AbortSignal), now },
+    )
+    expect(store.getJob(job.id)!.state).toBe('done')
+  })
+
+  it('keeps progress a handler saved while running', async () => {
+    const job = enqueueJob(store, 'settlement', HASH, { attestation: null }, clock)
+    const run = vi.fn(async (j: Job) => {
+      store.putJob({ ...j, funded: true })
+      throw new Error('InsufficientBalance()')
+    })
+
+    const stop = start({ run: vi.fn() }, { run })
+    await flush()
+    await stop()
+
+    expect(store.getJob(job.id)).toMatchObject({ state: 'queued', funded: true, attempts: 1 })
+  })
+
+  it('prunes done and cancelled jobs once past retention, keeping failed and recent ones', async () => {
+    const old = clock - JOB_RETENTION_MS - 1
+    const finish = (hash: `0x${string}`, state: Job['state'], updatedAt: number) =>
+      store.putJob({ ...enqueueJob(store, 'attestation', hash, {}, updatedAt), state, updatedAt })
+    finish('0xdone', 'done', old)
+    finish('0xcancelled', 'cancelled', old)
+    finish('0xfailed', 'failed', old)
+    finish('0xrecent', 'done', clock - 60_000)
+
+    const stop = start({ run: vi.fn() })
+    await flush()
+    await stop()
+
+    expect(store.queryJobs().map(j => j.messageHash).sort()).toEqual(['0xfailed', '0xrecent'])
+    expect(store.queryJobs({ state: 'done' }).map(j => j.messageHash)).toEqual(['0xrecent'])
+  })
+
+  it('waits for the running job on stop and starts no more', async () => {
+    let finish!: () => void
+    const run = vi.fn(() => new Promise<{ state: 'done' }>(resolve => { finish = () => resolve({ state: 'done' }) }))
+    enqueueJob(store, 'attestation', HASH, {}, clock)
+    enqueueJob(store, 'attestation', '0xother', {}, clock)
+
+    const stop = start({ run })
+    await flush()
+    let stopped = false
+    const stopping = stop().then(() => { stopped = true })
+    await flush()
+    expect(stopped).toBe(false)
+
+    finish()
+    await stopping
+    expect(run).toHaveBeenCalledOnce()
+    expect(store.queryJobs({ state: 'queued' })).toHaveLength(1)
+  })
+})
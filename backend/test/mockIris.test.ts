@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import request from 'supertest'
+import { type AddressInfo } from 'net'
+import { keccak256, recoverAddress } from 'viem'
+import { createMockIris, startMockIris, mockIrisAttestationProvider } from '../src/mockIris.js'
+
+const MESSAGE = '0x00000001000000060000001a' as `0x${string}`
+const HASH    = keccak256(MESSAGE)
+const BURN    = { message: MESSAGE, sourceDomain: 6, transactionHash: '0xBURN' }
+
+describe('mock Iris server', () => {
+  let clock = 0
+  const now = () => clock
+
+  afterEach(() => { clock = 0 })
+
+  it('keeps a registered message pending for the delay, then signs it', async () => {
+    const { app, attester } = createMockIris({ delayMs: 60_000, now })
+    await request(app).post('/mock/messages').send(BURN).expect(200, { messageHash: HASH })
+
+    const pending = await request(app).get('/v2/messages/6?transactionHash=0xburn').expect(200)
+    expect(pending.body.messages).toEqual([{
+      message: MESSAGE, attestation: 'PENDING', status: 'pending_confirmations', cctpVersion: 2, decodedMessage: null,
+    }])
+
+    clock = 60_000
+    const done = await request(app).get('/v2/messages/6?transactionHash=0xburn').expect(200)
+    const [msg] = done.body.messages
+    expect(msg.status).toBe('complete')
+    expect(await recoverAddress({ hash: HASH, signature: msg.attestation })).toBe(attester)
+
+    // V1 sees the same message
+    await request(app).get(`/attestations/${HASH}`).expect(200, { status: 'complete', attestation: msg.attestation })
+  })
+
+  it('returns 404 for burns it was not told about', async () => {
+    const { app } = createMockIris({ now })
+    await request(app).post('/mock/messages').send(BURN)
+    await request(app).get('/v2/messages/6?transactionHash=0xother').expect(404)
+    await request(app).get('/v2/messages/1?transactionHash=0xburn').expect(404)
+  })
+
+  it('starts the V1 clock on first lookup of an unknown hash', async () => {
+    const { app } = createMockIris({ delayMs: 1000, now })
+    await request(app).get(`/attestations/${HASH}`).expect(200, { status: 'pending_confirmations', attestation: null })
+    clock = 1000
+    const res = await request(app).get(`/attestations/${HASH}`).expect(200)
+    expect(res.body.status).toBe('complete')
+    await request(app).get('/attestations/0x1234').expect(400)
+  })
+
+  it('applies pending and error outcomes, per server or per message', async () => {
+    const stuck = createMockIris({ outcome: 'pending', now })
+    await request(stuck.app).post('/mock/messages').send(BURN)
+    clock = 1e9
+    const res = await request(stuck.app).get('/v2/messages/6?transactionHash=0xburn').expect(200)
+    expect(res.body.messages[0].status).toBe('pending_confirmations')
+
+    const { app } = createMockIris({ now })
+    await request(app).post('/mock/messages').send({ ...BURN, outcome: 'error' })
+    await request(app).get('/v2/messages/6?transactionHash=0xburn').expect(500)
+    await request(app).get(`/attestations/${HASH}`).expect(500)
+  })
+
+  it('rejects malformed registrations', async () => {
+    const { app } = createMockIris()
+    await request(app).post('/mock/messages').send({ ...BURN, message: 'nope' }).expect(400)
+    await request(app).post('/mock/messages').send({ ...BURN, sourceDomain: 'six' }).expect(400)
+    await request(app).post('/mock/messages').send({ ...BURN, outcome: 'maybe' }).expect(400)
+  })
+})
+
+describe('mockIrisAttestationProvider', () => {
+  it('registers burns and reads attestations through the Iris client', async () => {
+    const mock = startMockIris({ port: 0, delayMs: 0 })
+    await new Promise(resolve => mock.server.once('listening', resolve))
+    const { port } = mock.server.address() as AddressInfo
+    try {
+      const provider = mockIrisAttestationProvider(`http://localhost:${port}`)
+      const origin = { sourceDomain: 6, sourceTxHash: '0xburn' as `0x${string}` }
+
+      expect(await provider.fetchAttestation(HASH, origin)).toMatchObject({ status: 'pending', detail: 'not_found' })
+      await provider.registerBurn!(HASH, MESSAGE, origin)
+
+      const result = await provider.fetchAttestation(HASH, origin)
+      expect(result).toMatchObject({ status: 'complete', message: MESSAGE, api: 'v2' })
+      expect(await recoverAddress({ hash: HASH, signature: result.attestation! })).toBe(mock.attester)
+    } finally {
+      await new Promise(resolve => mock.server.close(resolve))
+    }
+  })
+})
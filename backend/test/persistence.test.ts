@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, existsSync, writeFileSync, readFileSync, appendFileSync, statSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { createStore, type Receivable } from '../src/store.js'
+import { jsonFilePersistence } from '../src/persistence.js'
+import { makeReceivable } from './helpers.js'
+
+// Saves are coalesced into a microtask; let it run.
+const flush = () => new Promise(r => setTimeout(r, 0))
+
+describe('jsonFilePersistence', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir  = mkdtempSync(join(tmpdir(), 'meantime-store-'))
+    path = join(dir, 'nested', 'store.json')
+  })
+  afterEach(() => rmSync(dir, { recursive: true, force: true }))
+
+  it('starts empty when the file does not exist', () => {
+    const store = createStore(jsonFilePersistence(path))
+    expect(store.snapshot()).toEqual([])
+  })
+
+  it('survives a restart with bigints and listings intact', async () => {
+    const first = createStore(jsonFilePersistence(path))
+    first.upsert(makeReceivable(1n, {
+      inboundAmount: 123_456_789n,
+      listing: { reservePrice: 990_000n, paymentToken: '0xEurcAddress' as `0x${string}` },
+    }))
+    first.upsert(makeReceivable(2n))
+    await flush()
+    expect(existsSync(`${path}.log`)).toBe(true)
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.snapshot()).toHaveLength(2)
+    expect(second.get(1n)!.inboundAmount).toBe(123_456_789n)
+    expect(second.get(1n)!.listing).toEqual({ reservePrice: 990_000n, paymentToken: '0xEurcAddress' })
+  })
+
+  it('persists removals, known hashes, burn sources and trades', async () => {
+    const first = createStore(jsonFilePersistence(path))
+    first.upsert(makeReceivable(1n))
+    first.remove(1n)
+    first.markKnown('0xABC')
+    first.recordSource({ messageHash: '0xABC', sourceTxHash: '0xTX', sourceDomain: 0, messageBytes: '0x0102' })
+    first.recordTrade({
+      tokenId: 1n, buyer: '0xBob', seller: '0xAlice', paymentToken: '0xEurc', price: 4n,
+      ageAtFill: 60n, timestamp: 1000n, blockNumber: 10n, txHash: '0xFILL', logIndex: 0,
+    })
+    await flush()
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.get(1n)).toBeUndefined()
+    // Settled receivables stay known so they are never minted twice
+    expect(second.isKnown('0xcctphash1')).toBe(true)
+    expect(second.isKnown('0xabc')).toBe(true)
+    expect(second.messageHashesForSourceTx('0xtx')).toEqual(['0xABC'])
+    // Message bytes survive so recovery can call receiveMessage
+    expect(second.getSource('0xabc')?.messageBytes).toBe('0x0102')
+    expect(second.queryTrades()[0]).toMatchObject({ price: 4n, txHash: '0xFILL' })
+  })
+
+  it('replays a trade re-stamped with its block time in place of the first record', async () => {
+    const first = createStore(jsonFilePersistence(path))
+    const fill = {
+      tokenId: 1n, buyer: '0xBob', seller: '0xAlice', paymentToken: '0xEurc', price: 4n,
+      ageAtFill: 60n, timestamp: 0n, blockNumber: 10n, txHash: '0xFILL', logIndex: 0,
+    } as const
+    first.recordTrade(fill)
+    await flush()
+    first.recordTrade({ ...fill, timestamp: 1000n })
+    await flush()
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.queryTrades().map(t => t.timestamp)).toEqual([1000n])
+  })
+
+  it('persists recipient assignments so a restart keeps the chosen recipient', async () => {
+    const first = createStore(jsonFilePersistence(path))
+    first.putRecipientAssignment({
+      sourceTxHash: '0xTX', sourceDomain: 6, recipient: '0xBob', signer: '0xAlice', signature: '0x5167',
+    })
+    await flush()
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.getRecipientAssignment('0xtx')).toMatchObject({ recipient: '0xBob', signer: '0xAlice' })
+  })
+
+  it('persists jobs so queued work resumes after a restart', async () => {
+    const first = createStore(jsonFilePersistence(path))
+    first.putJob({
+      id: 'settlement:0xabc', kind: 'settlement', messageHash: '0xabc', state: 'running',
+      attempts: 2, polls: 0, createdAt: 1, updatedAt: 2, runAt: 3, detail: null, lastError: 'RPC down',
+      attestation: '0xa77e', funded: true,
+    })
+    await flush()
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.getJob('settlement:0xabc')).toMatchObject({ state: 'running', attempts: 2, attestation: '0xa77e', funded: true })
+  })
+
+  it('writes once per batch of synchronous mutations', async () => {
+    const persistence = jsonFilePersistence(path)
+    const append = vi.spyOn(persistence, 'append')
+    const store = createStore(persistence)
+    store.upsert(makeReceivable(1n))
+    store.upsert(makeReceivable(2n))
+    store.patch(1n, { beneficialOwner: '0xBobAddress' as `0x${string}` })
+    await flush()
+    expect(append).toHaveBeenCalledOnce()
+  })
+
+  it('appends only what a batch changed to the log', async () => {
+    const store = createStore(jsonFilePersistence(path))
+    for (let id = 1n; id <= 20n; id++) store.upsert(makeReceivable(id))
+    await flush()
+    store.patch(7n, { beneficialOwner: '0xBobAddress' as `0x${string}` })
+    store.remove(8n)
+    await flush()
+
+    const lines = readFileSync(`${path}.log`, 'utf8').trim().split('\n')
+    expect(lines).toHaveLength(2)
+    const last = JSON.parse(lines[1])
+    expect(last.receivables).toHaveLength(1)
+    expect(last.receivables[0].beneficialOwner).toBe('0xBobAddress')
+    expect(last.removedReceivables).toEqual([{ $bigint: '8' }])
+    expect(last.history).toBeUndefined()
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.snapshot()).toHaveLength(19)
+    expect(second.get(7n)!.beneficialOwner).toBe('0xBobAddress')
+  })
+
+  it('compacts the log into the snapshot once it grows too large', async () => {
+    const first = createStore(jsonFilePersistence(path, { compactLogBytes: 1 }))
+    first.upsert(makeReceivable(1n))
+    first.setCursor('arc', 42n)
+    await flush()
+    expect(statSync(`${path}.log`).size).toBe(0)
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.get(1n)).toBeDefined()
+    expect(second.getCursor('arc')).toBe(42n)
+  })
+
+  it('drops a log line torn by a crash, keeping the batches before it', async () => {
+    const first = createStore(jsonFilePersistence(path))
+    first.upsert(makeReceivable(1n))
+    await flush()
+    appendFileSync(`${path}.log`, '{"lastSeq":3,"receiv')
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.get(1n)).toBeDefined()
+  })
+
+  it('refuses to load a log corrupted before its last line', async () => {
+    const first = createStore(jsonFilePersistence(path))
+    first.upsert(makeReceivable(1n))
+    await flush()
+    writeFileSync(`${path}.log`, '{broken\n{"lastSeq":1}\n')
+    expect(() => createStore(jsonFilePersistence(path))).toThrow(/Could not read store log/)
+  })
+
+  it('keeps sequence numbers monotonic across restarts', async () => {
+    const first = createStore(jsonFilePersistence(path))
+    first.emit({ type: 'settled', tokenId: 1n })
+    first.emit({ type: 'settled', tokenId: 2n })
+    await flush()
+
+    const second = createStore(jsonFilePersistence(path))
+    expect(second.lastSeq()).toBe(2)
+    // The journal is not persisted, so old ids force a snapshot
+    expect(second.eventsSince(1)).toBeNull()
+    expect(second.eventsSince(2)).toEqual([])
+  })
+
+  it('still drives the subscribe/emit bus', () => {
+    const store = createStore(jsonFilePersistence(path))
+    const fn = vi.fn()
+    store.subscribe(fn)
+    store.emit({ type: 'settled', tokenId: 1n })
+    expect(fn).toHaveBeenCalledOnce()
+  })
+
+  it('migrates block-number mint times from files written before timestamps', () => {
+    const legacy = makeReceivable(1n, { mintedAt: 200n }) as Partial<Receivable>
+    delete legacy.estimatedSettleAt
+    const legacyPath = join(dir, 'legacy.json')
+    writeFileSync(legacyPath, JSON.stringify({
+      receivables: [legacy], knownHashes: [], cursors: {}, lastSeq: 0,
+      history: [{ tokenId: 1n, cctpMessageHash: '0xcctphash1', inboundToken: '0xUsdc', inboundAmount: 1n, mintedAt: 1_700_000_200n, settledAt: null, entries: [] }],
+    }, (_k, v) => typeof v === 'bigint' ? { $bigint: v.toString() } : v))
+
+    const store = createStore(jsonFilePersistence(legacyPath))
+    expect(store.get(1n)).toMatchObject({ mintedAt: 1_700_000_200n, estimatedSettleAt: null })
+  })
+
+  it('refuses to load a corrupt file', () => {
+    writeFileSync(join(dir, 'bad.json'), '{not json')
+    expect(() => createStore(jsonFilePersistence(join(dir, 'bad.json')))).toThrow(/Could not read store file/)
+  })
+})
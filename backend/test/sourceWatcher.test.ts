@@ -0,0 +1,407 @@
+// Tests for the source-chain burn watchers' block checkpointing (getLogs
+// returns no burns), minting for a burn, signed recipient assignments, and
+// reorg re-verification of recorded burns.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  keccak256, encodeAbiParameters, encodeEventTopics, getAddress, parseAbiItem, TransactionReceiptNotFoundError,
+} from 'viem'
+import { privateKeyToAccount } from 'viem/accounts'
+import {
+  startSourceWatcher, startSourceWatchers, sourceCursor, verifyBurns, trackSourceTx, mintJobHandler,
+} from '../src/sourceWatcher.js'
+import {
+  RECIPIENT_ASSIGNMENT_TYPES, recipientAssignmentDomain, RecipientAssignmentError, RecipientConflictError,
+} from '../src/recipientAuth.js'
+import { createStore } from '../src/store.js'
+import { CCTP_SOURCES, type SourceCtx } from '../src/ctx.js'
+import { encodeBurnMessage, decodeBurnMessage, addressToBytes32 } from '../src/cctpMessage.js'
+import { encodeMeanTimeHook } from '../src/hookData.js'
+import { enqueueJob, jobId } from '../src/jobQueue.js'
+import { mockCtx, makeReceivable } from './helpers.js'
+
+const SEPOLIA = CCTP_SOURCES['ethereum-sepolia']
+const BASE    = CCTP_SOURCES['base-sepolia']
+
+function buildSource(source = SEPOLIA, latest = 5000n) {
+  const getLogs = vi.fn().mockResolvedValue([])
+  const client = {
+    getBlockNumber: vi.fn().mockResolvedValue(latest),
+    getLogs,
+  } as unknown as SourceCtx['client']
+  return { src: { source, client }, getLogs }
+}
+
+async function runOnePoll(src: SourceCtx, store: ReturnType<typeof createStore>, ctx = mockCtx({ sources: [src] })) {
+  const stop = startSourceWatcher(ctx, store, src)
+  await new Promise(r => setTimeout(r, 20))
+  stop()
+}
+
+describe('startSourceWatcher checkpoint', () => {
+  let store: ReturnType<typeof createStore>
+  const CURSOR = sourceCursor(SEPOLIA.domain)
+
+  beforeEach(() => { store = createStore() })
+
+  it('starts at the chain tip on the very first run', async () => {
+    const { src, getLogs } = buildSource(SEPOLIA, 5000n)
+    await runOnePoll(src, store)
+
+    expect(getLogs).toHaveBeenCalledOnce()
+    expect(getLogs.mock.calls[0][0]).toMatchObject({ fromBlock: 5000n, toBlock: 5000n })
+    expect(store.getCursor(CURSOR)).toBe(5000n)
+  })
+
+  it('resumes after the checkpoint, scanning missed blocks in ranges', async () => {
+    store.setCursor(CURSOR, 1000n)
+    const { src, getLogs } = buildSource(SEPOLIA, 4500n)
+    await runOnePoll(src, store)
+
+    const ranges = getLogs.mock.calls.map(([args]) => [args.fromBlock, args.toBlock])
+    expect(ranges).toEqual([[1001n, 3000n], [3001n, 4500n]])
+    expect(store.getCursor(CURSOR)).toBe(4500n)
+  })
+
+  it('bounds the catch-up scan to about a day of blocks', async () => {
+    store.setCursor(CURSOR, 10n)
+    const { src, getLogs } = buildSource(SEPOLIA, 100_000n)
+    await runOnePoll(src, store)
+
+    // 86400 s / 12 s per Sepolia block
+    expect(getLogs.mock.calls[0][0].fromBlock).toBe(100_000n - 7200n + 1n)
+    expect(store.getCursor(CURSOR)).toBe(100_000n)
+  })
+
+  it('keeps the checkpoint at the last completed range when getLogs fails', async () => {
+    store.setCursor(CURSOR, 1000n)
+    const { src, getLogs } = buildSource(SEPOLIA, 4500n)
+    getLogs.mockResolvedValueOnce([]).mockRejectedValueOnce(new Error('rpc down'))
+    await runOnePoll(src, store)
+
+    expect(store.getCursor(CURSOR)).toBe(3000n)
+  })
+
+  it('resumes Ethereum Sepolia from the pre-multi-chain cursor', async () => {
+    store.setCursor('sepolia', 4000n)
+    const { src, getLogs } = buildSource(SEPOLIA, 4500n)
+    await runOnePoll(src, store)
+
+    expect(getLogs.mock.calls[0][0].fromBlock).toBe(4001n)
+  })
+})
+
+describe('startSourceWatchers', () => {
+  it('runs one watcher per source with its own client, contract and cursor', async () => {
+    const store = createStore()
+    const sepolia = buildSource(SEPOLIA, 5000n)
+    const base    = buildSource(BASE, 9000n)
+    const stop = startSourceWatchers(mockCtx({ sources: [sepolia.src, base.src] }), store)
+    await new Promise(r => setTimeout(r, 20))
+    stop()
+
+    expect(sepolia.getLogs.mock.calls[0][0]).toMatchObject({ address: SEPOLIA.cctp.messageTransmitter, fromBlock: 5000n })
+    expect(base.getLogs.mock.calls[0][0]).toMatchObject({ address: BASE.cctp.messageTransmitter, fromBlock: 9000n })
+    expect(store.getCursor(sourceCursor(0))).toBe(5000n)
+    expect(store.getCursor(sourceCursor(6))).toBe(9000n)
+  })
+})
+
+describe('burn processing', () => {
+  const MEANTIME = '0x0769d1d0662894dC29cdADE1102411D2a059cc1c'
+  const SENDER   = '0xAbCd000000000000000000000000000000001234'
+  const ZERO32   = `0x${'00'.repeat(32)}` as `0x${string}`
+
+  it('mints the receivable for the amount net of the maximum fee', async () => {
+    const message = encodeBurnMessage({
+      version: 1, sourceDomain: 0, destinationDomain: 26, nonce: ZERO32, sender: ZERO32, recipient: ZERO32,
+      destinationCaller: ZERO32, minFinalityThreshold: 1000, finalityThresholdExecuted: 0,
+      body: {
+        version: 1, burnToken: ZERO32, mintRecipient: addressToBytes32(MEANTIME), amount: 10_000_000n,
+        messageSender: addressToBytes32(SENDER), maxFee: 1_500n, feeExecuted: 0n, expirationBlock: 0n, hookData: '0x',
+      },
+    })
+    const { src, getLogs } = buildSource(SEPOLIA, 5000n)
+    getLogs.mockResolvedValueOnce([{
+      data:            encodeAbiParameters([{ type: 'bytes' }], [message]),
+      topics:          encodeEventTopics({ abi: [parseAbiItem('event MessageSent(bytes message)')], eventName: 'MessageSent' }),
+      transactionHash: `0x${'ab'.repeat(32)}`, blockNumber: 5000n, blockHash: `0x${'cd'.repeat(32)}`,
+    }])
+    // Burned long ago (caught up on boot), so its recipient window has closed
+    ;(src.client as unknown as { getBlock: unknown }).getBlock = vi.fn().mockResolvedValue({ timestamp: 1_700_000_000n })
+    const base = mockCtx()
+    const ctx  = mockCtx({
+      sources:      [src],
+      addresses:    { ...base.addresses, meantime: MEANTIME },
+      publicClient: {
+        ...base.publicClient,
+        readContract:              vi.fn().mockResolvedValue(0n),
+        waitForTransactionReceipt: vi.fn().mockResolvedValue({ logs: [] }),
+      } as unknown as SourceCtx['client'],
+    })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})   // verifyBurns: no receipts in this client
+
+    const store = createStore()
+    const stop = startSourceWatcher(ctx, store, src)
+    await new Promise(r => setTimeout(r, 20))
+    stop()
+
+    expect(vi.mocked(ctx.walletClient.writeContract).mock.calls[0][0]).toMatchObject({
+      functionName: 'mint', args: [keccak256(message), base.addresses.usdc, 10_000_000n - 1_500n, getAddress(SENDER)],
+    })
+    expect(store.getSource(keccak256(message))!.messageBytes).toBe(message)
+  })
+})
+
+describe('recipient window', () => {
+  const MEANTIME  = '0x0769d1d0662894dC29cdADE1102411D2a059cc1c'
+  const SENDER    = '0xAbCd000000000000000000000000000000001234'
+  const RECIPIENT = '0x00000000000000000000000000000000000000B0'
+  const TX        = `0x${'ab'.repeat(32)}` as `0x${string}`
+  const ZERO32    = `0x${'00'.repeat(32)}` as `0x${string}`
+
+  it('queues the mint of a fresh burn until the window closes, then mints to any assigned recipient', async () => {
+    const message = encodeBurnMessage({
+      version: 1, sourceDomain: 0, destinationDomain: 26, nonce: ZERO32, sender: ZERO32, recipient: ZERO32,
+      destinationCaller: ZERO32, minFinalityThreshold: 2000, finalityThresholdExecuted: 0,
+      body: {
+        version: 1, burnToken: ZERO32, mintRecipient: addressToBytes32(MEANTIME), amount: 10_000_000n,
+        messageSender: addressToBytes32(SENDER), maxFee: 0n, feeExecuted: 0n, expirationBlock: 0n, hookData: '0x',
+      },
+    })
+    const { src, getLogs } = buildSource(SEPOLIA, 5000n)
+    getLogs.mockResolvedValueOnce([{
+      data:            encodeAbiParameters([{ type: 'bytes' }], [message]),
+      topics:          encodeEventTopics({ abi: [parseAbiItem('event MessageSent(bytes message)')], eventName: 'MessageSent' }),
+      transactionHash: TX, blockNumber: 5000n, blockHash: `0x${'cd'.repeat(32)}`,
+    }])
+    const burnedAt = BigInt(Math.floor(Date.now() / 1000))
+    ;(src.client as unknown as { getBlock: unknown }).getBlock = vi.fn().mockResolvedValue({ timestamp: burnedAt })
+    const minted = parseAbiItem(
+      'event Minted(uint256 indexed tokenId, address indexed recipient, address inboundToken, uint256 inboundAmount, bytes32 cctpMessageHash)',
+    )
+    const base = mockCtx()
+    const ctx  = mockCtx({
+      sources:      [src],
+      addresses:    { ...base.addresses, meantime: MEANTIME },
+      publicClient: {
+        ...base.publicClient,
+        readContract:              vi.fn().mockResolvedValue(0n),
+        waitForTransactionReceipt: vi.fn().mockResolvedValue({ logs: [{
+          data:   encodeAbiParameters(
+            [{ type: 'address' }, { type: 'uint256' }, { type: 'bytes32' }],
+            [MEANTIME, 10_000_000n, keccak256(message)],
+          ),
+          topics: encodeEventTopics({ abi: [minted], eventName: 'Minted', args: { tokenId: 9n, recipient: RECIPIENT } }),
+        }] }),
+      } as unknown as SourceCtx['client'],
+    })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const store = createStore()
+    await runOnePoll(src, store, ctx)
+    expect(ctx.walletClient.writeContract).not.toHaveBeenCalled()
+    expect(store.getJob(jobId('mint', keccak256(message)))).toMatchObject({
+      state: 'queued', runAt: Number(burnedAt) * 1000 + 5 * 60_000,
+    })
+    expect(store.getCursor(sourceCursor(SEPOLIA.domain))).toBe(5000n)
+
+    store.putRecipientAssignment({ sourceTxHash: TX, sourceDomain: 0, recipient: RECIPIENT, signer: SENDER, signature: '0x' })
+    const job = store.getJob(jobId('mint', keccak256(message)))!
+    expect(await mintJobHandler(ctx, store).run(job, { signal: new AbortController().signal, now: Date.now }))
+      .toMatchObject({ state: 'done' })
+    expect(vi.mocked(ctx.walletClient.writeContract).mock.calls[0][0].args![3]).toBe(RECIPIENT)
+    expect(store.isKnown(keccak256(message))).toBe(true)
+    expect(store.getJob(jobId('attestation', keccak256(message)))!.state).toBe('queued')
+  })
+})
+
+describe('trackSourceTx recipient assignment', () => {
+  const MEANTIME  = '0x0769d1d0662894dC29cdADE1102411D2a059cc1c'
+  const RECIPIENT = '0x00000000000000000000000000000000000000B0'
+  const TX        = `0x${'ab'.repeat(32)}` as `0x${string}`
+  const ZERO32    = `0x${'00'.repeat(32)}` as `0x${string}`
+  const sender    = privateKeyToAccount(`0x${'11'.repeat(32)}`)
+  const intruder  = privateKeyToAccount(`0x${'22'.repeat(32)}`)
+
+  const message = encodeBurnMessage({
+    version: 1, sourceDomain: 0, destinationDomain: 26, nonce: ZERO32, sender: ZERO32, recipient: ZERO32,
+    destinationCaller: ZERO32, minFinalityThreshold: 2000, finalityThresholdExecuted: 0,
+    body: {
+      version: 1, burnToken: ZERO32, mintRecipient: addressToBytes32(MEANTIME), amount: 10_000_000n,
+      messageSender: addressToBytes32(sender.address), maxFee: 0n, feeExecuted: 0n, expirationBlock: 0n, hookData: '0x',
+    },
+  })
+
+  function setup(burn = message) {
+    const client = {
+      waitForTransactionReceipt: vi.fn().mockResolvedValue({
+        status: 'success', blockNumber: 100n, blockHash: `0x${'cd'.repeat(32)}`,
+        logs: [{
+          address: SEPOLIA.cctp.messageTransmitter,
+          data:    encodeAbiParameters([{ type: 'bytes' }], [burn]),
+          topics:  encodeEventTopics({ abi: [parseAbiItem('event MessageSent(bytes message)')], eventName: 'MessageSent' }),
+        }],
+      }),
+      getBlock: vi.fn().mockResolvedValue({ timestamp: 1_700_000_000n }),
+    } as unknown as SourceCtx['client']
+    const base = mockCtx()
+    const ctx  = mockCtx({
+      addresses:    { ...base.addresses, meantime: MEANTIME },
+      publicClient: {
+        ...base.publicClient,
+        readContract:              vi.fn().mockResolvedValue(0n),
+        waitForTransactionReceipt: vi.fn().mockResolvedValue({ logs: [] }),
+      } as unknown as SourceCtx['client'],
+    })
+    return { ctx, store: createStore(), src: { source: SEPOLIA, client } }
+  }
+
+  const sign = (account: typeof sender) => account.signTypedData({
+    domain:      recipientAssignmentDomain(SEPOLIA.chainId, MEANTIME),
+    types:       RECIPIENT_ASSIGNMENT_TYPES,
+    primaryType: 'RecipientAssignment',
+    message:     { sourceTxHash: TX, sourceDomain: SEPOLIA.domain, recipient: RECIPIENT },
+  })
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('mints to a recipient signed by the burn sender and remembers it', async () => {
+    const { ctx, store, src } = setup()
+    const signature = await sign(sender)
+    await trackSourceTx(ctx, store, src, TX, { recipient: RECIPIENT, signature })
+
+    expect(vi.mocked(ctx.walletClient.writeContract).mock.calls[0][0]).toMatchObject({
+      functionName: 'mint', args: [keccak256(message), ctx.addresses.usdc, 10_000_000n, RECIPIENT],
+    })
+    expect(store.getRecipientAssignment(TX)).toEqual({
+      sourceTxHash: TX, sourceDomain: 0, recipient: RECIPIENT, signer: sender.address, signature,
+    })
+  })
+
+  it('mints at once to a recipient assigned while the watcher\'s mint waits, closing that job', async () => {
+    const { ctx, store, src } = setup()
+    enqueueJob(store, 'mint', keccak256(message), { runAt: Date.now() + 60_000 })
+    await trackSourceTx(ctx, store, src, TX, { recipient: RECIPIENT, signature: await sign(sender) })
+
+    expect(vi.mocked(ctx.walletClient.writeContract).mock.calls[0][0].args![3]).toBe(RECIPIENT)
+    expect(store.getJob(jobId('mint', keccak256(message)))).toMatchObject({
+      state: 'done', detail: `minted by initiate-cctp to ${RECIPIENT}`,
+    })
+  })
+
+  it('refuses a recipient signed by anyone else, minting nothing', async () => {
+    const { ctx, store, src } = setup()
+    const signature = await sign(intruder)
+    const tracking  = trackSourceTx(ctx, store, src, TX, { recipient: RECIPIENT, signature })
+
+    await expect(tracking).rejects.toThrow(RecipientAssignmentError)
+    await expect(tracking).rejects.toThrow(/signed by the burn's sender/)
+    expect(ctx.walletClient.writeContract).not.toHaveBeenCalled()
+    expect(store.getRecipientAssignment(TX)).toBeUndefined()
+  })
+
+  it('refuses an assignment once the watcher has minted to the sender, keeping nothing', async () => {
+    const { ctx, store, src } = setup()
+    store.upsert(makeReceivable(7n, { cctpMessageHash: keccak256(message), beneficialOwner: sender.address }))
+    store.markKnown(keccak256(message))
+    const signature = await sign(sender)
+    const tracking  = trackSourceTx(ctx, store, src, TX, { recipient: RECIPIENT, signature })
+
+    await expect(tracking).rejects.toThrow(RecipientConflictError)
+    await expect(tracking).rejects.toThrow(`already minted to ${sender.address}`)
+    expect(ctx.walletClient.writeContract).not.toHaveBeenCalled()
+    expect(store.getRecipientAssignment(TX)).toBeUndefined()
+  })
+
+  it('mints to the recipient carried in the burn\'s hookData without a signature', async () => {
+    const decoded  = decodeBurnMessage(message)
+    const hookData = encodeMeanTimeHook({ version: 1, recipient: RECIPIENT, listing: null })
+    const { ctx, store, src } = setup(encodeBurnMessage({ ...decoded, body: { ...decoded.body, hookData } }))
+    await trackSourceTx(ctx, store, src, TX)
+    expect(vi.mocked(ctx.walletClient.writeContract).mock.calls[0][0].args![3]).toBe(RECIPIENT)
+  })
+
+  it('mints to the burn sender without an assignment', async () => {
+    const { ctx, store, src } = setup()
+    await trackSourceTx(ctx, store, src, TX)
+    expect(vi.mocked(ctx.walletClient.writeContract).mock.calls[0][0].args![3]).toBe(sender.address)
+  })
+})
+
+describe('verifyBurns', () => {
+  const MESSAGE = '0x0000000100000000' as `0x${string}`
+  const HASH    = keccak256(MESSAGE)
+  const TX      = `0x${'ab'.repeat(32)}` as `0x${string}`
+  const BLOCK_A = `0x${'aa'.repeat(32)}` as `0x${string}`
+  const BLOCK_B = `0x${'bb'.repeat(32)}` as `0x${string}`
+
+  const messageSentLog = {
+    address: SEPOLIA.cctp.messageTransmitter,
+    data:    encodeAbiParameters([{ type: 'bytes' }], [MESSAGE]),
+    topics:  encodeEventTopics({ abi: [parseAbiItem('event MessageSent(bytes message)')], eventName: 'MessageSent' }),
+  }
+
+  function setup(receipt: object | null) {
+    const store = createStore()
+    store.upsert(makeReceivable(1n, { cctpMessageHash: HASH }))
+    store.recordSource({
+      messageHash: HASH, sourceTxHash: TX, sourceDomain: 0,
+      blockNumber: 100n, blockHash: BLOCK_A, verification: 'pending',
+    })
+    store.advanceTransfer(HASH, { stage: 'burn_detected', txHash: TX })
+    const getTransactionReceipt = receipt
+      ? vi.fn().mockResolvedValue({ status: 'success', logs: [messageSentLog], ...receipt })
+      : vi.fn().mockRejectedValue(new TransactionReceiptNotFoundError({ hash: TX }))
+    const src = { source: SEPOLIA, client: { getTransactionReceipt } as unknown as SourceCtx['client'] }
+    return { store, src }
+  }
+
+  it('leaves a burn pending until it is deep enough, then confirms it', async () => {
+    const { store, src } = setup({ blockNumber: 100n, blockHash: BLOCK_A })
+    await verifyBurns(store, src, 105n)
+    expect(store.getSource(HASH)!.verification).toBe('pending')
+
+    await verifyBurns(store, src, 100n + BigInt(SEPOLIA.confirmations))
+    expect(store.getSource(HASH)!.verification).toBe('confirmed')
+    expect(store.pendingSources(0)).toEqual([])
+  })
+
+  it('follows a burn re-included in another block and restarts its confirmations', async () => {
+    const { store, src } = setup({ blockNumber: 103n, blockHash: BLOCK_B })
+    await verifyBurns(store, src, 200n)
+    expect(store.getSource(HASH)).toMatchObject({ blockNumber: 103n, blockHash: BLOCK_B, verification: 'pending' })
+    expect(store.get(1n)!.status).toBe('awaiting_attestation')
+  })
+
+  it('waits for re-inclusion while the original block is shallow', async () => {
+    const { store, src } = setup(null)
+    await verifyBurns(store, src, 105n)
+    expect(store.getSource(HASH)!.verification).toBe('pending')
+    expect(store.get(1n)!.status).toBe('awaiting_attestation')
+  })
+
+  it('orphans a burn that is gone once its block would have been confirmed', async () => {
+    const { store, src } = setup(null)
+    const alert = vi.spyOn(console, 'error').mockImplementation(() => {})
+    await verifyBurns(store, src, 100n + BigInt(SEPOLIA.confirmations))
+
+    expect(store.getSource(HASH)!.verification).toBe('orphaned')
+    expect(store.get(1n)).toMatchObject({ status: 'orphaned', statusReason: expect.stringMatching(/reorged out/) })
+    expect(store.getTransfer(HASH)!.stage).toBe('failed')
+    expect(alert).toHaveBeenCalledWith(expect.stringMatching(/^\[ALERT\] Orphaned burn/), expect.anything())
+    alert.mockRestore()
+  })
+
+  it('orphans a burn whose tx no longer emits the message', async () => {
+    const { store, src } = setup({ blockNumber: 101n, blockHash: BLOCK_B, logs: [] })
+    vi.spyOn(console, 'error').mockImplementationOnce(() => {})
+    await verifyBurns(store, src, 100n + BigInt(SEPOLIA.confirmations))
+    expect(store.get(1n)!.status).toBe('orphaned')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { createStore, serializeReceivable, type StoreEvent } from '../src/store.js'
+import { createStore, serializeReceivable, type StoreEvent, type HistoryEntry, type Trade } from '../src/store.js'
 import { makeReceivable } from './helpers.js'
 
 describe('createStore', () => {
@@ -86,7 +86,7 @@ describe('createStore', () => {
     store.emit(event)
 
     expect(fn1).toHaveBeenCalledOnce()
-    expect(fn1).toHaveBeenCalledWith(event)
+    expect(fn1).toHaveBeenCalledWith(event, 1)
     expect(fn2).toHaveBeenCalledOnce()
   })
 
@@ -111,6 +111,286 @@ describe('createStore', () => {
   it('emit with no subscribers is a no-op', () => {
     expect(() => store.emit({ type: 'settled', tokenId: 1n })).not.toThrow()
   })
+
+  // ── sequence numbers / journal ─────────────────────────────────────────────
+  it('numbers events monotonically starting at 1', () => {
+    const seqs: number[] = []
+    store.subscribe((_e, seq) => seqs.push(seq))
+    expect(store.lastSeq()).toBe(0)
+    store.emit({ type: 'settled', tokenId: 1n })
+    store.emit({ type: 'settled', tokenId: 2n })
+    expect(seqs).toEqual([1, 2])
+    expect(store.lastSeq()).toBe(2)
+  })
+
+  it('eventsSince replays events after the given sequence number', () => {
+    store.emit({ type: 'settled', tokenId: 1n })
+    store.emit({ type: 'settled', tokenId: 2n })
+    store.emit({ type: 'settled', tokenId: 3n })
+    expect(store.eventsSince(1)!.map(e => e.seq)).toEqual([2, 3])
+    expect(store.eventsSince(3)).toEqual([])
+    expect(store.eventsSince(0)!.map(e => e.seq)).toEqual([1, 2, 3])
+  })
+
+  it('eventsSince returns null for sequence numbers it cannot serve', () => {
+    store.emit({ type: 'settled', tokenId: 1n })
+    expect(store.eventsSince(5)).toBeNull()
+    for (let i = 0; i < 1100; i++) store.emit({ type: 'settled', tokenId: 1n })
+    expect(store.eventsSince(1)).toBeNull()
+    expect(store.eventsSince(store.lastSeq() - 10)).toHaveLength(10)
+  })
+
+  // ── cursors ──────────────────────────────────────────────────────────────────
+  it('getCursor returns undefined until a cursor is set', () => {
+    expect(store.getCursor('arc')).toBeUndefined()
+    store.setCursor('arc', 42n)
+    expect(store.getCursor('arc')).toBe(42n)
+    expect(store.getCursor('sepolia')).toBeUndefined()
+  })
+})
+
+// ── query ─────────────────────────────────────────────────────────────────────
+describe('query', () => {
+  let store: ReturnType<typeof createStore>
+  const EURC = '0xEurcAddress' as `0x${string}`
+
+  beforeEach(() => {
+    store = createStore()
+    store.upsert(makeReceivable(1n, { inboundAmount: 3n, mintedAt: 10n }))
+    store.upsert(makeReceivable(2n, { inboundAmount: 1n, mintedAt: 30n, beneficialOwner: '0xBobAddress' as `0x${string}` }))
+    store.upsert(makeReceivable(3n, { inboundAmount: 2n, mintedAt: 20n, listing: { reservePrice: 5n, paymentToken: EURC } }))
+    store.upsert(makeReceivable(4n, { inboundAmount: 4n, mintedAt: 40n, listing: { reservePrice: 9n, paymentToken: '0xUsdcAddress' as `0x${string}` } }))
+  })
+
+  const ids = (q: Parameters<typeof store.query>[0]) => store.query(q).items.map(r => r.tokenId)
+
+  it('returns everything by tokenId with no filters', () => {
+    expect(ids({})).toEqual([1n, 2n, 3n, 4n])
+  })
+
+  it('filters by owner (case-insensitive), listing state and tokens', () => {
+    expect(ids({ owner: '0xbobaddress' })).toEqual([2n])
+    expect(ids({ listed: true })).toEqual([3n, 4n])
+    expect(ids({ listed: false })).toEqual([1n, 2n])
+    expect(ids({ paymentToken: EURC })).toEqual([3n])
+    expect(ids({ inboundToken: '0xUsdcAddress', owner: '0xAliceAddress', listed: true })).toEqual([3n, 4n])
+  })
+
+  it('filters by face value and mint time', () => {
+    expect(ids({ minAmount: 2n, maxAmount: 3n })).toEqual([1n, 3n])
+    expect(ids({ mintedAfter: 10n, mintedBefore: 40n })).toEqual([2n, 3n])
+  })
+
+  it('keeps indexes in sync with patch and remove', () => {
+    store.patch(1n, { beneficialOwner: '0xBobAddress' as `0x${string}` })
+    store.patch(3n, { listing: null })
+    store.remove(2n)
+    expect(ids({ owner: '0xBobAddress' })).toEqual([1n])
+    expect(ids({ listed: true })).toEqual([4n])
+    expect(ids({ paymentToken: EURC })).toEqual([])
+  })
+
+  it('sorts by amount, age and reserve price', () => {
+    expect(ids({ sort: 'amount' })).toEqual([2n, 3n, 1n, 4n])
+    expect(ids({ sort: 'amount', order: 'desc' })).toEqual([4n, 1n, 3n, 2n])
+    expect(ids({ sort: 'age' })).toEqual([4n, 2n, 3n, 1n])
+    // Unlisted receivables sort last either way
+    expect(ids({ sort: 'reservePrice', order: 'desc' })).toEqual([4n, 3n, 2n, 1n])
+  })
+
+  it('paginates with a cursor', () => {
+    const first = store.query({ sort: 'amount', limit: 3 })
+    expect(first.items.map(r => r.tokenId)).toEqual([2n, 3n, 1n])
+    expect(first.nextCursor).not.toBeNull()
+
+    const second = store.query({ sort: 'amount', limit: 3, cursor: first.nextCursor! })
+    expect(second.items.map(r => r.tokenId)).toEqual([4n])
+    expect(second.nextCursor).toBeNull()
+  })
+})
+
+// ── lookups by message hash / source tx ──────────────────────────────────────
+describe('message hash and source tx lookups', () => {
+  let store: ReturnType<typeof createStore>
+  beforeEach(() => { store = createStore() })
+
+  it('finds the active receivable by message hash, case-insensitively', () => {
+    store.upsert(makeReceivable(1n, { cctpMessageHash: '0xAbC' as `0x${string}` }))
+    expect(store.getByMessageHash('0xabc')!.tokenId).toBe(1n)
+    store.remove(1n)
+    expect(store.getByMessageHash('0xabc')).toBeUndefined()
+  })
+
+  it('maps a source tx to all burns recorded for it', () => {
+    store.recordSource({ messageHash: '0xh1', sourceTxHash: '0xTX', sourceDomain: 0 })
+    store.recordSource({ messageHash: '0xh2', sourceTxHash: '0xtx', sourceDomain: 0 })
+    expect(store.messageHashesForSourceTx('0xtx')).toEqual(['0xh1', '0xh2'])
+    expect(store.getSource('0xH1')!.sourceDomain).toBe(0)
+    expect(store.messageHashesForSourceTx('0xother')).toEqual([])
+  })
+
+  it('lists pending burns per source domain', () => {
+    store.recordSource({ messageHash: '0xh1', sourceTxHash: '0xt1', sourceDomain: 0, verification: 'pending' })
+    store.recordSource({ messageHash: '0xh2', sourceTxHash: '0xt2', sourceDomain: 0, verification: 'confirmed' })
+    store.recordSource({ messageHash: '0xh3', sourceTxHash: '0xt3', sourceDomain: 6, verification: 'pending' })
+    store.recordSource({ messageHash: '0xh4', sourceTxHash: '0xt4', sourceDomain: 0 })
+    expect(store.pendingSources(0).map(s => s.messageHash)).toEqual(['0xh1'])
+  })
+})
+
+// ── status ─────────────────────────────────────────────────────────────────
+describe('setStatus', () => {
+  let store: ReturnType<typeof createStore>
+  beforeEach(() => {
+    store = createStore()
+    store.upsert(makeReceivable(1n))
+  })
+
+  it('applies allowed transitions with a reason', () => {
+    expect(store.setStatus(1n, 'settling')).toBe(true)
+    expect(store.setStatus(1n, 'settle_failed', 'InsufficientBalance')).toBe(true)
+    expect(store.get(1n)).toMatchObject({ status: 'settle_failed', statusReason: 'InsufficientBalance' })
+    // Retry after a failure
+    expect(store.setStatus(1n, 'auto_settling')).toBe(true)
+    expect(store.get(1n)!.statusReason).toBeNull()
+  })
+
+  it('rejects invalid transitions, no-ops and unknown tokens', () => {
+    store.setStatus(1n, 'settling')
+    expect(store.setStatus(1n, 'attested')).toBe(false)
+    expect(store.setStatus(1n, 'settling')).toBe(false)
+    expect(store.setStatus(2n, 'settling')).toBe(false)
+    expect(store.get(1n)!.status).toBe('settling')
+  })
+
+  it('treats orphaned as terminal', () => {
+    expect(store.setStatus(1n, 'orphaned', 'reorged out')).toBe(true)
+    expect(store.setStatus(1n, 'auto_settling')).toBe(false)
+    expect(store.setStatus(1n, 'settling')).toBe(false)
+    expect(store.get(1n)).toMatchObject({ status: 'orphaned', statusReason: 'reorged out' })
+  })
+})
+
+// ── transfers ──────────────────────────────────────────────────────────────
+describe('transfers', () => {
+  let store: ReturnType<typeof createStore>
+  beforeEach(() => {
+    store = createStore()
+    store.recordSource({ messageHash: '0xH', sourceTxHash: '0xTX', sourceDomain: 0 })
+  })
+
+  it('is created by burn_detected with the recorded source', () => {
+    expect(store.advanceTransfer('0xh', { stage: 'minted' })).toBeUndefined()
+    const t = store.advanceTransfer('0xh', { stage: 'burn_detected', at: 10n, txHash: '0xTX' })!
+    expect(t).toMatchObject({ messageHash: '0xH', sourceTxHash: '0xTX', sourceDomain: 0, tokenId: null, stage: 'burn_detected' })
+    expect(store.getTransfer('0xH')).toEqual(t)
+  })
+
+  it('records each stage once and reports the furthest reached', () => {
+    store.advanceTransfer('0xH', { stage: 'burn_detected' })
+    store.advanceTransfer('0xH', { stage: 'attestation_pending' })
+    const t = store.advanceTransfer('0xH', { stage: 'minted', tokenId: 4n, txHash: '0xmint' })!
+    expect(t.stage).toBe('attestation_pending')
+    expect(t.tokenId).toBe(4n)
+    expect(store.advanceTransfer('0xH', { stage: 'minted' })).toBeUndefined()
+    expect(store.getTransfer('0xH')!.stages.map(e => e.stage)).toEqual(['burn_detected', 'attestation_pending', 'minted'])
+  })
+
+  it('marks failures and recovers when a later stage succeeds', () => {
+    store.advanceTransfer('0xH', { stage: 'burn_detected' })
+    expect(store.advanceTransfer('0xH', { stage: 'failed', error: 'mint failed' })!.stage).toBe('failed')
+    expect(store.advanceTransfer('0xH', { stage: 'failed', error: 'again' })!.stages).toHaveLength(3)
+    expect(store.advanceTransfer('0xH', { stage: 'minted' })!.stage).toBe('minted')
+  })
+})
+
+// ── history ───────────────────────────────────────────────────────────────────
+describe('history', () => {
+  let store: ReturnType<typeof createStore>
+
+  const at = (blockNumber: bigint, logIndex: number) => ({
+    tokenId: 1n, blockNumber, logIndex, timestamp: 1000n + blockNumber, txHash: `0xtx${blockNumber}` as `0x${string}`,
+  })
+  const minted: HistoryEntry = {
+    ...at(10n, 0), type: 'minted', cctpMessageHash: '0xh', inboundToken: '0xUsdc',
+    inboundAmount: 5n, recipient: '0xAlice',
+  }
+  const filled: HistoryEntry = {
+    ...at(20n, 1), type: 'filled', buyer: '0xBob', seller: '0xAlice', paymentToken: '0xEurc', price: 4n,
+  }
+
+  beforeEach(() => { store = createStore() })
+
+  it('ignores entries for tokens that were never minted', () => {
+    store.recordHistory(filled)
+    expect(store.getHistory(1n)).toBeUndefined()
+  })
+
+  it('keeps entries in chain order and skips duplicates', () => {
+    store.recordHistory(minted)
+    store.recordHistory({ ...at(30n, 0), type: 'settled', recipient: '0xBob', amount: 5n })
+    store.recordHistory(filled)
+    store.recordHistory(filled)
+    const h = store.getHistory(1n)!
+    expect(h.entries.map(e => e.type)).toEqual(['minted', 'filled', 'settled'])
+    expect(h.settledAt).toBe(1030n)
+  })
+
+  it('is reachable by message hash', () => {
+    store.recordHistory(minted)
+    expect(store.getHistoryByMessageHash('0xH')!.tokenId).toBe(1n)
+  })
+
+  it('survives remove()', () => {
+    store.upsert(makeReceivable(1n))
+    store.recordHistory(minted)
+    store.remove(1n)
+    expect(store.getHistory(1n)).toBeDefined()
+  })
+
+  it('filters by participant, token and time range', () => {
+    store.recordHistory(minted)
+    store.recordHistory(filled)
+    store.recordHistory({ ...minted, tokenId: 2n, txHash: '0xother', recipient: '0xCarol', inboundToken: '0xOther' })
+
+    expect(store.queryHistory({ owner: '0xBOB' }).map(h => h.tokenId)).toEqual([1n])
+    expect(store.queryHistory({ token: '0xeurc' }).map(h => h.tokenId)).toEqual([1n])
+    expect(store.queryHistory({ owner: '0xCarol' }).map(h => h.tokenId)).toEqual([2n])
+    expect(store.queryHistory({ from: 1015n })).toHaveLength(1)
+    expect(store.queryHistory({ to: 1005n })).toHaveLength(0)
+  })
+})
+
+// ── trades ─────────────────────────────────────────────────────────────────────
+describe('trades', () => {
+  let store: ReturnType<typeof createStore>
+
+  const trade = (tokenId: bigint, blockNumber: bigint, overrides: Partial<Trade> = {}): Trade => ({
+    tokenId, buyer: '0xBob', seller: '0xAlice', paymentToken: '0xEurc', price: 4n, ageAtFill: 60n,
+    timestamp: 1000n + blockNumber, blockNumber, txHash: `0xtx${blockNumber}`, logIndex: 0, ...overrides,
+  })
+
+  beforeEach(() => { store = createStore() })
+
+  it('returns trades most recent first and skips duplicates', () => {
+    expect(store.recordTrade(trade(1n, 20n))).toBe(true)
+    expect(store.recordTrade(trade(2n, 10n))).toBe(true)
+    expect(store.recordTrade(trade(1n, 20n))).toBe(false)
+    expect(store.queryTrades().map(t => t.blockNumber)).toEqual([20n, 10n])
+  })
+
+  it('filters by token, participant, payment token and time range', () => {
+    store.recordTrade(trade(1n, 10n))
+    store.recordTrade(trade(1n, 20n, { buyer: '0xCarol', seller: '0xBob', paymentToken: '0xUsdc' }))
+    store.recordTrade(trade(2n, 30n))
+
+    expect(store.queryTrades({ tokenId: 1n })).toHaveLength(2)
+    expect(store.queryTrades({ address: '0xCAROL' }).map(t => t.blockNumber)).toEqual([20n])
+    expect(store.queryTrades({ address: '0xbob' })).toHaveLength(3)
+    expect(store.queryTrades({ paymentToken: '0xusdc' })).toHaveLength(1)
+    expect(store.queryTrades({ from: 1015n, to: 1025n }).map(t => t.blockNumber)).toEqual([20n])
+    expect(store.queryTrades({ limit: 1 }).map(t => t.blockNumber)).toEqual([30n])
+  })
 })
 
 // ── serializeReceivable ────────────────────────────────────────────────────────
@@ -125,16 +405,26 @@ describe('serializeReceivable', () => {
     expect(s.inboundAmount).toBe('5000000')
     expect(s.mintedAt).toBe('12345')
     expect(s.listing).toBeNull()
+    expect(s.status).toBe('awaiting_attestation')
+    expect(s.statusReason).toBeNull()
+  })
+
+  it('counts down to the settlement estimate', () => {
+    const r = makeReceivable(1n, { mintedAt: 1000n, estimatedSettleAt: 2020n })
+    expect(serializeReceivable(r, 1500n)).toMatchObject({ mintedAt: '1000', estimatedSettleAt: '2020', secondsRemaining: 520 })
+    expect(serializeReceivable(r, 3000n).secondsRemaining).toBe(0)
+    expect(serializeReceivable({ ...r, estimatedSettleAt: null }, 1500n)).toMatchObject({ estimatedSettleAt: null, secondsRemaining: null })
   })
 
   it('serializes an active listing', () => {
     const r = makeReceivable(1n, {
-      listing: { reservePrice: 990_000n, paymentToken: '0xEurcAddress' as `0x${string}` },
+      listing: { reservePrice: 990_000n, paymentToken: '0xEurcAddress' as `0x${string}`, listedAt: 1_700_000_000n },
     })
     const s = serializeReceivable(r)
     expect(s.listing).toEqual({
       reservePrice: '990000',
       paymentToken: '0xEurcAddress',
+      listedAt:     '1700000000',
     })
   })
 })
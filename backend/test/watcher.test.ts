@@ -1,23 +1,28 @@
 // Tests for startWatcher: verifies that contract events update the store correctly.
-// The new watcher uses getLogs polling (getContractEvents + getBlockNumber) instead
-// of watchContractEvent, so we mock those two methods.
+// The watcher uses getLogs polling (one getContractEvents call for every event
+// type + getBlockNumber) instead of watchContractEvent, so we mock those methods.
 
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { startWatcher } from '../src/watcher.js'
+import { startWatcher, backfillStore, ARC_CURSOR } from '../src/watcher.js'
 import { createStore } from '../src/store.js'
-import { mockCtx, makeReceivable } from './helpers.js'
+import { mockCtx, makeReceivable, blockTimestamp } from './helpers.js'
 import type { AppCtx } from '../src/ctx.js'
+import { addressToBytes32, encodeBurnMessage, FINALITY_FAST } from '../src/cctpMessage.js'
+import { encodeMeanTimeHook } from '../src/hookData.js'
 
-// Build a ctx whose publicClient returns the given logs for each event type.
+// Build a ctx whose publicClient returns the given logs, keyed by event type,
+// from its single getContractEvents call (tagged with eventName like viem does).
 // getBlockNumber always returns 1000n (so from=lastBlock+1 → first poll scans 995-1000).
 function buildMockCtx(eventLogs: Partial<Record<string, unknown[]>> = {}) {
-  const getContractEvents = vi.fn().mockImplementation(({ eventName }: { eventName: string }) =>
-    Promise.resolve(eventLogs[eventName] ?? [])
-  )
+  const logs = Object.entries(eventLogs).flatMap(([eventName, list]) =>
+    (list ?? []).map(log => ({ eventName, ...(log as object) })))
+  const getContractEvents = vi.fn().mockResolvedValue(logs)
   const getBlockNumber = vi.fn().mockResolvedValue(1000n)
+  const getBlock = vi.fn().mockImplementation(({ blockNumber }: { blockNumber: bigint }) =>
+    Promise.resolve({ number: blockNumber, timestamp: blockTimestamp(blockNumber) }))
 
   const ctx = mockCtx({
-    publicClient: { getBlockNumber, getContractEvents } as unknown as AppCtx['publicClient'],
+    publicClient: { getBlockNumber, getContractEvents, getBlock } as unknown as AppCtx['publicClient'],
   })
 
   return { ctx, getContractEvents, getBlockNumber }
@@ -52,6 +57,81 @@ describe('startWatcher', () => {
     expect(getContractEvents.mock.calls.length).toBe(callsAfterFirstPoll)
   })
 
+  // ── Checkpoints ─────────────────────────────────────────────────────────────
+  describe('checkpoint', () => {
+    it('records the last scanned block as the Arc cursor', async () => {
+      const { ctx } = buildMockCtx()
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+      expect(store.getCursor(ARC_CURSOR)).toBe(1000n)
+    })
+
+    it('resumes right after a persisted cursor instead of the overlap window', async () => {
+      store.setCursor(ARC_CURSOR, 980n)
+      const { ctx, getContractEvents } = buildMockCtx()
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+      expect(getContractEvents.mock.calls[0][0]).toMatchObject({ fromBlock: 981n, toBlock: 1000n })
+    })
+
+    it('backfill replays only blocks after the checkpoint', async () => {
+      store.setCursor(ARC_CURSOR, 900n)
+      const { ctx, getContractEvents } = buildMockCtx()
+      await backfillStore(ctx, store)
+      expect(getContractEvents.mock.calls[0][0]).toMatchObject({ fromBlock: 901n, toBlock: 1000n })
+      expect(store.getCursor(ARC_CURSOR)).toBe(1000n)
+    })
+
+    it('backfill does not advance the checkpoint when a chunk fails', async () => {
+      const { ctx, getContractEvents } = buildMockCtx()
+      getContractEvents.mockRejectedValueOnce(new Error('rate limited'))
+      await backfillStore(ctx, store)
+      expect(store.getCursor(ARC_CURSOR)).toBeUndefined()
+    })
+
+    it('backfill loses only the missing block times, and the next replay fills them in', async () => {
+      const { ctx } = buildMockCtx({
+        Minted:  [{ ...makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 5n, cctpMessageHash: '0xh' }, 200n), transactionHash: '0xmint', logIndex: 0 }],
+        Settled: [{ ...makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', amount: 5n }, 300n), transactionHash: '0xsettle', logIndex: 0 }],
+      })
+      const getBlock = ctx.publicClient.getBlock as ReturnType<typeof vi.fn>
+      const working  = getBlock.getMockImplementation()!
+      getBlock.mockImplementation(({ blockNumber }: { blockNumber: bigint }) =>
+        blockNumber === 300n ? Promise.reject(new Error('rate limited')) : working({ blockNumber }))
+
+      await backfillStore(ctx, store)
+      expect(store.getHistory(1n)).toMatchObject({ mintedAt: blockTimestamp(200n), settledAt: 0n })
+      expect(store.getCursor(ARC_CURSOR)).toBeUndefined()
+
+      getBlock.mockImplementation(working)
+      await backfillStore(ctx, store)
+      const h = store.getHistory(1n)!
+      expect(h.settledAt).toBe(blockTimestamp(300n))
+      expect(h.entries.map(e => e.timestamp)).toEqual([blockTimestamp(200n), blockTimestamp(300n)])
+      expect(store.getCursor(ARC_CURSOR)).toBe(1000n)
+    })
+
+    it('backfill fetches a bounded number of block times at once', async () => {
+      const minted = Array.from({ length: 40 }, (_, i) =>
+        makeLog({ tokenId: BigInt(i + 1), recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 5n, cctpMessageHash: `0xh${i}` }, BigInt(100 + i)))
+      const { ctx } = buildMockCtx({ Minted: minted })
+      let inFlight = 0
+      let peak = 0
+      ;(ctx.publicClient.getBlock as ReturnType<typeof vi.fn>).mockImplementation(async ({ blockNumber }: { blockNumber: bigint }) => {
+        peak = Math.max(peak, ++inFlight)
+        await new Promise(r => setTimeout(r, 1))
+        inFlight--
+        return { number: blockNumber, timestamp: blockTimestamp(blockNumber) }
+      })
+
+      await backfillStore(ctx, store)
+      expect(store.snapshot()).toHaveLength(40)
+      expect(peak).toBeLessThanOrEqual(8)
+    })
+  })
+
   // ── Minted ──────────────────────────────────────────────────────────────────
   describe('Minted event', () => {
     it('inserts a receivable into the store', async () => {
@@ -67,7 +147,69 @@ describe('startWatcher', () => {
       expect(r!.beneficialOwner).toBe('0xAlice')
       expect(r!.inboundAmount).toBe(1_000_000n)
       expect(r!.listing).toBeNull()
-      expect(r!.mintedAt).toBe(200n)
+      expect(r!.mintedAt).toBe(blockTimestamp(200n))
+      expect(r!.estimatedSettleAt).toBe(blockTimestamp(200n) + 1020n)
+    })
+
+    it('uses the source domain\'s attestation time for the settlement estimate', async () => {
+      // Avalanche Fuji (domain 1) is configured with attestationSeconds in chains.json
+      store.recordSource({ messageHash: '0xhash1', sourceTxHash: '0xtx', sourceDomain: 1 })
+      const { ctx } = buildMockCtx({
+        Minted: [makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 1n, cctpMessageHash: '0xhash1' })],
+      })
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+
+      expect(store.get(1n)!.estimatedSettleAt).toBe(blockTimestamp(200n) + 20n)
+    })
+
+    it('records a Fast Transfer\'s speed and gross burn, and expects it attested in seconds', async () => {
+      const zero = addressToBytes32('0x0000000000000000000000000000000000000000')
+      const messageBytes = encodeBurnMessage({
+        version: 1, sourceDomain: 0, destinationDomain: 26, nonce: zero, sender: zero, recipient: zero,
+        destinationCaller: zero, minFinalityThreshold: FINALITY_FAST, finalityThresholdExecuted: 0,
+        body: {
+          version: 1, burnToken: zero, mintRecipient: zero, amount: 1_000_130n, messageSender: zero,
+          maxFee: 130n, feeExecuted: 0n, expirationBlock: 0n, hookData: '0x',
+        },
+      })
+      store.recordSource({ messageHash: '0xhash1', sourceTxHash: '0xtx', sourceDomain: 0, messageBytes })
+      const { ctx } = buildMockCtx({
+        Minted: [makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 1_000_000n, cctpMessageHash: '0xhash1' })],
+      })
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+
+      expect(store.get(1n)).toMatchObject({
+        inboundAmount: 1_000_000n, burnAmount: 1_000_130n, transferSpeed: 'fast',
+        estimatedSettleAt: blockTimestamp(200n) + 20n,
+      })
+    })
+
+    it('keeps the listing requested in the burn\'s hookData', async () => {
+      const zero = addressToBytes32('0x0000000000000000000000000000000000000000')
+      const listing = { reservePrice: 990_000n, paymentToken: '0x89B50855Aa3bE2F677cD6303Cec089B5F319D72a' as const }
+      const messageBytes = encodeBurnMessage({
+        version: 1, sourceDomain: 0, destinationDomain: 26, nonce: zero, sender: zero, recipient: zero,
+        destinationCaller: zero, minFinalityThreshold: 2000, finalityThresholdExecuted: 0,
+        body: {
+          version: 1, burnToken: zero, mintRecipient: zero, amount: 1_000_000n, messageSender: zero,
+          maxFee: 0n, feeExecuted: 0n, expirationBlock: 0n,
+          hookData: encodeMeanTimeHook({ version: 1, recipient: '0x00000000000000000000000000000000000A11CE', listing }),
+        },
+      })
+      store.recordSource({ messageHash: '0xhash1', sourceTxHash: '0xtx', sourceDomain: 0, messageBytes })
+      const { ctx } = buildMockCtx({
+        Minted: [makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 1_000_000n, cctpMessageHash: '0xhash1' })],
+      })
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+
+      expect(store.get(1n)!.requestedListing).toEqual(listing)
+      expect(store.get(1n)!.listing).toBeNull()
     })
 
     it('emits a minted store event', async () => {
@@ -117,7 +259,7 @@ describe('startWatcher', () => {
       startWatcher(ctx, store)
       await waitForPoll()
 
-      expect(store.get(1n)!.listing).toEqual({ reservePrice: 990_000n, paymentToken: '0xEurc' })
+      expect(store.get(1n)!.listing).toEqual({ reservePrice: 990_000n, paymentToken: '0xEurc', listedAt: 150n })
     })
 
     it('emits a listed store event', async () => {
@@ -190,6 +332,42 @@ describe('startWatcher', () => {
       expect(event.type).toBe('filled')
       expect(event.newOwner).toBe('0xRelayer')
     })
+
+    it('records the fill as a trade and emits a trade event', async () => {
+      store.upsert(makeReceivable(1n))
+      const { ctx } = buildMockCtx({
+        Filled: [{
+          ...makeLog({ tokenId: 1n, relayer: '0xRelayer', seller: '0xAlice', paymentToken: '0xEurc', amount: 990_000n, filledAt: 42n }, 260n),
+          transactionHash: '0xfill', logIndex: 3,
+        }],
+      })
+      const listener = vi.fn()
+      store.subscribe(listener)
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+
+      const trade = {
+        tokenId: 1n, buyer: '0xRelayer', seller: '0xAlice', paymentToken: '0xEurc', price: 990_000n,
+        ageAtFill: 42n, timestamp: blockTimestamp(260n), blockNumber: 260n, txHash: '0xfill', logIndex: 3,
+      }
+      expect(store.queryTrades()).toEqual([trade])
+      expect(listener.mock.calls.map(([e]) => e.type)).toEqual(['filled', 'trade'])
+      expect(listener.mock.calls[1][0]).toEqual({ type: 'trade', trade })
+    })
+
+    it('records trades during backfill without emitting them', async () => {
+      store.upsert(makeReceivable(1n))
+      const { ctx } = buildMockCtx({
+        Filled: [makeLog({ tokenId: 1n, relayer: '0xRelayer', seller: '0xAlice', paymentToken: '0xEurc', amount: 1n, filledAt: 5n })],
+      })
+      const listener = vi.fn()
+      store.subscribe(listener)
+      await backfillStore(ctx, store)
+
+      expect(store.queryTrades()).toHaveLength(1)
+      expect(listener).not.toHaveBeenCalled()
+    })
   })
 
   // ── Settled ──────────────────────────────────────────────────────────────────
@@ -206,6 +384,56 @@ describe('startWatcher', () => {
       expect(store.snapshot()).toHaveLength(0)
     })
 
+    it('keeps the full lifecycle in history after settlement', async () => {
+      const { ctx } = buildMockCtx({
+        Minted:  [makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 5n, cctpMessageHash: '0xh' }, 200n)],
+        Listed:  [makeLog({ tokenId: 1n, reservePrice: 4n, paymentToken: '0xEurc', listedAt: 1_700_000_250n }, 250n)],
+        Filled:  [makeLog({ tokenId: 1n, relayer: '0xRelayer', seller: '0xAlice', paymentToken: '0xEurc', amount: 4n, filledAt: 60n }, 260n)],
+        Settled: [makeLog({ tokenId: 1n, recipient: '0xRelayer', inboundToken: '0xUsdc', amount: 5n }, 300n)],
+      })
+      startWatcher(ctx, store)
+      await waitForPoll()
+
+      expect(store.get(1n)).toBeUndefined()
+      const h = store.getHistory(1n)!
+      expect(h.entries.map(e => e.type)).toEqual(['minted', 'listed', 'filled', 'settled'])
+      expect(h.mintedAt).toBe(blockTimestamp(200n))
+      expect(h.settledAt).toBe(blockTimestamp(300n))
+      expect(h.entries[1].timestamp).toBe(1_700_000_250n)
+      expect(h.entries[2]).toMatchObject({ buyer: '0xRelayer', seller: '0xAlice', price: 4n })
+    })
+
+    it('moves a tracked transfer to minted and settled with block times', async () => {
+      store.advanceTransfer('0xh', { stage: 'burn_detected' })
+      const { ctx } = buildMockCtx({
+        Minted:  [{ ...makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 5n, cctpMessageHash: '0xh' }, 200n), transactionHash: '0xmint' }],
+        Settled: [{ ...makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', amount: 5n }, 300n), transactionHash: '0xsettle' }],
+      })
+      startWatcher(ctx, store)
+      await waitForPoll()
+
+      const t = store.getTransfer('0xh')!
+      expect(t.stage).toBe('settled')
+      expect(t.tokenId).toBe(1n)
+      expect(t.stages.slice(1)).toEqual([
+        { stage: 'minted',  at: blockTimestamp(200n), txHash: '0xmint',   error: null },
+        { stage: 'settled', at: blockTimestamp(300n), txHash: '0xsettle', error: null },
+      ])
+    })
+
+    it('does not touch the store when block timestamps cannot be resolved', async () => {
+      const { ctx } = buildMockCtx({
+        Minted: [makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 5n, cctpMessageHash: '0xh' })],
+      })
+      ;(ctx.publicClient.getBlock as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('rpc down'))
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+
+      expect(store.get(1n)).toBeUndefined()
+      expect(store.getCursor(ARC_CURSOR)).toBeUndefined()
+    })
+
     it('emits a settled event', async () => {
       store.upsert(makeReceivable(1n))
       const { ctx } = buildMockCtx({
@@ -221,4 +449,78 @@ describe('startWatcher', () => {
       expect(event.tokenId).toBe(1n)
     })
   })
+
+  describe('SettleAttempted event', () => {
+    it('moves the receivable to settling and emits a status event', async () => {
+      store.upsert(makeReceivable(1n))
+      const { ctx } = buildMockCtx({
+        SettleAttempted: [makeLog({ tokenId: 1n, contractBalance: 7n })],
+      })
+      const listener = vi.fn()
+      store.subscribe(listener)
+      startWatcher(ctx, store)
+      await waitForPoll()
+
+      expect(store.get(1n)).toMatchObject({ status: 'settling', statusReason: 'contract balance 7' })
+      expect(listener.mock.calls[0][0]).toEqual({ type: 'status', tokenId: 1n, status: 'settling', statusReason: 'contract balance 7' })
+    })
+  })
+
+  // ── Ordering ─────────────────────────────────────────────────────────────────
+  describe('event ordering', () => {
+    const at = (log: object, blockNumber: bigint, logIndex: number) => ({ ...log, blockNumber, logIndex })
+    const listing = (price: bigint) => ({ tokenId: 1n, reservePrice: price, paymentToken: '0xEurc', listedAt: 0n })
+
+    it('fetches every event type with one getContractEvents call per range', async () => {
+      const { ctx, getContractEvents } = buildMockCtx()
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+
+      expect(getContractEvents).toHaveBeenCalledOnce()
+      expect(getContractEvents.mock.calls[0][0]).not.toHaveProperty('eventName')
+    })
+
+    it('applies list -> delist -> list in (blockNumber, logIndex) order', async () => {
+      store.upsert(makeReceivable(1n))
+      const { ctx } = buildMockCtx({
+        Listed:   [at(makeLog(listing(2n)), 201n, 0), at(makeLog(listing(1n)), 200n, 3)],
+        Delisted: [at(makeLog({ tokenId: 1n }), 200n, 7)],
+      })
+      const listener = vi.fn()
+      store.subscribe(listener)
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+
+      expect(store.get(1n)!.listing).toEqual({ reservePrice: 2n, paymentToken: '0xEurc', listedAt: 0n })
+      expect(listener.mock.calls.map(([e]) => e.type)).toEqual(['listed', 'delisted', 'listed'])
+    })
+
+    it('applies a delist before a later fill in the same block', async () => {
+      store.upsert(makeReceivable(1n, { listing: { reservePrice: 1n, paymentToken: '0xEurc' as `0x${string}` } }))
+      const { ctx } = buildMockCtx({
+        Filled:   [at(makeLog({ tokenId: 1n, relayer: '0xRelayer', seller: '0xAlice', paymentToken: '0xEurc', amount: 1n }), 200n, 5)],
+        Listed:   [at(makeLog(listing(3n)), 200n, 1)],
+        Delisted: [at(makeLog({ tokenId: 1n }), 200n, 2)],
+      })
+      const stop = startWatcher(ctx, store)
+      await waitForPoll()
+      stop()
+
+      expect(store.get(1n)).toMatchObject({ listing: null, beneficialOwner: '0xRelayer' })
+    })
+
+    it('backfill replays the whole range in chain order', async () => {
+      const { ctx } = buildMockCtx({
+        Listed:   [at(makeLog(listing(9n)), 300n, 0)],
+        Delisted: [at(makeLog({ tokenId: 1n }), 250n, 0)],
+        Minted:   [at(makeLog({ tokenId: 1n, recipient: '0xAlice', inboundToken: '0xUsdc', inboundAmount: 5n, cctpMessageHash: '0xh' }), 200n, 0)],
+      })
+      await backfillStore(ctx, store)
+
+      expect(store.get(1n)!.listing).toEqual({ reservePrice: 9n, paymentToken: '0xEurc', listedAt: 0n })
+      expect(store.getHistory(1n)!.entries.map(e => e.type)).toEqual(['minted', 'delisted', 'listed'])
+    })
+  })
 })
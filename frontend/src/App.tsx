@@ -1,11 +1,11 @@
-import { useState, useEffect } from 'react'
+import { useState } from 'react'
 import { ConnectButton }   from './components/ConnectButton.js'
 import { Marketplace }     from './components/Marketplace.js'
 import { SendPanel }       from './components/SendPanel.js'
 import { useReceivables }  from './hooks/useReceivables.js'
 import { useTokenSymbols } from './hooks/useTokenSymbols.js'
 import { useWallet }       from './hooks/useWallet.js'
-import { API_BASE }        from './config.js'
+import { useConfig }       from './hooks/useConfig.js'
 import './App.css'
 
 type Tab = 'marketplace' | 'send'
@@ -13,31 +13,18 @@ type Tab = 'marketplace' | 'send'
 export default function App() {
   const [tab, setTab] = useState<Tab>('marketplace')
 
-  // Fetch contract addresses from the backend so frontend + backend are always in sync
-  const [meantimeAddr, setMeantimeAddr] = useState('')
-  const [usdcAddr,     setUsdcAddr]     = useState('')
-  const [eurcAddr,     setEurcAddr]     = useState('')
-
-  useEffect(() => {
-    fetch(`${API_BASE}/api/tokens`)
-      .then(r => r.json())
-      .then(d => {
-        if (d.meantime) setMeantimeAddr(d.meantime)
-        if (d.usdc)     setUsdcAddr(d.usdc)
-        if (d.eurc)     setEurcAddr(d.eurc)
-      })
-      .catch(console.error)
-  }, [])
+  // Chains and contract addresses come from the backend so frontend + backend are always in sync
+  const config = useConfig()
 
   const { receivables, connected, updateReceivable } = useReceivables()
-  const tokenSymbol = useTokenSymbols()
+  const tokenSymbol = useTokenSymbols(config?.contracts ?? null)
   const { address, chainId, connect, disconnect, switchNetwork } = useWallet()
 
   const activeListings   = receivables.filter(r => r.listing).length
   const totalReceivables = receivables.length
 
-  // Don't render the main UI until we have addresses from the backend
-  const ready = meantimeAddr !== ''
+  // Send from the first source chain the backend watches
+  const sendSource = config?.sources.find(s => s.watched)
 
   return (
     <div className="app">
@@ -63,29 +50,36 @@ export default function App() {
       </nav>
 
       <main>
-        {!ready && (
+        {/* Don't render the main UI until we have the config from the backend */}
+        {!config && (
           <div className="status-box" style={{ marginTop: 32 }}>Connecting to backend…</div>
         )}
-        {ready && tab === 'marketplace' && (
+        {config && tab === 'marketplace' && (
           <Marketplace
             receivables={receivables}
-            meantimeAddr={meantimeAddr as `0x${string}`}
+            arc={config.arc}
+            meantimeAddr={config.contracts.meantime as `0x${string}`}
             tokenSymbol={tokenSymbol}
             userAddress={address}
             chainId={chainId}
-            usdcAddr={usdcAddr}
-            eurcAddr={eurcAddr}
+            usdcAddr={config.contracts.usdc}
+            eurcAddr={config.contracts.eurc}
             updateReceivable={updateReceivable}
             switchNetwork={switchNetwork}
           />
         )}
-        {ready && tab === 'send' && (
+        {config && tab === 'send' && !sendSource && (
+          <div className="status-box warn" style={{ marginTop: 32 }}>The backend is not watching any source chain.</div>
+        )}
+        {config && tab === 'send' && sendSource && (
           <SendPanel
-            meantimeAddr={meantimeAddr}
+            source={sendSource}
+            arc={config.arc}
+            meantimeAddr={config.contracts.meantime}
+            usdcAddr={config.contracts.usdc}
+            eurcAddr={config.contracts.eurc}
             userAddress={address}
             chainId={chainId}
-            usdcAddr={usdcAddr}
-            eurcAddr={eurcAddr}
             switchNetwork={switchNetwork}
           />
         )}
@@ -1,5 +1,48 @@
 import { useState } from 'react'
-import type { Receivable } from '../types.js'
+import type { ChainConfig, Receivable, ReceivableStatus } from '../types.js'
+
+const STATUS_LABELS: Record<ReceivableStatus, string> = {
+  awaiting_attestation: 'Awaiting attestation',
+  attested:             'Attested',
+  auto_settling:        'Auto-settling',
+  settling:             'Settling',
+  settle_failed:        'Settle failed',
+  needs_operator:       'Needs operator',
+  orphaned:             'Orphaned (burn reorged out)',
+  settled:              'Settled',
+}
+
+// Minutes until the backend's settlement estimate, while still awaiting attestation
+function settleEta(r: Receivable): string | null {
+  if (r.status !== 'awaiting_attestation' || r.estimatedSettleAt === null) return null
+  const secs = Number(r.estimatedSettleAt) - Math.floor(Date.now() / 1000)
+  return secs > 0 ? `~${Math.ceil(secs / 60)} min` : 'any moment'
+}
+
+// Settlement progress reported by the backend; hover for the reason (e.g. a revert)
+function StatusBadge({ r }: { r: Receivable }) {
+  const eta = settleEta(r)
+  return (
+    <span className="status" title={r.statusReason ?? undefined}>
+      {STATUS_LABELS[r.status] ?? r.status}{eta && ` · ${eta}`}
+    </span>
+  )
+}
+
+// Fast or Standard CCTP transfer: settles in seconds vs. minutes, so it prices
+// very differently. Hover for the fee netted out of the face value.
+function SpeedBadge({ r }: { r: Receivable }) {
+  if (r.transferSpeed === null) return null
+  const fee = r.burnAmount !== null ? (Number(r.burnAmount) - Number(r.inboundAmount)) / 1e6 : null
+  const title = r.transferSpeed === 'fast'
+    ? `Fast Transfer${fee !== null ? ` — ${fee.toFixed(6)} USDC CCTP fee deducted from the ${(Number(r.burnAmount) / 1e6).toFixed(2)} burned` : ''}`
+    : 'Standard Transfer — no CCTP fee'
+  return (
+    <span className={`status ${r.transferSpeed}`} title={title}>
+      {r.transferSpeed === 'fast' ? 'Fast' : 'Standard'}
+    </span>
+  )
+}
 
 // Encode a function call: list(uint256,uint256,address)
 function encodeList(tokenId: bigint, price: bigint, token: string): string {
@@ -64,6 +107,7 @@ async function waitForReceipt(txHash: string, timeoutMs = 60_000): Promise<void>
 
 interface Props {
   receivables:  Receivable[]
+  arc:          ChainConfig
   meantimeAddr: `0x${string}`
   tokenSymbol:  (addr: string) => string
   userAddress:  string | null
@@ -71,12 +115,10 @@ interface Props {
   usdcAddr:     string
   eurcAddr:     string
   updateReceivable: (tokenId: string, patch: Partial<Receivable>) => void
-  switchNetwork: (chainId: number) => Promise<void>
+  switchNetwork: (chain: ChainConfig) => Promise<void>
 }
 
-const ARC_CHAIN_ID = 5042002
-
-export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddress, chainId, usdcAddr, eurcAddr, updateReceivable, switchNetwork }: Props) {
+export function Marketplace({ receivables, arc, meantimeAddr, tokenSymbol, userAddress, chainId, usdcAddr, eurcAddr, updateReceivable, switchNetwork }: Props) {
   const [listPrice,   setListPrice]   = useState<Record<string, string>>({})
   const [listPayTok,  setListPayTok]  = useState<Record<string, string>>({})
   const [txStatus,    setTxStatus]    = useState<Record<string, string>>({})
@@ -97,16 +139,21 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
     return true
   })
 
+  // Listing terms typed in, else those the depositor asked for in the burn's hookData
+  const priceOf  = (r: Receivable) => listPrice[r.tokenId]
+    ?? (r.requestedListing ? (Number(r.requestedListing.reservePrice) / 1e6).toFixed(2) : '')
+  const payTokOf = (r: Receivable) => listPayTok[r.tokenId] || r.requestedListing?.paymentToken || eurcAddr
+
   const setStatus = (key: string, msg: string) => setTxStatus(s => ({ ...s, [key]: msg }))
   const setBusyKey = (key: string, val: boolean) => setBusy(s => ({ ...s, [key]: val }))
 
-  const onArc = chainId === ARC_CHAIN_ID
+  const onArc = chainId === arc.chainId
 
   /** Ensure wallet is on Arc before any on-chain action. Returns false if switch failed. */
   const ensureArc = async (): Promise<boolean> => {
     if (onArc) return true
     try {
-      await switchNetwork(ARC_CHAIN_ID)
+      await switchNetwork(arc)
       return true
     } catch {
       return false
@@ -114,10 +161,10 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
   }
 
   const handleList = async (r: Receivable) => {
-    const price = listPrice[r.tokenId]
+    const price = priceOf(r)
     if (!price || !userAddress) return
     const priceUnits = BigInt(Math.round(Number(price) * 1e6))
-    const payToken = listPayTok[r.tokenId] || eurcAddr
+    const payToken = payTokOf(r)
     const key = `list-${r.tokenId}`
     setBusyKey(key, true)
     setStatus(key, 'Confirm in wallet…')
@@ -127,7 +174,9 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
       const tx = await sendTx(userAddress, meantimeAddr, data)
       setStatus(key, `Confirming tx ${String(tx).slice(0, 18)}…`)
       await waitForReceipt(String(tx))
-      updateReceivable(r.tokenId, { listing: { reservePrice: String(priceUnits), paymentToken: payToken } })
+      // Optimistic until the watcher's listed event brings the block time
+      const listedAt = String(Math.floor(Date.now() / 1000))
+      updateReceivable(r.tokenId, { listing: { reservePrice: String(priceUnits), paymentToken: payToken, listedAt } })
       setStatus(key, `Listed! tx: ${String(tx).slice(0, 18)}…`)
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e)
@@ -196,7 +245,7 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
             return (
               <div key={r.tokenId} className="card">
                 <div className="card-header">
-                  <span>#{r.tokenId}</span>
+                  <span>#{r.tokenId} <SpeedBadge r={r} /> <StatusBadge r={r} /></span>
                   <span>{(Number(r.inboundAmount) / 1e6).toFixed(2)} {tokenSymbol(r.inboundToken)}</span>
                 </div>
                 <div className="card-body">
@@ -204,19 +253,20 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
                     type="number"
                     className="list-price-input"
                     placeholder="Price (e.g. 995.00)"
-                    value={listPrice[r.tokenId] ?? ''}
+                    value={priceOf(r)}
+                    title={r.requestedListing ? 'Price requested when the USDC was sent' : undefined}
                     onChange={e => setListPrice(p => ({ ...p, [r.tokenId]: e.target.value }))}
                   />
                   <select
                     className="list-token-select"
-                    value={listPayTok[r.tokenId] || eurcAddr}
+                    value={payTokOf(r)}
                     onChange={e => setListPayTok(p => ({ ...p, [r.tokenId]: e.target.value }))}
                   >
                     <option value={usdcAddr}>USDC</option>
                     <option value={eurcAddr}>EURC</option>
                   </select>
                   <button
-                    disabled={busy[key] || !listPrice[r.tokenId]}
+                    disabled={busy[key] || !priceOf(r)}
                     onClick={() => handleList(r)}
                   >
                     {busy[key] ? 'Listing…' : 'List'}
@@ -238,7 +288,7 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
             return (
               <div key={r.tokenId} className="card">
                 <div className="card-header">
-                  <span>#{r.tokenId}</span>
+                  <span>#{r.tokenId} <SpeedBadge r={r} /> <StatusBadge r={r} /></span>
                   <span className="price">
                     {(Number(r.listing!.reservePrice) / 1e6).toFixed(2)} {tokenSymbol(r.listing!.paymentToken)}
                   </span>
@@ -268,7 +318,7 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
           return (
             <div key={r.tokenId} className="card">
               <div className="card-header">
-                <span>#{r.tokenId}</span>
+                <span>#{r.tokenId} <SpeedBadge r={r} /> <StatusBadge r={r} /></span>
                 <span className="price">
                   {(Number(r.listing!.reservePrice) / 1e6).toFixed(2)} {tokenSymbol(r.listing!.paymentToken)}
                 </span>
@@ -281,6 +331,8 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
                   <span className="status">Your listing</span>
                 ) : !userAddress ? (
                   <span className="status">Connect to fill</span>
+                ) : r.status === 'orphaned' ? (
+                  <span className="status">Not fillable</span>
                 ) : (
                   <button disabled={busy[key]} onClick={() => handleFill(r)}>
                     {busy[key] ? 'Filling…' : 'Fill'}
@@ -300,7 +352,7 @@ export function Marketplace({ receivables, meantimeAddr, tokenSymbol, userAddres
           {othersUnlisted.map(r => (
             <div key={r.tokenId} className="card">
               <div className="card-header">
-                <span>#{r.tokenId}</span>
+                <span>#{r.tokenId} <SpeedBadge r={r} /> <StatusBadge r={r} /></span>
                 <span>{(Number(r.inboundAmount) / 1e6).toFixed(2)} {tokenSymbol(r.inboundToken)}</span>
               </div>
               <div className="card-body">
@@ -1,11 +1,6 @@
 import { useState } from 'react'
 import { API_BASE } from '../config.js'
-
-// Sepolia CCTP V2 contracts
-const SEPOLIA_CHAIN_ID = 11155111
-const SEPOLIA_USDC     = '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238'
-const SEPOLIA_TOKEN_MESSENGER = '0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA'
-const ARC_DOMAIN       = 26  // Circle CCTP domain for Arc testnet
+import type { ChainConfig, SourceChainConfig, TransferSpeed } from '../types.js'
 
 // ABI encoding helpers
 function encodeUint(n: bigint): string { return n.toString(16).padStart(64, '0') }
@@ -17,25 +12,48 @@ function encodeApprove(spender: string, amount: bigint): string {
   return '0x095ea7b3' + encodeAddr(spender) + encodeUint(amount)
 }
 
-// TokenMessengerV2.depositForBurn(uint256 amount, uint32 destinationDomain, bytes32 mintRecipient,
-//   address burnToken, bytes32 destinationCaller, uint256 maxFee, uint32 minFinalityThreshold)
-// selector: keccak256("depositForBurn(uint256,uint32,bytes32,address,bytes32,uint256,uint32)") = 0x8e0250ee
-// Standard Transfer: destinationCaller=bytes32(0), maxFee=0, minFinalityThreshold=2000
-function encodeDepositForBurn(
+// TokenMessengerV2.depositForBurnWithHook(uint256 amount, uint32 destinationDomain, bytes32 mintRecipient,
+//   address burnToken, bytes32 destinationCaller, uint256 maxFee, uint32 minFinalityThreshold, bytes hookData)
+// selector: keccak256("depositForBurnWithHook(uint256,uint32,bytes32,address,bytes32,uint256,uint32,bytes)") = 0x779b432d
+// destinationCaller=bytes32(0). Standard Transfer: maxFee=0, minFinalityThreshold=2000;
+// Fast Transfer: maxFee caps Circle's fee (taken from the amount), minFinalityThreshold=1000
+const MIN_FINALITY: Record<TransferSpeed, bigint> = { standard: 2000n, fast: 1000n }
+
+function encodeDepositForBurnWithHook(
   amount: bigint,
   destDomain: number,
   mintRecipient: string,
   burnToken: string,
+  maxFee: bigint,
+  speed: TransferSpeed,
+  hookData: string,
 ): string {
-  const selector = '0x8e0250ee'
+  const selector = '0x779b432d'
   const amt      = encodeUint(amount)
   const domain   = encodeUint(BigInt(destDomain))
   const recip    = encodeBytes32(mintRecipient)
   const token    = encodeAddr(burnToken)
   const destCaller = encodeBytes32('0x' + '0'.repeat(64))   // anyone can receive
-  const maxFee     = encodeUint(0n)                          // no fee
-  const minFinality = encodeUint(2000n)                      // Standard Transfer (~14 min)
-  return selector + amt + domain + recip + token + destCaller + maxFee + minFinality
+  const fee        = encodeUint(maxFee)
+  const minFinality = encodeUint(MIN_FINALITY[speed])
+  // Dynamic bytes: offset past the 8 head words, then length and right-padded data
+  const hook     = hookData.replace('0x', '')
+  const hookLen  = hook.length / 2
+  const hookTail = encodeUint(8n * 32n) + encodeUint(BigInt(hookLen)) + hook.padEnd(Math.ceil(hookLen / 32) * 64, '0')
+  return selector + amt + domain + recip + token + destCaller + fee + minFinality + hookTail
+}
+
+// MeanTime hookData (backend/src/hookData.ts): "MTIM", version 1, the Arc
+// recipient, flags (bit 0: a listing follows), then reservePrice + paymentToken
+function encodeMeanTimeHook(recipient: string, listing: { reservePrice: bigint; paymentToken: string } | null): string {
+  const head = '0x4d54494d' + '01' + recipient.replace('0x', '').toLowerCase() + (listing ? '01' : '00')
+  return listing ? head + encodeUint(listing.reservePrice) + listing.paymentToken.replace('0x', '').toLowerCase() : head
+}
+
+// TokenMessenger (CCTP V1).depositForBurn(uint256 amount, uint32 destinationDomain,
+//   bytes32 mintRecipient, address burnToken) -- selector 0x6fd3504e. Always Standard, no fee.
+function encodeDepositForBurnV1(amount: bigint, destDomain: number, mintRecipient: string, burnToken: string): string {
+  return '0x6fd3504e' + encodeUint(amount) + encodeUint(BigInt(destDomain)) + encodeBytes32(mintRecipient) + encodeAddr(burnToken)
 }
 
 async function sendTx(from: string, to: string, data: string): Promise<string> {
@@ -47,6 +65,37 @@ async function sendTx(from: string, to: string, data: string): Promise<string> {
   return txHash as string
 }
 
+// EIP-712 RecipientAssignment (backend/src/recipientAuth.ts): the burn's sender
+// authorises the backend to mint the receivable for this burn tx to another address
+async function signRecipient(
+  from: string, sourceChainId: number, meantime: string, sourceTxHash: string, sourceDomain: number, recipient: string,
+): Promise<string> {
+  if (!window.ethereum) throw new Error('No wallet connected')
+  const typedData = {
+    types: {
+      EIP712Domain: [
+        { name: 'name',              type: 'string'  },
+        { name: 'version',           type: 'string'  },
+        { name: 'chainId',           type: 'uint256' },
+        { name: 'verifyingContract', type: 'address' },
+      ],
+      RecipientAssignment: [
+        { name: 'sourceTxHash', type: 'bytes32' },
+        { name: 'sourceDomain', type: 'uint32'  },
+        { name: 'recipient',    type: 'address' },
+      ],
+    },
+    primaryType: 'RecipientAssignment',
+    domain:      { name: 'MeanTime', version: '1', chainId: sourceChainId, verifyingContract: meantime },
+    message:     { sourceTxHash, sourceDomain, recipient },
+  }
+  const signature = await window.ethereum.request({
+    method: 'eth_signTypedData_v4',
+    params: [from, JSON.stringify(typedData)],
+  })
+  return signature as string
+}
+
 async function waitForReceipt(txHash: string, timeoutMs = 180_000): Promise<`0x0` | `0x1`> {
   if (!window.ethereum) throw new Error('No wallet connected')
   const started = Date.now()
@@ -75,30 +124,40 @@ async function waitForReceipt(txHash: string, timeoutMs = 180_000): Promise<`0x0
 }
 
 interface Props {
+  source:       SourceChainConfig  // CCTP source chain the burn happens on
+  arc:          ChainConfig
   meantimeAddr: string
+  usdcAddr:     string  // Arc payment tokens a requested listing may ask for
+  eurcAddr:     string
   userAddress:  string | null
   chainId:      number | null
-  usdcAddr:     string
-  eurcAddr:     string
-  switchNetwork: (chainId: number) => Promise<void>
+  switchNetwork: (chain: ChainConfig) => Promise<void>
 }
 
 type Step = 'idle' | 'switching' | 'approving' | 'burning' | 'pending' | 'done' | 'error'
 
-export function SendPanel({ meantimeAddr, userAddress, chainId, switchNetwork }: Props) {
+export function SendPanel({ source, arc, meantimeAddr, usdcAddr, eurcAddr, userAddress, chainId, switchNetwork }: Props) {
   const [recipient, setRecipient] = useState('')
   const [amount,    setAmount]    = useState('10')
+  const [speed,     setSpeed]     = useState<TransferSpeed>('standard')
+  const [maxFee,    setMaxFee]    = useState('0.01')
+  const [listOnArrival, setListOnArrival] = useState(false)
+  const [listPrice,     setListPrice]     = useState('')
+  const [listPayTok,    setListPayTok]    = useState('')
   const [step,      setStep]      = useState<Step>('idle')
   const [status,    setStatus]    = useState('')
   const [txHash,    setTxHash]    = useState('')
 
-  const onSepolia = chainId === SEPOLIA_CHAIN_ID
+  const onSource = chainId === source.chainId
+  // CCTP V1 has no Fast Transfers and no hookData to carry the recipient in
+  const fastAvailable = source.cctpVersion !== 1
+  const hooksAvailable = source.cctpVersion !== 1
 
-  const handleSwitchToSepolia = async () => {
+  const handleSwitchToSource = async () => {
     setStep('switching')
-    setStatus('Switching to Sepolia…')
+    setStatus(`Switching to ${source.name}…`)
     try {
-      await switchNetwork(SEPOLIA_CHAIN_ID)
+      await switchNetwork(source)
       setStep('idle')
       setStatus('')
     } catch {
@@ -114,41 +173,65 @@ export function SendPanel({ meantimeAddr, userAddress, chainId, switchNetwork }:
       return
     }
     if (!amount || Number(amount) <= 0) { setStatus('Enter a valid amount.'); return }
+    const fast = fastAvailable && speed === 'fast'
+    if (fast && !(Number(maxFee) >= 0 && Number(maxFee) < Number(amount))) {
+      setStatus('Max fee must be at least 0 and less than the amount.')
+      return
+    }
+    const listing = hooksAvailable && listOnArrival
+    if (listing && !(Number(listPrice) > 0)) {
+      setStatus('Enter a positive listing price.')
+      return
+    }
 
-    const units = BigInt(Math.round(Number(amount) * 1e6))
+    const units    = BigInt(Math.round(Number(amount) * 1e6))
+    const feeUnits = fast ? BigInt(Math.round(Number(maxFee) * 1e6)) : 0n
     const mintRecipient = meantimeAddr.replace('0x', '').padStart(64, '0')
 
     try {
       // Step 1: Approve TokenMessenger to spend USDC
       setStep('approving')
-      setStatus('Step 1/2 — Approve Sepolia USDC for CCTP…')
-      const approveData = encodeApprove(SEPOLIA_TOKEN_MESSENGER, units)
-      const approveTxHash = await sendTx(userAddress, SEPOLIA_USDC, approveData)
+      setStatus(`Step 1/2 — Approve ${source.name} USDC for CCTP…`)
+      const approveData = encodeApprove(source.cctp.tokenMessenger, units)
+      const approveTxHash = await sendTx(userAddress, source.cctp.usdc, approveData)
       setStatus('Waiting for approve confirmation…')
       const approveStatus = await waitForReceipt(approveTxHash)
       if (approveStatus !== '0x1') {
         throw new Error('Approve transaction failed on-chain.')
       }
 
-      // Step 2: depositForBurn → burns USDC on Sepolia, emits CCTP message
+      // Step 2: depositForBurn → burns USDC on the source chain, emits CCTP message
       setStep('burning')
-      setStatus('Step 2/2 — Burning USDC on Sepolia via CCTP…')
-      const burnData = encodeDepositForBurn(units, ARC_DOMAIN, mintRecipient, SEPOLIA_USDC)
-      const burnTxHash = await sendTx(userAddress, SEPOLIA_TOKEN_MESSENGER, burnData)
+      setStatus(`Step 2/2 — Burning USDC on ${source.name} via CCTP…`)
+      const hookData = encodeMeanTimeHook(recipient, listing
+        ? { reservePrice: BigInt(Math.round(Number(listPrice) * 1e6)), paymentToken: listPayTok || eurcAddr }
+        : null)
+      const burnData = hooksAvailable
+        ? encodeDepositForBurnWithHook(units, arc.domain, mintRecipient, source.cctp.usdc, feeUnits, fast ? 'fast' : 'standard', hookData)
+        : encodeDepositForBurnV1(units, arc.domain, mintRecipient, source.cctp.usdc)
+      const burnTxHash = await sendTx(userAddress, source.cctp.tokenMessenger, burnData)
       setTxHash(burnTxHash)
-      setStatus('Waiting for burn confirmation on Sepolia…')
+      setStatus(`Waiting for burn confirmation on ${source.name}…`)
       const burnStatus = await waitForReceipt(burnTxHash)
       if (burnStatus !== '0x1') {
         throw new Error('Burn transaction failed on-chain.')
       }
 
-      // Step 3: Notify backend to track this transfer and mint the NFT on Arc
+      // Step 3: Notify backend to track this transfer and mint the NFT on Arc.
+      // V2 burns carry the recipient in hookData; a V1 burn's receivable goes to
+      // its sender unless they sign another recipient.
       setStep('pending')
+      let assignment = {}
+      if (!hooksAvailable && recipient.toLowerCase() !== userAddress.toLowerCase()) {
+        setStatus(`Sign to send the receivable to ${recipient.slice(0, 10)}…`)
+        const signature = await signRecipient(userAddress, source.chainId, meantimeAddr, burnTxHash, source.domain, recipient)
+        assignment = { recipient, signature }
+      }
       setStatus('Notifying backend — waiting for Arc mint…')
       const res = await fetch(`${API_BASE}/api/bridge/initiate-cctp`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ txHash: burnTxHash, recipient }),
+        body: JSON.stringify({ txHash: burnTxHash, sourceDomain: source.domain, ...assignment }),
       })
       const raw = await res.text()
       let data: { tokenId?: string; error?: string } = {}
@@ -162,7 +245,7 @@ export function SendPanel({ meantimeAddr, userAddress, chainId, switchNetwork }:
         setStep('done')
         setStatus(
           `NFT minted for ${recipient.slice(0, 10)}…  ` +
-          `Settlement in ~14 min. Token ID: ${data.tokenId}`
+          `Settlement in ${fast ? 'under a minute' : '~14 min'}. Token ID: ${data.tokenId}`
         )
       } else {
         setStep('error')
@@ -182,24 +265,25 @@ export function SendPanel({ meantimeAddr, userAddress, chainId, switchNetwork }:
       <h2>Send USDC → Arc</h2>
 
       <p className="hint">
-        Burns Sepolia USDC via CCTP and mints a receivable NFT on Arc.
-        Settlement arrives in ~14 minutes via Circle attestation.
+        Burns {source.name} USDC via CCTP and mints a receivable NFT on Arc.
+        Settlement arrives via Circle attestation: ~14 minutes for Standard,
+        seconds for Fast (which pays Circle a fee of up to the max fee).
       </p>
 
       {!userAddress && (
         <div className="status-box warn">Connect your wallet to send.</div>
       )}
 
-      {userAddress && !onSepolia && (
+      {userAddress && !onSource && (
         <div className="network-prompt">
-          <p>You must be on <strong>Sepolia</strong> to initiate a CCTP transfer.</p>
-          <button onClick={handleSwitchToSepolia} disabled={busy}>
-            Switch to Sepolia
+          <p>You must be on <strong>{source.name}</strong> to initiate a CCTP transfer.</p>
+          <button onClick={handleSwitchToSource} disabled={busy}>
+            Switch to {source.name}
           </button>
         </div>
       )}
 
-      {userAddress && onSepolia && (
+      {userAddress && onSource && (
         <div className="form-group">
           <label>Recipient on Arc
             <input
@@ -218,11 +302,60 @@ export function SendPanel({ meantimeAddr, userAddress, chainId, switchNetwork }:
               disabled={busy}
             />
           </label>
+          {fastAvailable && (
+            <label>Transfer speed
+              <select value={speed} onChange={e => setSpeed(e.target.value as TransferSpeed)} disabled={busy}>
+                <option value="standard">Standard (~14 min, no fee)</option>
+                <option value="fast">Fast (seconds, fee)</option>
+              </select>
+            </label>
+          )}
+          {fastAvailable && speed === 'fast' && (
+            <label>Max fee (USDC)
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={maxFee}
+                onChange={e => setMaxFee(e.target.value)}
+                disabled={busy}
+              />
+            </label>
+          )}
+          {hooksAvailable && (
+            <label>
+              <input
+                type="checkbox"
+                checked={listOnArrival}
+                onChange={e => setListOnArrival(e.target.checked)}
+                disabled={busy}
+              />
+              Ask to list the receivable on arrival
+            </label>
+          )}
+          {hooksAvailable && listOnArrival && (
+            <label>Listing price
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={listPrice}
+                onChange={e => setListPrice(e.target.value)}
+                placeholder="e.g. 9.95"
+                disabled={busy}
+              />
+              <select value={listPayTok || eurcAddr} onChange={e => setListPayTok(e.target.value)} disabled={busy}>
+                <option value={usdcAddr}>USDC</option>
+                <option value={eurcAddr}>EURC</option>
+              </select>
+            </label>
+          )}
           <button onClick={handleSend} disabled={busy || !userAddress}>
             {busy ? status : `Send ${amount} USDC`}
           </button>
           <p className="hint small">
-            Two wallet confirmations: approve USDC + burn via CCTP.
+            Two wallet confirmations: approve USDC + burn via CCTP
+            {hooksAvailable ? '. The recipient travels with the burn.' : ', plus a signature if the recipient is not you.'}
           </p>
         </div>
       )}
@@ -232,7 +365,7 @@ export function SendPanel({ meantimeAddr, userAddress, chainId, switchNetwork }:
           {status}
           {txHash && (
             <div style={{ marginTop: 4, fontSize: '0.8em', wordBreak: 'break-all' }}>
-              Sepolia tx: {txHash}
+              {source.name} tx: {txHash}
             </div>
           )}
         </div>
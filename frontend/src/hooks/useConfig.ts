@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react'
+import { API_BASE } from '../config.js'
+import type { AppConfig } from '../types.js'
+
+// Chains, CCTP contracts and MeanTime addresses come from the backend so the
+// frontend never bakes them in at build time.
+export function useConfig() {
+  const [config, setConfig] = useState<AppConfig | null>(null)
+
+  useEffect(() => {
+    fetch(`${API_BASE}/api/config`)
+      .then(r => r.json())
+      .then(setConfig)
+      .catch(console.error)
+  }, [])
+
+  return config
+}
@@ -1,34 +1,36 @@
 // Hook for MeanTime contract write actions: list, delist, fill
 // Uses viem with window.ethereum directly — no wagmi needed
 
-import { useCallback } from 'react'
+import { useCallback, useMemo } from 'react'
 import {
   createPublicClient,
   createWalletClient,
   custom,
   http,
+  type Chain,
 } from 'viem'
 import { MEANTIME_ABI, ERC20_ABI } from '../abi.js'
+import type { AppConfig, ChainConfig } from '../types.js'
+
+function toViemChain(chain: ChainConfig): Chain {
+  return {
+    id:   chain.chainId,
+    name: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: { default: { http: [chain.rpcUrl] } },
+  }
+}
 
-const MEANTIME_ADDR = (import.meta.env.VITE_MEANTIME_ADDR ?? '0xff022c195F9e3bA7c16ac5DEE5c42579928eAC59') as `0x${string}`
-
-const ARC_CHAIN = {
-  id:   5042002,
-  name: 'Arc Testnet',
-  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-  rpcUrls: { default: { http: [import.meta.env.VITE_RPC_URL ?? 'https://rpc.testnet.arc.network'] } },
-} as const
-
-function getClients(address: string) {
+function getClients(address: string, arcChain: Chain) {
   if (!window.ethereum) throw new Error('No wallet')
 
   const publicClient = createPublicClient({
-    chain: ARC_CHAIN,
-    transport: http(ARC_CHAIN.rpcUrls.default.http[0]),
+    chain: arcChain,
+    transport: http(arcChain.rpcUrls.default.http[0]),
   })
 
   const walletClient = createWalletClient({
-    chain: ARC_CHAIN,
+    chain: arcChain,
     transport: custom(window.ethereum),
     account: address as `0x${string}`,
   })
@@ -36,54 +38,58 @@ function getClients(address: string) {
   return { publicClient, walletClient }
 }
 
-export function useContractActions(walletAddress: string | null) {
+// Chain and contract come from GET /api/config (see useConfig)
+export function useContractActions(walletAddress: string | null, config: AppConfig) {
+  const meantimeAddr = config.contracts.meantime as `0x${string}`
+  const arcChain     = useMemo(() => toViemChain(config.arc), [config.arc])
+
   const list = useCallback(
     async (tokenId: bigint, reservePrice: bigint, paymentToken: `0x${string}`) => {
       if (!walletAddress) throw new Error('Wallet not connected')
-      const { walletClient } = getClients(walletAddress)
+      const { walletClient } = getClients(walletAddress, arcChain)
 
       const hash = await walletClient.writeContract({
-        address:      MEANTIME_ADDR,
+        address:      meantimeAddr,
         abi:          MEANTIME_ABI,
         functionName: 'list',
         args:         [tokenId, reservePrice, paymentToken],
         account:      walletAddress as `0x${string}`,
-        chain:        ARC_CHAIN,
+        chain:        arcChain,
       })
       return hash
     },
-    [walletAddress],
+    [walletAddress, meantimeAddr, arcChain],
   )
 
   const delist = useCallback(
     async (tokenId: bigint) => {
       if (!walletAddress) throw new Error('Wallet not connected')
-      const { walletClient } = getClients(walletAddress)
+      const { walletClient } = getClients(walletAddress, arcChain)
 
       const hash = await walletClient.writeContract({
-        address:      MEANTIME_ADDR,
+        address:      meantimeAddr,
         abi:          MEANTIME_ABI,
         functionName: 'delist',
         args:         [tokenId],
         account:      walletAddress as `0x${string}`,
-        chain:        ARC_CHAIN,
+        chain:        arcChain,
       })
       return hash
     },
-    [walletAddress],
+    [walletAddress, meantimeAddr, arcChain],
   )
 
   const fill = useCallback(
     async (tokenId: bigint, paymentToken: `0x${string}`, amount: bigint) => {
       if (!walletAddress) throw new Error('Wallet not connected')
-      const { publicClient, walletClient } = getClients(walletAddress)
+      const { publicClient, walletClient } = getClients(walletAddress, arcChain)
 
       // Check allowance and approve if needed
       const allowance = await publicClient.readContract({
         address:      paymentToken,
         abi:          ERC20_ABI,
         functionName: 'allowance',
-        args:         [walletAddress as `0x${string}`, MEANTIME_ADDR],
+        args:         [walletAddress as `0x${string}`, meantimeAddr],
       }) as bigint
 
       if (allowance < amount) {
@@ -91,25 +97,25 @@ export function useContractActions(walletAddress: string | null) {
           address:      paymentToken,
           abi:          ERC20_ABI,
           functionName: 'approve',
-          args:         [MEANTIME_ADDR, amount],
+          args:         [meantimeAddr, amount],
           account:      walletAddress as `0x${string}`,
-          chain:        ARC_CHAIN,
+          chain:        arcChain,
         })
         // Wait for approval to be mined
         await publicClient.waitForTransactionReceipt({ hash: approveTx })
       }
 
       const hash = await walletClient.writeContract({
-        address:      MEANTIME_ADDR,
+        address:      meantimeAddr,
         abi:          MEANTIME_ABI,
         functionName: 'fill',
         args:         [tokenId],
         account:      walletAddress as `0x${string}`,
-        chain:        ARC_CHAIN,
+        chain:        arcChain,
       })
       return hash
     },
-    [walletAddress],
+    [walletAddress, meantimeAddr, arcChain],
   )
 
   return { list, delist, fill }
@@ -24,11 +24,11 @@ export function useReceivables() {
     })
 
     es.addEventListener('listed', (e) => {
-      const { tokenId, reservePrice, paymentToken } = JSON.parse(e.data)
+      const { tokenId, reservePrice, paymentToken, listedAt } = JSON.parse(e.data)
       setReceivables(prev => {
         const next = new Map(prev)
         const r = next.get(tokenId)
-        if (r) next.set(tokenId, { ...r, listing: { reservePrice, paymentToken } })
+        if (r) next.set(tokenId, { ...r, listing: { reservePrice, paymentToken, listedAt } })
         return next
       })
     })
@@ -53,6 +53,16 @@ export function useReceivables() {
       })
     })
 
+    es.addEventListener('status', (e) => {
+      const { tokenId, status, statusReason } = JSON.parse(e.data)
+      setReceivables(prev => {
+        const next = new Map(prev)
+        const r = next.get(tokenId)
+        if (r) next.set(tokenId, { ...r, status, statusReason })
+        return next
+      })
+    })
+
     es.addEventListener('settled', (e) => {
       const { tokenId } = JSON.parse(e.data)
       setReceivables(prev => {
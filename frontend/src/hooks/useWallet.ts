@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import type { ChainConfig } from '../types.js'
 
 declare global {
   interface Window {
@@ -67,23 +68,24 @@ export function useWallet() {
     setAddress(null)
   }
 
-  const switchNetwork = async (chainId: number) => {
+  const switchNetwork = async (chain: ChainConfig) => {
     if (!window.ethereum) return
+    const hexChainId = `0x${chain.chainId.toString(16)}`
     try {
       await window.ethereum.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: `0x${chainId.toString(16)}` }],
+        params: [{ chainId: hexChainId }],
       })
     } catch (err: unknown) {
-      // Chain not added yet — add it for Arc testnet
-      if ((err as { code?: number }).code === 4902 && chainId === 5042002) {
+      // Chain not added yet — add it from the registry
+      if ((err as { code?: number }).code === 4902) {
         await window.ethereum.request({
           method: 'wallet_addEthereumChain',
           params: [{
-            chainId: '0x4cef52',
-            chainName: 'Arc Network Testnet',
-            nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
-            rpcUrls: ['https://rpc.testnet.arc.network'],
+            chainId: hexChainId,
+            chainName: chain.name,
+            nativeCurrency: chain.nativeCurrency,
+            rpcUrls: [chain.rpcUrl],
             blockExplorerUrls: [],
           }],
         })
@@ -1,14 +1,40 @@
 export interface Listing {
   reservePrice: string  // bigint as string
   paymentToken: string
+  listedAt:     string | null  // unix seconds; null for listings recorded before it was tracked
 }
 
+export type ReceivableStatus =
+  | 'awaiting_attestation'
+  | 'attested'
+  | 'auto_settling'
+  | 'settling'
+  | 'settle_failed'
+  | 'needs_operator'
+  | 'orphaned'
+  | 'settled'
+
+// CCTP Fast Transfers are attested in seconds for a fee; Standard ones wait for finality
+export type TransferSpeed = 'fast' | 'standard'
+
 export interface Receivable {
-  tokenId:         string
-  cctpMessageHash: string
-  inboundToken:    string
-  inboundAmount:   string
-  mintedAt:        string
-  beneficialOwner: string
-  listing:         Listing | null
+  tokenId:           string
+  cctpMessageHash:   string
+  inboundToken:      string
+  inboundAmount:     string
+  mintedAt:          string        // unix seconds
+  estimatedSettleAt: string | null // unix seconds; null if the mint time is unknown
+  secondsRemaining:  number | null // as of when the backend served it
+  beneficialOwner:   string
+  listing:           Listing | null
+  status:            ReceivableStatus
+  statusReason:      string | null
+  transferSpeed:     TransferSpeed | null  // null if the backend never saw the burn message
+  burnAmount:        string | null         // gross burned; inboundAmount is net of Circle's fee
+  requestedListing:  Omit<Listing, 'listedAt'> | null  // asked for in the burn's hookData
 }
+
+// Chain registry served by GET /api/config: the backend's own types, so the two cannot drift
+export type {
+  ChainConfig, PublicSourceChainConfig as SourceChainConfig, AppConfig,
+} from '../../backend/src/configTypes.js'